@@ -1,11 +1,21 @@
 
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import type { ProcessedNote, ProcessedNoteWithId, ChatSession, ActionItem, User } from './types';
-import { processTranscript } from './services/geminiService';
+import type { ProcessedNote, ProcessedNoteWithId, ChatSession, ActionItem, User, Task, Subtask } from './types';
+import { processTranscript, suggestSubtasks } from './services/geminiService';
 import * as notesService from './services/notesService';
 import * as chatService from './services/chatService';
+import * as tasksService from './services/tasksService';
+import * as searchService from './services/searchService';
 import * as authService from './services/authService';
-import type { TodaysActionItem } from './services/notesService';
+import * as audioService from './services/audioService';
+import * as syncService from './services/syncService';
+import * as processingQueue from './services/processingQueue';
+import * as reminderService from './services/reminderService';
+import * as calendarImportService from './services/calendarImportService';
+import type { ImportCandidate } from './services/calendarImportService';
+import type { ActionItemDetails } from './services/actionItemFields';
+import type { NotesCursor, ScheduledNote, TodaysActionItem } from './services/notesService';
+import { toLocalDateString } from './services/dates';
 import Header from './components/Header';
 import RecorderControl from './components/RecorderControl';
 import NoteCard from './components/NoteCard';
@@ -15,24 +25,43 @@ import NoteEditor from './components/NoteEditor';
 import Clock from './components/Clock';
 import Calendar from './components/Calendar';
 import AddTaskModal, { ManualTaskPayload } from './components/AddTaskModal';
+import EditTaskModal, { TaskEdits } from './components/EditTaskModal';
 import AskAIView from './components/AskAIView';
 import ChatDetailView from './components/ChatDetailView';
 import DateDetailPopover from './components/DateDetailPopover';
 import Auth from './components/Auth';
+import ReminderSettings from './components/ReminderSettings';
+import AgendaView from './components/AgendaView';
+import KanbanBoard from './components/KanbanBoard';
+import ImportCalendarModal, { CalendarImportPreview } from './components/ImportCalendarModal';
+import SubtaskList from './components/SubtaskList';
+import ConfirmationModal from './components/ConfirmationModal';
+import QuickAddBar from './components/QuickAddBar';
 
 // --- New Component Definition for Today's Reminders ---
 interface TodaysActionsProps {
     items: TodaysActionItem[];
-    onToggle: (noteId: string, itemIndex: number) => void;
+    overdueCount: number;
+    onToggle: (entry: TodaysActionItem) => void;
+    onToggleSubtask: (entry: TodaysActionItem, subtaskId: string) => void;
     onNavigateToNote: (noteId: string) => void;
+    onEditTask: (taskId: string) => void;
+    onShowAgenda: () => void;
 }
 
-const TodaysActions: React.FC<TodaysActionsProps> = ({ items, onToggle, onNavigateToNote }) => {
+const TodaysActions: React.FC<TodaysActionsProps> = ({ items, overdueCount, onToggle, onToggleSubtask, onNavigateToNote, onEditTask, onShowAgenda }) => {
+    const overdueNotice = overdueCount > 0 && (
+        <button onClick={onShowAgenda} className="mt-3 text-sm text-red-300 hover:underline focus:outline-none">
+            {overdueCount} overdue {overdueCount === 1 ? 'task' : 'tasks'} · View agenda
+        </button>
+    );
+
     if (items.length === 0) {
         return (
             <div className="w-full bg-gray-900/50 border border-gray-700/50 rounded-lg p-4 text-center">
                 <h3 className="text-lg font-semibold text-gray-300 mb-2">No Reminders Today</h3>
                 <p className="text-gray-400">Use the calendar to add a task for today.</p>
+                {overdueNotice}
             </div>
         );
     }
@@ -46,35 +75,57 @@ const TodaysActions: React.FC<TodaysActionsProps> = ({ items, onToggle, onNaviga
                 <span>Reminders for Today</span>
             </h3>
             <ul className="space-y-2">
-                {items.map(({ noteId, itemIndex, item, noteTitle }) => (
-                    <li key={`${noteId}-${itemIndex}`} className="flex items-start bg-gray-800/50 p-3 rounded-md">
+                {items.map(entry => {
+                    const { source, noteId, itemId, item, noteTitle } = entry;
+                    return (
+                    <li key={`${source}-${itemId}`} className="flex items-start bg-gray-800/50 p-3 rounded-md">
                         <input
-                            id={`today-action-item-${noteId}-${itemIndex}`}
+                            id={`today-action-item-${source}-${itemId}`}
                             type="checkbox"
                             checked={item.completed}
-                            onChange={() => onToggle(noteId, itemIndex)}
+                            onChange={() => onToggle(entry)}
                             className="h-5 w-5 rounded border-gray-500 text-blue-500 bg-gray-700 focus:ring-blue-600 focus:ring-offset-gray-800 mt-1 cursor-pointer flex-shrink-0"
                         />
                         <div className="ml-3 flex-grow">
                             <label
-                                htmlFor={`today-action-item-${noteId}-${itemIndex}`}
+                                htmlFor={`today-action-item-${source}-${itemId}`}
                                 className={`text-base cursor-pointer transition-colors ${item.completed ? 'text-gray-500 line-through' : 'text-gray-200'}`}
                             >
                                 {item.text}
                             </label>
+                            {item.subtasks && (
+                                <SubtaskList
+                                    subtasks={item.subtasks}
+                                    idPrefix={`today-action-item-${source}-${itemId}`}
+                                    onToggle={(subtaskId) => onToggleSubtask(entry, subtaskId)}
+                                />
+                            )}
                             <p className="text-xs text-gray-400 mt-1 flex items-center flex-wrap">
                                 {item.time && (
                                     <span className="mr-2 px-1.5 py-0.5 bg-blue-900/70 text-blue-300 rounded text-xs font-mono">{item.time}</span>
                                 )}
-                                <span>From note:</span> 
-                                <button onClick={() => onNavigateToNote(noteId)} className="ml-1 text-blue-400 hover:underline focus:outline-none">
-                                    {noteTitle}
-                                </button>
+                                {noteId ? (
+                                    <>
+                                        <span>From note:</span>
+                                        <button onClick={() => onNavigateToNote(noteId)} className="ml-1 text-blue-400 hover:underline focus:outline-none">
+                                            {noteTitle}
+                                        </button>
+                                    </>
+                                ) : (
+                                    <span>Task</span>
+                                )}
+                                {source === 'task' && (
+                                    <button onClick={() => onEditTask(itemId)} className="ml-2 text-blue-400 hover:underline focus:outline-none">
+                                        Edit
+                                    </button>
+                                )}
                             </p>
                         </div>
                     </li>
-                ))}
+                    );
+                })}
             </ul>
+            {overdueNotice}
         </div>
     );
 };
@@ -128,7 +179,20 @@ declare global {
 
 const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
 
-type View = 'home' | 'notesList' | 'noteDetail' | 'editNote' | 'askAI' | 'chatDetail';
+type View = 'home' | 'agenda' | 'board' | 'notesList' | 'noteDetail' | 'editNote' | 'askAI' | 'chatDetail';
+
+// How long notes must stay unchanged before they are embedded for search
+const SEARCH_INDEX_DELAY_MS = 2000;
+
+// The newest notes, up to count, for the list, and the action items of every note,
+// which the calendar, agenda and reminders need whichever page it is on
+const fetchNotes = async (count: number): Promise<{ notes: ProcessedNoteWithId[], nextCursor: NotesCursor | null, scheduledNotes: ScheduledNote[] }> => {
+    const [page, scheduledNotes] = await Promise.all([
+        notesService.getNotes(undefined, count),
+        notesService.getScheduledNotes()
+    ]);
+    return { ...page, scheduledNotes };
+};
 
 const App: React.FC = () => {
   const [user, setUser] = useState<User | null>(null);
@@ -143,22 +207,39 @@ const App: React.FC = () => {
   
   const [view, setView] = useState<View>('home');
   const [notes, setNotes] = useState<ProcessedNoteWithId[]>([]);
+  // Where the next page of the notes list starts; null once every page is loaded
+  const [notesCursor, setNotesCursor] = useState<NotesCursor | null>(null);
+  // The action items of all notes, including those on pages not loaded yet
+  const [scheduledNotes, setScheduledNotes] = useState<ScheduledNote[]>([]);
+  const [tasks, setTasks] = useState<Task[]>([]);
   const [selectedNoteId, setSelectedNoteId] = useState<string | null>(null);
   const [todaysActions, setTodaysActions] = useState<TodaysActionItem[]>([]);
+  const [overdueCount, setOverdueCount] = useState<number>(0);
   
   const [isAddTaskModalOpen, setIsAddTaskModalOpen] = useState<boolean>(false);
   const [selectedDateForTask, setSelectedDateForTask] = useState<Date | null>(null);
+  const [calendarImport, setCalendarImport] = useState<CalendarImportPreview | null>(null);
   const [datePopover, setDatePopover] = useState<{ date: Date, target: HTMLElement } | null>(null);
+  const [editingTaskId, setEditingTaskId] = useState<string | null>(null);
   
   const [listSelectedNoteIds, setListSelectedNoteIds] = useState<string[]>([]);
   
   const [chatSessions, setChatSessions] = useState<ChatSession[]>([]);
   const [selectedChatId, setSelectedChatId] = useState<string | null>(null);
   const [pendingChatSession, setPendingChatSession] = useState<ChatSession | null>(null);
+  // Changes still waiting for upload when the user tried to sign out
+  const [unsyncedSignOutCount, setUnsyncedSignOutCount] = useState<number>(0);
 
   const recognitionRef = useRef<SpeechRecognition | null>(null);
+  // Pending MediaRecorder capture for the current recording, if any
+  const audioCaptureRef = useRef<Promise<audioService.AudioCapture | null> | null>(null);
+  const finalResultsRef = useRef<audioService.TimedSpeechResult[]>([]);
   const isProcessingRef = useRef<boolean>(false);
   const fromViewRef = useRef<View>('home');
+  // How many notes a refresh reloads, so pages the user has scrolled to stay loaded
+  const loadedNoteCountRef = useRef<number>(notesService.NOTES_PAGE_SIZE);
+  // Bumped whenever the list is reloaded from the start, so older pages still loading are dropped
+  const notesGenerationRef = useRef<number>(0);
 
   useEffect(() => {
     const initAuth = async () => {
@@ -182,28 +263,117 @@ const App: React.FC = () => {
             setIsLoading(true);
             setLoadingMessage("Loading your notes...");
             try {
-                const [fetchedNotes, fetchedChats] = await Promise.all([
-                    notesService.getNotes(),
-                    chatService.getChatSessions()
+                loadedNoteCountRef.current = notesService.NOTES_PAGE_SIZE;
+                const [fetchedNotes, fetchedChats, fetchedTasks] = await Promise.all([
+                    fetchNotes(loadedNoteCountRef.current),
+                    chatService.getChatSessions(),
+                    tasksService.getTasks()
                 ]);
-                setNotes(fetchedNotes);
+                notesGenerationRef.current++;
+                setNotes(fetchedNotes.notes);
+                setNotesCursor(fetchedNotes.nextCursor);
+                setScheduledNotes(fetchedNotes.scheduledNotes);
                 setChatSessions(fetchedChats);
+                setTasks(fetchedTasks);
             } catch (e) {
                 console.error("Error fetching data", e);
             } finally {
                 setIsLoading(false);
             }
         } else {
+            notesGenerationRef.current++;
             setNotes([]);
+            setNotesCursor(null);
+            setScheduledNotes([]);
             setChatSessions([]);
+            setTasks([]);
         }
     };
     fetchData();
   }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+    // Writes are saved locally first; keep pushing them to Supabase and pick up
+    // any server copies that won a conflict while we were offline.
+    return syncService.startBackgroundSync(async () => {
+        const [syncedNotes, syncedChats, syncedTasks] = await Promise.all([
+            fetchNotes(loadedNoteCountRef.current),
+            chatService.getChatSessions(),
+            tasksService.getTasks()
+        ]);
+        notesGenerationRef.current++;
+        setNotes(syncedNotes.notes);
+        setNotesCursor(syncedNotes.nextCursor);
+        setScheduledNotes(syncedNotes.scheduledNotes);
+        setChatSessions(syncedChats);
+        setTasks(syncedTasks);
+    });
+  }, [user]);
+
+  // A saved note replaces its old copy in the list and in the scheduled items
+  const applySavedNote = useCallback((savedNote: ProcessedNoteWithId) => {
+    setNotes(currentNotes => currentNotes.map(n => n.id === savedNote.id ? savedNote : n));
+    setScheduledNotes(current => notesService.withScheduledNote(current, savedNote));
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+    // Fill in notes that were saved before the AI could process them
+    return processingQueue.startProcessingQueue(applySavedNote);
+  }, [user, applySavedNote]);
   
   useEffect(() => {
-    setTodaysActions(notesService.getTodaysActionItemsFromNotes(notes));
-  }, [notes]);
+    if (!user) return;
+    // Notification buttons act on the stored items; mirror the result here
+    return reminderService.startReminderScheduler({
+        onNoteUpdated: applySavedNote,
+        onTaskUpdated: updatedTask => setTasks(currentTasks => currentTasks.map(t => t.id === updatedTask.id ? updatedTask : t)),
+        onOpen: reminder => {
+            if (reminder.noteId) {
+                setSelectedNoteId(reminder.noteId);
+                setView('noteDetail');
+            } else {
+                setView('home');
+            }
+        },
+    });
+  }, [user, applySavedNote]);
+
+  useEffect(() => {
+    if (!user || notes.length === 0) return;
+    // Embed new and edited notes for search once edits settle; unchanged notes are skipped
+    const timer = setTimeout(() => searchService.indexNotes(notes), SEARCH_INDEX_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [user, notes]);
+
+  useEffect(() => {
+    if (!user) return;
+    // Notes on pages never loaded, or saved on another device, are indexed in the background
+    searchService.indexAllNotes();
+  }, [user]);
+
+  // Notes from pages not loaded yet are kept for chats, search results or when opened
+  // from the calendar, but stay out of the list until their page loads, so it has no gaps
+  const listedNotes = useMemo(
+    () => notesCursor ? notes.filter(note => notesService.isBeforeCursor(note, notesCursor)) : notes,
+    [notes, notesCursor]
+  );
+
+  useEffect(() => {
+    setTodaysActions(notesService.getTodaysActionItemsFromNotes(scheduledNotes, tasks));
+    const yesterday = new Date();
+    yesterday.setDate(yesterday.getDate() - 1);
+    setOverdueCount(notesService.queryActionItems(scheduledNotes, tasks, { to: toLocalDateString(yesterday) }).length);
+    reminderService.updateReminderSources(scheduledNotes, tasks);
+  }, [scheduledNotes, tasks]);
+
+  const finishAudioCapture = useCallback(async (): Promise<audioService.RecordedAudio | null> => {
+    const pendingCapture = audioCaptureRef.current;
+    audioCaptureRef.current = null;
+    const capture = await pendingCapture;
+    return capture ? capture.stop() : null;
+  }, []);
 
   const analyzeAndSaveNote = useCallback(async (text: string) => {
     if (!text.trim() || isProcessingRef.current) {
@@ -216,20 +386,42 @@ const App: React.FC = () => {
     setError(null);
     
     try {
-      const result = await processTranscript(text);
-      const newNote = await notesService.saveNote(result);
+      const finalResults = finalResultsRef.current;
+      finalResultsRef.current = [];
+      const recording = await finishAudioCapture();
+      const source: notesService.NoteSource = { rawTranscript: text };
+      if (recording) {
+        try {
+          source.audioPath = await audioService.saveNoteAudio(recording.blob);
+          source.transcriptSegments = audioService.toTranscriptSegments(finalResults, recording.startedAt);
+        } catch (e) {
+          // The transcript is still worth keeping without its recording
+          console.error("Failed to save note audio", e);
+        }
+      }
+      let newNote: ProcessedNoteWithId;
+      try {
+        const result = await processTranscript(text);
+        newNote = await notesService.saveNote(result, source);
+      } catch (e) {
+        // Keep the dictation and let the processing queue retry the AI step later
+        console.error("AI processing failed, queueing the transcript.", e);
+        newNote = await notesService.saveUnprocessedNote(text, source);
+        processingQueue.enqueueNote(newNote.id);
+      }
       setNotes(prevNotes => [newNote, ...prevNotes]);
+      setScheduledNotes(current => notesService.withScheduledNote(current, newNote));
       setSelectedNoteId(newNote.id);
       setView('noteDetail');
     } catch (e) {
       console.error(e);
-      setError('Failed to analyze note. The AI service may be unavailable. Please try again.');
+      setError('Failed to save your note. Please try again.');
     } finally {
       setIsLoading(false);
       setTranscript('');
       isProcessingRef.current = false;
     }
-  }, []);
+  }, [finishAudioCapture]);
   
   useEffect(() => {
     if (!SpeechRecognition) {
@@ -249,6 +441,13 @@ const App: React.FC = () => {
         .map(result => result.transcript)
         .join('');
       setTranscript(currentTranscript);
+
+      // Results finalize in order; timestamp each one as it does so the
+      // transcript can be lined up with the recording later.
+      const finalResults = finalResultsRef.current;
+      for (let i = finalResults.length; i < event.results.length && event.results[i].isFinal; i++) {
+        finalResults.push({ text: event.results[i][0].transcript, finalizedAt: performance.now() });
+      }
     };
 
     recognition.onerror = (event: SpeechRecognitionErrorEvent) => {
@@ -267,6 +466,9 @@ const App: React.FC = () => {
         const trimmed = currentTranscript.trim();
         if (trimmed) {
           analyzeAndSaveNote(trimmed);
+        } else {
+          // Nothing was said, so the recording is discarded
+          finishAudioCapture();
         }
         // Return empty string to clear the transcript and prevent double submission
         // if onend fires multiple times or components re-render.
@@ -283,7 +485,7 @@ const App: React.FC = () => {
         recognitionRef.current = null;
       }
     };
-  }, [analyzeAndSaveNote]);
+  }, [analyzeAndSaveNote, finishAudioCapture]);
 
   const handleToggleRecording = () => {
     if (isRecording) {
@@ -291,10 +493,15 @@ const App: React.FC = () => {
     } else {
       setTranscript('');
       setError(null);
+      finalResultsRef.current = [];
       try {
          setView('home');
          recognitionRef.current?.start();
          setIsRecording(true);
+         audioCaptureRef.current = audioService.startAudioCapture().catch(e => {
+           console.warn("Audio capture unavailable, saving transcript only.", e);
+           return null;
+         });
       } catch(e) {
         if (e instanceof DOMException && e.name === 'InvalidStateError') {
           console.error("SpeechRecognition is already active.");
@@ -305,7 +512,7 @@ const App: React.FC = () => {
     }
   };
 
-  const handleNavigate = (targetView: 'home' | 'notesList' | 'askAI') => {
+  const handleNavigate = (targetView: 'home' | 'agenda' | 'board' | 'notesList' | 'askAI') => {
       setError(null);
       setSelectedNoteId(null);
       if (isRecording) {
@@ -321,6 +528,31 @@ const App: React.FC = () => {
       setView('noteDetail');
   }
 
+  const handleLoadMoreNotes = useCallback(async () => {
+      if (!notesCursor) return;
+      const generation = notesGenerationRef.current;
+      const page = await notesService.getNotes(notesCursor);
+      // The list was reloaded from the start meanwhile, so this page no longer follows it
+      if (generation !== notesGenerationRef.current) return;
+      loadedNoteCountRef.current += notesService.NOTES_PAGE_SIZE;
+      setNotes(currentNotes => notesService.mergeNoteLists(currentNotes, page.notes));
+      setNotesCursor(page.nextCursor);
+  }, [notesCursor]);
+
+  // Keep notes fetched outside the loaded pages, e.g. by search, so they can be opened
+  const handleNotesFound = useCallback((foundNotes: ProcessedNoteWithId[]) => {
+      setNotes(currentNotes => {
+          const knownIds = new Set(currentNotes.map(n => n.id));
+          return foundNotes.some(n => !knownIds.has(n.id)) ? notesService.mergeNoteLists(currentNotes, foundNotes) : currentNotes;
+      });
+  }, []);
+
+  useEffect(() => {
+    // Notes opened from the calendar, agenda or a reminder may be on pages not loaded yet
+    if (!selectedNoteId || notes.some(n => n.id === selectedNoteId)) return;
+    notesService.getNotesByIds([selectedNoteId]).then(handleNotesFound);
+  }, [selectedNoteId, notes, handleNotesFound]);
+
   const handleEditNote = (id: string) => {
     setSelectedNoteId(id);
     setView('editNote');
@@ -355,20 +587,34 @@ const App: React.FC = () => {
     setLoadingMessage("Refining your note...");
     setError(null);
     try {
-        const processedData: ProcessedNote = await processTranscript(content);
+        // The editor works on the raw transcript, so refinement always starts from the user's own words
+        let processedData: ProcessedNote | null = null;
+        try {
+            processedData = await processTranscript(content);
+        } catch (e) {
+            console.error("AI processing failed, queueing the note.", e);
+        }
         let savedNote: ProcessedNoteWithId;
         if (id) {
-            savedNote = await notesService.updateNote(id, processedData);
-            setNotes(notes => notes.map(n => n.id === id ? savedNote : n));
+            savedNote = processedData
+                ? await notesService.updateNote(id, processedData, content)
+                : await notesService.markNoteUnprocessed(id, content);
+            applySavedNote(savedNote);
         } else {
-            savedNote = await notesService.saveNote(processedData);
+            savedNote = processedData
+                ? await notesService.saveNote(processedData, { rawTranscript: content })
+                : await notesService.saveUnprocessedNote(content);
             setNotes(prevNotes => [savedNote, ...prevNotes]);
+            setScheduledNotes(current => notesService.withScheduledNote(current, savedNote));
+        }
+        if (!processedData) {
+            processingQueue.enqueueNote(savedNote.id);
         }
         setSelectedNoteId(savedNote.id);
         setView('noteDetail');
     } catch (e) {
         console.error(e);
-        setError('Failed to save and analyze note. Please try again.');
+        setError('Failed to save note. Please try again.');
     } finally {
         setIsLoading(false);
     }
@@ -377,8 +623,9 @@ const App: React.FC = () => {
   const handleDeleteNote = async (id: string) => {
       try {
           await notesService.deleteNote(id);
-          const updatedNotes = notes.filter(n => n.id !== id);
-          setNotes(updatedNotes);
+          searchService.removeFromIndex([id]);
+          setNotes(currentNotes => currentNotes.filter(n => n.id !== id));
+          setScheduledNotes(current => current.filter(n => n.id !== id));
           setView('notesList');
           setSelectedNoteId(null);
       } catch (e) {
@@ -387,38 +634,240 @@ const App: React.FC = () => {
       }
   }
 
-  const handleToggleActionItem = async (noteId: string, itemIndex: number) => {
-    const note = notes.find(n => n.id === noteId);
+  const handleToggleActionItem = async (noteId: string, itemId: string, occurrenceDate?: string) => {
+    const note = scheduledNotes.find(n => n.id === noteId);
     if (!note) return;
 
     try {
-        const updatedNote = await notesService.toggleActionItemCompletion(note, itemIndex);
+        const updatedNote = await notesService.toggleActionItemCompletion(note, itemId, occurrenceDate);
         if (updatedNote) {
-            setNotes(currentNotes =>
-                currentNotes.map(n => n.id === noteId ? updatedNote : n)
-            );
+            applySavedNote(updatedNote);
         }
     } catch(e) {
         console.error("Error toggling item", e);
     }
   };
 
-  const handleUpdateActionItemDate = async (noteId: string, itemIndex: number, newDate: string) => {
+  const handleToggleTask = async (taskId: string, occurrenceDate?: string) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task) return;
+
+    const updatedTask = await tasksService.toggleTaskCompletion(task, occurrenceDate);
+    if (updatedTask) {
+        setTasks(currentTasks =>
+            currentTasks.map(t => t.id === taskId ? updatedTask : t)
+        );
+    }
+  };
+
+  // Calendar and reminder entries can be note action items or standalone tasks.
+  // Their dueDate is the day shown, i.e. the occurrence of a recurring item.
+  const handleToggleScheduledItem = (entry: TodaysActionItem) => {
+    if (entry.source === 'task') {
+        handleToggleTask(entry.itemId, entry.item.dueDate);
+    } else if (entry.noteId) {
+        handleToggleActionItem(entry.noteId, entry.itemId, entry.item.dueDate);
+    }
+  };
+
+  const handleToggleSubtask = async (noteId: string, itemId: string, subtaskId: string, occurrenceDate?: string) => {
+    const note = scheduledNotes.find(n => n.id === noteId);
+    if (!note) return;
+
+    const updatedNote = await notesService.toggleActionItemSubtask(note, itemId, subtaskId, occurrenceDate);
+    if (updatedNote) {
+        applySavedNote(updatedNote);
+    }
+  };
+
+  // Subtasks ticked off in today's list or the calendar popover, for the occurrence shown
+  const handleToggleScheduledSubtask = async (entry: TodaysActionItem, subtaskId: string) => {
+    if (entry.source === 'note') {
+        if (entry.noteId) await handleToggleSubtask(entry.noteId, entry.itemId, subtaskId, entry.item.dueDate);
+        return;
+    }
+
+    const task = tasks.find(t => t.id === entry.itemId);
+    if (!task) return;
+    const updatedTask = await tasksService.toggleTaskSubtask(task, subtaskId, entry.item.dueDate);
+    if (updatedTask) {
+        setTasks(currentTasks => currentTasks.map(t => t.id === updatedTask.id ? updatedTask : t));
+    }
+  };
+
+  const handleUpdateSubtasks = async (noteId: string, itemId: string, subtasks: Subtask[]) => {
+    const note = scheduledNotes.find(n => n.id === noteId);
+    if (!note) return;
+
+    const updatedNote = await notesService.updateActionItemSubtasks(note, itemId, subtasks);
+    if (updatedNote) {
+        applySavedNote(updatedNote);
+    } else {
+        setError("Failed to save subtasks.");
+    }
+  };
+
+  const handleSuggestSubtasks = async (noteId: string, itemId: string): Promise<string[]> => {
     const note = notes.find(n => n.id === noteId);
+    const item = note?.actionItems.find(i => i.id === itemId);
+    if (!note || !item) return [];
+    return suggestSubtasks(item.text, note.refinedNote);
+  };
+
+  const handleUpdateActionItemDate = async (noteId: string, itemId: string, newDate: string) => {
+    const note = scheduledNotes.find(n => n.id === noteId);
     if (!note) return;
 
     try {
-        const updatedNote = await notesService.updateActionItemDate(note, itemIndex, newDate);
+        const updatedNote = await notesService.updateActionItemDate(note, itemId, newDate);
         if (updatedNote) {
-            setNotes(currentNotes =>
-                currentNotes.map(n => n.id === noteId ? updatedNote : n)
-            );
+            applySavedNote(updatedNote);
         }
     } catch (e) {
         console.error("Error updating date", e);
     }
   };
 
+  // Drag and drop in the calendar. The item moves on screen straight away and
+  // goes back if saving fails. newTime is omitted to keep the time, null for all-day.
+  const handleMoveScheduledItem = async (entry: TodaysActionItem, newDate: string, newTime?: string | null) => {
+    const moveItem = <T extends ActionItem>(item: T): T => ({
+        ...item,
+        dueDate: newDate,
+        ...(newTime !== undefined && { time: newTime ?? undefined }),
+    });
+    // A failed move puts back only the date fields, so edits made meanwhile are kept
+    const restoreItem = <T extends ActionItem>(item: T, original: ActionItem): T => ({
+        ...item,
+        dueDate: original.dueDate,
+        time: original.time,
+        dueDateOverridden: original.dueDateOverridden,
+    });
+
+    if (entry.source === 'task') {
+        const task = tasks.find(t => t.id === entry.itemId);
+        if (!task) return;
+        setTasks(currentTasks => currentTasks.map(t => t.id === task.id ? moveItem(t) : t));
+
+        const updatedTask = await tasksService.updateTaskDate(task, newDate, newTime);
+        if (updatedTask) {
+            setTasks(currentTasks => currentTasks.map(t => t.id === task.id ? updatedTask : t));
+        } else {
+            setTasks(currentTasks => currentTasks.map(t => t.id === task.id ? restoreItem(t, task) : t));
+            setError("Failed to move the task.");
+        }
+    } else {
+        const note = scheduledNotes.find(n => n.id === entry.noteId);
+        const original = note?.actionItems.find(item => item.id === entry.itemId);
+        if (!note || !original) return;
+        const moveInNote = (n: ScheduledNote): ScheduledNote => ({
+            ...n,
+            actionItems: n.actionItems.map(item => item.id === entry.itemId ? { ...moveItem(item), dueDateOverridden: true } : item),
+        });
+        setScheduledNotes(current => current.map(n => n.id === note.id ? moveInNote(n) : n));
+
+        const updatedNote = await notesService.updateActionItemDate(note, entry.itemId, newDate, newTime);
+        if (updatedNote) {
+            applySavedNote(updatedNote);
+        } else {
+            setScheduledNotes(current => current.map(n => n.id === note.id ? {
+                ...n,
+                actionItems: n.actionItems.map(item => item.id === entry.itemId ? restoreItem(item, original) : item),
+            } : n));
+            setError("Failed to move the task.");
+        }
+    }
+  };
+
+  const mergeUpdatedItems = (updatedNotes: ProcessedNoteWithId[], updatedTasks: Task[]) => {
+    const tasksById = new Map(updatedTasks.map(t => [t.id, t]));
+    updatedNotes.forEach(applySavedNote);
+    setTasks(currentTasks => currentTasks.map(t => tasksById.get(t.id) ?? t));
+  };
+
+  // Bulk actions from the agenda; entries are dated to the occurrence shown
+  const handleCompleteEntries = async (entries: TodaysActionItem[]) => {
+    try {
+        const updatedNotes = await notesService.completeActionItems(
+            entries.filter(e => e.source === 'note' && e.noteId)
+                .map(e => ({ noteId: e.noteId!, itemId: e.itemId, occurrenceDate: e.item.dueDate }))
+        );
+        const updatedTasks = await tasksService.completeTasks(
+            entries.filter(e => e.source === 'task').map(e => ({ taskId: e.itemId, occurrenceDate: e.item.dueDate }))
+        );
+        mergeUpdatedItems(updatedNotes, updatedTasks);
+    } catch (e) {
+        console.error("Error completing tasks", e);
+        setError("Failed to complete the selected tasks.");
+    }
+  };
+
+  const handleRescheduleEntries = async (entries: TodaysActionItem[], newDueDate: string) => {
+    try {
+        const updatedNotes = await notesService.rescheduleActionItems(
+            entries.filter(e => e.source === 'note' && e.noteId)
+                .map(e => ({ noteId: e.noteId!, itemId: e.itemId, occurrenceDate: e.item.dueDate })),
+            newDueDate
+        );
+        const updatedTasks = await tasksService.rescheduleTasks(
+            entries.filter(e => e.source === 'task').map(e => e.itemId),
+            newDueDate
+        );
+        mergeUpdatedItems(updatedNotes, updatedTasks);
+    } catch (e) {
+        console.error("Error rescheduling tasks", e);
+        setError("Failed to reschedule the selected tasks.");
+    }
+  };
+
+  const handleUpdateActionItemDetails = async (noteId: string, itemId: string, details: ActionItemDetails) => {
+    const note = scheduledNotes.find(n => n.id === noteId);
+    if (!note) return;
+
+    const updatedNote = await notesService.updateActionItemDetails(note, itemId, details);
+    if (updatedNote) {
+        applySavedNote(updatedNote);
+    } else {
+        setError("Failed to update the task.");
+    }
+  };
+
+  // Priority, tag and status changes from the board
+  const handleUpdateEntryDetails = async (entry: TodaysActionItem, details: ActionItemDetails) => {
+    if (entry.source === 'note') {
+        if (entry.noteId) await handleUpdateActionItemDetails(entry.noteId, entry.itemId, details);
+        return;
+    }
+
+    const task = tasks.find(t => t.id === entry.itemId);
+    if (!task) return;
+    const updatedTask = await tasksService.updateTaskDetails(task, details);
+    if (updatedTask) {
+        setTasks(currentTasks => currentTasks.map(t => t.id === updatedTask.id ? updatedTask : t));
+    } else {
+        setError("Failed to update the task.");
+    }
+  };
+
+  const handleUpdateActionItemRecurrence = async (noteId: string, itemId: string, recurrence: string | undefined) => {
+    const note = scheduledNotes.find(n => n.id === noteId);
+    if (!note) return;
+
+    const updatedNote = await notesService.updateActionItemRecurrence(note, itemId, recurrence);
+    if (updatedNote) {
+        applySavedNote(updatedNote);
+    }
+  };
+
+  const handleDismissActionItemChanges = async (noteId: string) => {
+    try {
+        const updatedNote = await notesService.clearActionItemChanges(noteId);
+        applySavedNote(updatedNote);
+    } catch (e) {
+        console.error("Error dismissing action item changes", e);
+    }
+  };
+
   const handleDateSelect = (date: Date, target: HTMLElement) => {
       setDatePopover({ date, target });
   };
@@ -447,14 +896,11 @@ const App: React.FC = () => {
   const handleSaveManualTask = async (task: ManualTaskPayload) => {
     if (!selectedDateForTask) return;
 
-    const year = selectedDateForTask.getFullYear();
-    const month = (selectedDateForTask.getMonth() + 1).toString().padStart(2, '0');
-    const day = selectedDateForTask.getDate().toString().padStart(2, '0');
-    const dueDate = `${year}-${month}-${day}`;
+    const dueDate = toLocalDateString(selectedDateForTask);
 
     try {
-        const newNote = await notesService.saveManualTaskAsNote({ ...task, dueDate });
-        setNotes(prevNotes => [newNote, ...prevNotes].sort((a,b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()));
+        const newTask = await tasksService.createTask({ ...task, dueDate });
+        setTasks(prevTasks => [newTask, ...prevTasks]);
         handleCloseAddTaskModal();
     } catch (e) {
         console.error("Failed to save task", e);
@@ -462,32 +908,85 @@ const App: React.FC = () => {
     }
   };
   
-  const toYYYYMMDD = (d: Date) => {
-      const year = d.getFullYear();
-      const month = (d.getMonth() + 1).toString().padStart(2, '0');
-      const day = d.getDate().toString().padStart(2, '0');
-      return `${year}-${month}-${day}`;
+  const handleEditTask = (taskId: string) => {
+    setDatePopover(null);
+    setEditingTaskId(taskId);
+  };
+
+  const handleCloseEditTask = useCallback(() => setEditingTaskId(null), []);
+
+  const handleSaveTaskEdits = async (task: Task, edits: TaskEdits) => {
+    let updatedTask = await tasksService.editTask(task, { text: edits.text, time: edits.time, recurrence: edits.recurrence });
+    if (updatedTask && JSON.stringify(edits.subtasks) !== JSON.stringify(task.subtasks ?? [])) {
+        updatedTask = await tasksService.updateTaskSubtasks(updatedTask, edits.subtasks);
+    }
+    if (!updatedTask) {
+        setError("Failed to save the task.");
+        return;
+    }
+    const savedTask = updatedTask;
+    setTasks(currentTasks => currentTasks.map(t => t.id === task.id ? savedTask : t));
+    setEditingTaskId(null);
+  };
+
+  const handleDeleteTask = async (task: Task) => {
+    try {
+        await tasksService.deleteTask(task.id);
+        setTasks(currentTasks => currentTasks.filter(t => t.id !== task.id));
+        setEditingTaskId(null);
+    } catch (e) {
+        console.error("Failed to delete task", e);
+        setError("Failed to delete the task.");
+    }
+  };
+
+  const handleQuickAddTask = async (task: tasksService.NewTask): Promise<boolean> => {
+    try {
+        const newTask = await tasksService.createTask(task);
+        setTasks(prevTasks => [newTask, ...prevTasks]);
+        return true;
+    } catch (e) {
+        console.error("Failed to save task", e);
+        setError("Failed to save task.");
+        return false;
+    }
+  };
+
+  const handleImportCalendarFile = async (file: File) => {
+    try {
+        const candidates = calendarImportService.previewICalendarImport(await file.text(), tasks);
+        setCalendarImport({ fileName: file.name, candidates });
+    } catch (e: any) {
+        console.error("Failed to read calendar file", e);
+        setError(e.message || "Failed to read calendar file.");
+    }
+  };
+
+  const handleCloseCalendarImport = useCallback(() => setCalendarImport(null), []);
+
+  const handleConfirmCalendarImport = async (candidates: ImportCandidate[]) => {
+    const importedUids = new Set<string>();
+    try {
+        await calendarImportService.importCalendarItems(candidates, task => {
+            if (task.sourceUid) importedUids.add(task.sourceUid);
+            setTasks(prevTasks => [task, ...prevTasks]);
+        });
+    } catch (e) {
+        // Entries saved before the failure count as duplicates if the user tries again
+        setCalendarImport(current => current && {
+            ...current,
+            candidates: current.candidates.map(c => importedUids.has(c.uid) ? { ...c, duplicate: true } : c),
+        });
+        throw e;
+    }
+    setCalendarImport(null);
   };
 
   const popoverTasks = useMemo(() => {
       if (!datePopover) return [];
-      const selectedDateStr = toYYYYMMDD(datePopover.date);
-      const tasks: TodaysActionItem[] = [];
-      notes.forEach(note => {
-          if (note.actionItems) {
-              note.actionItems.forEach((item, index) => {
-                  if (item.dueDate === selectedDateStr) {
-                      tasks.push({
-                          noteId: note.id,
-                          itemIndex: index,
-                          item: item,
-                          noteTitle: note.refinedNote.split('\n')[0].replace(/^#\s*/, '') || 'Untitled Note',
-                      });
-                  }
-              });
-          }
-      });
-      tasks.sort((a, b) => {
+      const selectedDateStr = toLocalDateString(datePopover.date);
+      const scheduled = notesService.getScheduledItems(scheduledNotes, tasks, selectedDateStr);
+      scheduled.sort((a, b) => {
           const aTime = a.item.time;
           const bTime = b.item.time;
           if (a.item.completed !== b.item.completed) {
@@ -498,13 +997,20 @@ const App: React.FC = () => {
           if (bTime) return 1;
           return 0;
       });
-      return tasks;
-  }, [datePopover, notes]);
+      return scheduled;
+  }, [datePopover, scheduledNotes, tasks]);
 
   const handleStartNewChat = () => {
     setView('notesList');
   }
 
+  const handleStartAllNotesChat = () => {
+    const newSession = chatService.createChatSession([], 'all');
+    setPendingChatSession(newSession);
+    setSelectedChatId(newSession.id);
+    setView('chatDetail');
+  }
+
   const handleAskAboutSelection = () => {
     if (listSelectedNoteIds.length === 0) return;
     const newSession = chatService.createChatSession(listSelectedNoteIds);
@@ -518,6 +1024,11 @@ const App: React.FC = () => {
     setPendingChatSession(null);
     setSelectedChatId(chatId);
     setView('chatDetail');
+    // The chat's notes may be on pages of the list that are not loaded yet
+    const missingIds = (chatSessions.find(s => s.id === chatId)?.noteIds ?? []).filter(id => !notes.some(n => n.id === id));
+    if (missingIds.length > 0) {
+        notesService.getNotesByIds(missingIds).then(handleNotesFound);
+    }
   }
   
   const handleDeleteChat = async (chatId: string) => {
@@ -563,11 +1074,22 @@ const App: React.FC = () => {
       setUser(updatedUser);
   };
 
-  const handleSignOut = async () => {
+  const handleSignOut = async (discardUnsynced = false) => {
+    setUnsyncedSignOutCount(0);
+    // Signing out drops the offline copy; never lose changes that have not reached the server without asking
+    const unsynced = await syncService.clearLocalData(discardUnsynced);
+    if (unsynced > 0 && !discardUnsynced) {
+        setUnsyncedSignOutCount(unsynced);
+        return;
+    }
     await authService.signOut();
     setUser(null);
+    notesGenerationRef.current++;
     setNotes([]);
+    setNotesCursor(null);
+    setScheduledNotes([]);
     setChatSessions([]);
+    setTasks([]);
     setView('home');
   };
 
@@ -592,6 +1114,13 @@ const App: React.FC = () => {
             onEdit={handleEditNote} 
             onToggleActionItem={handleToggleActionItem}
             onUpdateActionItemDate={handleUpdateActionItemDate}
+            onUpdateActionItemRecurrence={handleUpdateActionItemRecurrence}
+            onUpdateActionItemDetails={handleUpdateActionItemDetails}
+            onToggleSubtask={handleToggleSubtask}
+            onUpdateSubtasks={handleUpdateSubtasks}
+            onSuggestSubtasks={handleSuggestSubtasks}
+            onRetryProcessing={processingQueue.retryNow}
+            onDismissActionItemChanges={handleDismissActionItemChanges}
           />
         ) : (
           <div className="text-center text-gray-400">Note not found. It may have been deleted.</div>
@@ -606,10 +1135,34 @@ const App: React.FC = () => {
                 isSaving={isLoading}
             />
         );
+      case 'agenda':
+        return (
+          <AgendaView
+            notes={scheduledNotes}
+            tasks={tasks}
+            onComplete={handleCompleteEntries}
+            onReschedule={handleRescheduleEntries}
+            onNavigateToNote={handleSelectNote}
+            onEditTask={handleEditTask}
+          />
+        );
+      case 'board':
+        return (
+          <KanbanBoard
+            notes={scheduledNotes}
+            tasks={tasks}
+            onUpdateDetails={handleUpdateEntryDetails}
+            onNavigateToNote={handleSelectNote}
+            onEditTask={handleEditTask}
+          />
+        );
       case 'notesList':
         return (
            <NotesList 
-              notes={notes}
+              notes={listedNotes}
+              hasMoreNotes={notesCursor !== null}
+              onLoadMore={handleLoadMoreNotes}
+              onNotesFound={handleNotesFound}
               onSelectNote={handleSelectNote}
               onCreateNew={handleCreateNewNote}
               selectedNoteIds={listSelectedNoteIds}
@@ -623,6 +1176,7 @@ const App: React.FC = () => {
           onSelectChat={handleSelectChat}
           onDeleteChat={handleDeleteChat}
           onNewChat={handleStartNewChat}
+          onNewAllNotesChat={handleStartAllNotesChat}
         />;
       case 'chatDetail':
         const sessionToView = (pendingChatSession && pendingChatSession.id === selectedChatId)
@@ -635,6 +1189,7 @@ const App: React.FC = () => {
                 session={sessionToView}
                 allNotes={notes}
                 onSessionUpdate={handleUpdateChatSession}
+                onNotesFound={handleNotesFound}
             />
         ) : (
              <div className="text-center text-gray-400">No chat selected.</div>
@@ -647,9 +1202,14 @@ const App: React.FC = () => {
                 <Clock />
                 <TodaysActions
                     items={todaysActions}
-                    onToggle={handleToggleActionItem}
+                    overdueCount={overdueCount}
+                    onToggle={handleToggleScheduledItem}
+                    onToggleSubtask={handleToggleScheduledSubtask}
                     onNavigateToNote={handleSelectNote}
+                    onEditTask={handleEditTask}
+                    onShowAgenda={() => handleNavigate('agenda')}
                 />
+                <ReminderSettings />
             </div>
 
             <div className="space-y-8">
@@ -710,7 +1270,7 @@ const App: React.FC = () => {
                   </div>
                 </div>
 
-                <Calendar onDateSelect={handleDateSelect} notes={notes} />
+                <Calendar onDateSelect={handleDateSelect} notes={scheduledNotes} tasks={tasks} onImportFile={handleImportCalendarFile} onMoveItem={handleMoveScheduledItem} />
             </div>
           </div>
         );
@@ -736,7 +1296,10 @@ const App: React.FC = () => {
 
   return (
     <div className="min-h-screen bg-gray-900 text-gray-100 flex flex-col items-center p-4 sm:p-6 md:p-8 font-sans">
-      <Header view={view} onNavigate={handleNavigate} user={user} onSignOut={handleSignOut} onUserUpdate={handleUserUpdate} />
+      <Header view={view} onNavigate={handleNavigate} user={user} onSignOut={() => handleSignOut()} onUserUpdate={handleUserUpdate} />
+      {(view === 'home' || view === 'agenda' || view === 'board' || view === 'notesList') && (
+        <QuickAddBar onAdd={handleQuickAddTask} />
+      )}
       <main className="flex flex-col items-center justify-center flex-grow w-full max-w-5xl">
         <div className={containerClasses}>
           {renderViewContent()}
@@ -747,8 +1310,10 @@ const App: React.FC = () => {
         tasks={popoverTasks}
         onClose={handleClosePopover}
         onAddTask={handleAddTaskFromPopover}
-        onToggleTask={handleToggleActionItem}
+        onToggleTask={handleToggleScheduledItem}
+        onToggleSubtask={handleToggleScheduledSubtask}
         onNavigateToNote={handleNavigateFromPopover}
+        onEditTask={handleEditTask}
       />
       <AddTaskModal 
         isOpen={isAddTaskModalOpen}
@@ -756,6 +1321,27 @@ const App: React.FC = () => {
         onSave={handleSaveManualTask}
         selectedDate={selectedDateForTask}
       />
+      <EditTaskModal
+        task={tasks.find(t => t.id === editingTaskId) ?? null}
+        onClose={handleCloseEditTask}
+        onSave={handleSaveTaskEdits}
+        onDelete={handleDeleteTask}
+        onSuggestSubtasks={suggestSubtasks}
+      />
+      <ImportCalendarModal
+        preview={calendarImport}
+        onClose={handleCloseCalendarImport}
+        onConfirm={handleConfirmCalendarImport}
+      />
+      <ConfirmationModal
+        isOpen={unsyncedSignOutCount > 0}
+        onClose={() => setUnsyncedSignOutCount(0)}
+        onConfirm={() => handleSignOut(true)}
+        title="Unsynced Changes"
+        message={`${unsyncedSignOutCount} ${unsyncedSignOutCount === 1 ? 'change has' : 'changes have'} not been uploaded yet, probably because you are offline. Signing out now deletes ${unsyncedSignOutCount === 1 ? 'it' : 'them'} for good. Reconnect and try again to keep ${unsyncedSignOutCount === 1 ? 'it' : 'them'}.`}
+        confirmText="Sign Out Anyway"
+        cancelText="Stay Signed In"
+      />
       <footer className="text-center text-gray-600 p-4 text-sm mt-8">
           <p>Powered by AI. Your notes are processed securely.</p>
       </footer>
@@ -1,9 +1,12 @@
 
 import React, { useState, useEffect } from 'react';
+import RecurrencePicker from './RecurrencePicker';
+import { toLocalDateString } from '../services/dates';
 
 export interface ManualTaskPayload {
     text: string;
     time?: string;
+    recurrence?: string;
 }
 
 interface AddTaskModalProps {
@@ -17,6 +20,7 @@ const AddTaskModal: React.FC<AddTaskModalProps> = ({ isOpen, onClose, onSave, se
     const [text, setText] = useState('');
     const [addTime, setAddTime] = useState(false);
     const [time, setTime] = useState('09:00');
+    const [recurrence, setRecurrence] = useState<string | undefined>(undefined);
 
     useEffect(() => {
         if (!isOpen) {
@@ -24,6 +28,7 @@ const AddTaskModal: React.FC<AddTaskModalProps> = ({ isOpen, onClose, onSave, se
             setText('');
             setAddTime(false);
             setTime('09:00');
+            setRecurrence(undefined);
         }
     }, [isOpen]);
 
@@ -49,9 +54,11 @@ const AddTaskModal: React.FC<AddTaskModalProps> = ({ isOpen, onClose, onSave, se
 
     const handleSave = () => {
         if (!text.trim()) return;
-        onSave({ text, time: addTime ? time : undefined });
+        onSave({ text, time: addTime ? time : undefined, recurrence });
     };
 
+    const anchor = toLocalDateString(selectedDate);
+
     const dateString = selectedDate.toLocaleDateString(undefined, {
         weekday: 'long', year: 'numeric', month: 'long', day: 'numeric'
     });
@@ -101,6 +108,9 @@ const AddTaskModal: React.FC<AddTaskModalProps> = ({ isOpen, onClose, onSave, se
                              />
                         )}
                     </div>
+                    <div className="bg-gray-900/50 p-3 rounded-lg">
+                        <RecurrencePicker value={recurrence} anchor={anchor} onChange={setRecurrence} />
+                    </div>
                 </div>
 
                 <div className="flex justify-end gap-3 mt-6">
@@ -0,0 +1,226 @@
+import React, { useMemo, useState } from 'react';
+import type { Task } from '../types';
+import * as notesService from '../services/notesService';
+import { toLocalDateString } from '../services/dates';
+import type { ScheduledNote, TodaysActionItem } from '../services/notesService';
+import PriorityBadge from './PriorityBadge';
+
+interface AgendaViewProps {
+    notes: ScheduledNote[];
+    tasks: Task[];
+    onComplete: (entries: TodaysActionItem[]) => Promise<void>;
+    onReschedule: (entries: TodaysActionItem[], newDueDate: string) => Promise<void>;
+    onNavigateToNote: (noteId: string) => void;
+    onEditTask: (taskId: string) => void;
+}
+
+interface AgendaSection {
+    id: string;
+    title: string;
+    emptyText: string;
+    accent: string;
+    entries: TodaysActionItem[];
+}
+
+const addDays = (date: Date, days: number): Date => {
+    const result = new Date(date);
+    result.setDate(result.getDate() + days);
+    return result;
+};
+
+const entryKey = (entry: TodaysActionItem) => `${entry.source}:${entry.itemId}:${entry.item.dueDate}`;
+
+const formatDay = (dueDate: string): string =>
+    new Date(`${dueDate}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+
+const AgendaView: React.FC<AgendaViewProps> = ({ notes, tasks, onComplete, onReschedule, onNavigateToNote, onEditTask }) => {
+    const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+    const [rescheduleDate, setRescheduleDate] = useState(toLocalDateString(new Date()));
+    const [isWorking, setIsWorking] = useState(false);
+
+    const sections = useMemo((): AgendaSection[] => {
+        const now = new Date();
+        const today = toLocalDateString(now);
+        const yesterday = toLocalDateString(addDays(now, -1));
+        const tomorrow = toLocalDateString(addDays(now, 1));
+        const weekEnd = toLocalDateString(addDays(now, 6));
+
+        return [
+            {
+                id: 'overdue',
+                title: 'Overdue',
+                emptyText: 'Nothing overdue.',
+                accent: 'text-red-300',
+                entries: notesService.queryActionItems(notes, tasks, { to: yesterday }).sort(notesService.compareByDueDate),
+            },
+            {
+                id: 'today',
+                title: 'Today',
+                emptyText: 'Nothing due today.',
+                accent: 'text-yellow-300',
+                entries: notesService.queryActionItems(notes, tasks, { from: today, to: today }).sort(notesService.compareByDueDate),
+            },
+            {
+                id: 'week',
+                title: 'This Week',
+                emptyText: 'Nothing due in the next few days.',
+                accent: 'text-blue-300',
+                entries: notesService.queryActionItems(notes, tasks, { from: tomorrow, to: weekEnd }).sort(notesService.compareByDueDate),
+            },
+            {
+                id: 'someday',
+                title: 'Someday',
+                emptyText: 'No undated tasks.',
+                accent: 'text-gray-300',
+                entries: notesService.queryActionItems(notes, tasks, { undated: true }),
+            },
+        ];
+    }, [notes, tasks]);
+
+    const allEntries = sections.flatMap(section => section.entries);
+    // Drop selections whose entry has since moved or been completed
+    const selectedEntries = allEntries.filter(entry => selectedKeys.has(entryKey(entry)));
+
+    const toggleSelected = (keys: string[], selected: boolean) => {
+        setSelectedKeys(current => {
+            const next = new Set(current);
+            keys.forEach(key => (selected ? next.add(key) : next.delete(key)));
+            return next;
+        });
+    };
+
+    const runAction = async (action: () => Promise<void>, clearSelection: boolean) => {
+        setIsWorking(true);
+        try {
+            await action();
+            if (clearSelection) setSelectedKeys(new Set());
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    return (
+        <div className="w-full space-y-6 animate-fade-in">
+            <div className="flex flex-wrap items-center justify-between gap-3 bg-gray-900/50 p-4 rounded-lg">
+                <h2 className="text-2xl font-bold text-gray-100">Agenda</h2>
+                {selectedEntries.length > 0 ? (
+                    <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-sm text-gray-400">{selectedEntries.length} selected</span>
+                        <button
+                            onClick={() => runAction(() => onComplete(selectedEntries), true)}
+                            disabled={isWorking}
+                            className="px-3 py-1.5 text-sm font-medium rounded-md bg-green-700 text-white hover:bg-green-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Mark complete
+                        </button>
+                        <input
+                            type="date"
+                            value={rescheduleDate}
+                            onChange={(e) => setRescheduleDate(e.target.value)}
+                            className="bg-gray-700 text-gray-300 text-sm rounded border border-gray-600 focus:ring-1 focus:ring-blue-500 focus:outline-none p-1.5"
+                            aria-label="New due date"
+                        />
+                        <button
+                            onClick={() => runAction(() => onReschedule(selectedEntries, rescheduleDate), true)}
+                            disabled={isWorking || !rescheduleDate}
+                            className="px-3 py-1.5 text-sm font-medium rounded-md bg-blue-600 text-white hover:bg-blue-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Reschedule
+                        </button>
+                        <button
+                            onClick={() => setSelectedKeys(new Set())}
+                            disabled={isWorking}
+                            className="px-3 py-1.5 text-sm font-medium rounded-md bg-gray-600 text-gray-100 hover:bg-gray-500 transition-colors"
+                        >
+                            Clear
+                        </button>
+                    </div>
+                ) : (
+                    <span className="text-sm text-gray-500">Select tasks to complete or reschedule them together.</span>
+                )}
+            </div>
+
+            {sections.map(section => {
+                const sectionKeys = section.entries.map(entryKey);
+                const allSelected = sectionKeys.length > 0 && sectionKeys.every(key => selectedKeys.has(key));
+                return (
+                    <section key={section.id} className="bg-gray-900/50 p-4 rounded-lg" aria-labelledby={`agenda-${section.id}`}>
+                        <div className="flex items-center justify-between border-b border-gray-700 pb-2 mb-3">
+                            <h3 id={`agenda-${section.id}`} className={`text-lg font-semibold ${section.accent}`}>
+                                {section.title}
+                                <span className="ml-2 text-sm font-normal text-gray-500">{section.entries.length}</span>
+                            </h3>
+                            {section.entries.length > 0 && (
+                                <label className="flex items-center gap-2 text-sm text-gray-400 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={allSelected}
+                                        onChange={(e) => toggleSelected(sectionKeys, e.target.checked)}
+                                        className="h-4 w-4 rounded border-gray-500 text-blue-500 bg-gray-700 focus:ring-blue-600 focus:ring-offset-gray-900"
+                                    />
+                                    Select all
+                                </label>
+                            )}
+                        </div>
+                        {section.entries.length === 0 ? (
+                            <p className="text-sm text-gray-500 py-2">{section.emptyText}</p>
+                        ) : (
+                            <ul className="space-y-2">
+                                {section.entries.map(entry => {
+                                    const key = entryKey(entry);
+                                    const { source, itemId, item, noteId, noteTitle } = entry;
+                                    return (
+                                        <li key={key} className="flex items-start gap-3 bg-gray-800/50 p-3 rounded-md">
+                                            <input
+                                                id={`agenda-${key}`}
+                                                type="checkbox"
+                                                checked={selectedKeys.has(key)}
+                                                onChange={(e) => toggleSelected([key], e.target.checked)}
+                                                className="h-5 w-5 rounded border-gray-500 text-blue-500 bg-gray-700 focus:ring-blue-600 focus:ring-offset-gray-800 mt-0.5 cursor-pointer flex-shrink-0"
+                                                aria-label={`Select ${item.text}`}
+                                            />
+                                            <div className="flex-grow min-w-0">
+                                                <label htmlFor={`agenda-${key}`} className="text-gray-200 cursor-pointer break-words">
+                                                    {item.text}
+                                                </label>
+                                                <p className="text-xs text-gray-400 mt-1 flex items-center flex-wrap gap-x-2">
+                                                    <PriorityBadge priority={item.priority} />
+                                                    {item.dueDate && <span>{formatDay(item.dueDate)}</span>}
+                                                    {item.time && (
+                                                        <span className="px-1.5 py-0.5 bg-blue-900/70 text-blue-300 rounded font-mono">{item.time}</span>
+                                                    )}
+                                                    {noteId ? (
+                                                        <button onClick={() => onNavigateToNote(noteId)} className="text-blue-400 hover:underline focus:outline-none">
+                                                            from "{noteTitle}"
+                                                        </button>
+                                                    ) : (
+                                                        <span>Task</span>
+                                                    )}
+                                                    {source === 'task' && (
+                                                        <button onClick={() => onEditTask(itemId)} className="text-blue-400 hover:underline focus:outline-none">
+                                                            Edit
+                                                        </button>
+                                                    )}
+                                                </p>
+                                            </div>
+                                            <button
+                                                onClick={() => runAction(() => onComplete([entry]), false)}
+                                                disabled={isWorking}
+                                                className="px-2 py-1 text-xs font-medium rounded-md bg-gray-700 text-gray-200 hover:bg-green-700 transition-colors flex-shrink-0 disabled:opacity-50"
+                                                aria-label={`Complete ${item.text}`}
+                                            >
+                                                Done
+                                            </button>
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        )}
+                    </section>
+                );
+            })}
+        </div>
+    );
+};
+
+export default AgendaView;
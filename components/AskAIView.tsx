@@ -1,18 +1,44 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import type { ChatSession } from '../types';
+import { searchChatSessions } from '../services/chatService';
+import type { ChatSearchMatch } from '../services/chatService';
+import { passageFromSnippet } from '../services/searchService';
 import ConfirmationModal from './ConfirmationModal';
+import HighlightedPassage from './HighlightedPassage';
+
+// Wait for a pause in typing before asking the server
+const SEARCH_DEBOUNCE_MS = 300;
 
 interface AskAIViewProps {
     sessions: ChatSession[];
     onSelectChat: (id: string) => void;
     onDeleteChat: (id: string) => void;
     onNewChat: () => void;
+    onNewAllNotesChat: () => void;
 }
 
-const AskAIView: React.FC<AskAIViewProps> = ({ sessions, onSelectChat, onDeleteChat, onNewChat }) => {
+const AskAIView: React.FC<AskAIViewProps> = ({ sessions, onSelectChat, onDeleteChat, onNewChat, onNewAllNotesChat }) => {
     const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
     const [chatToDelete, setChatToDelete] = useState<ChatSession | null>(null);
     const [searchQuery, setSearchQuery] = useState('');
+    // Ranked matches from the server; null until they arrive or while offline
+    const [serverMatches, setServerMatches] = useState<ChatSearchMatch[] | null>(null);
+
+    useEffect(() => {
+        const query = searchQuery.trim();
+        setServerMatches(null);
+        if (!query) return;
+
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            const matches = await searchChatSessions(query);
+            if (!cancelled) setServerMatches(matches);
+        }, SEARCH_DEBOUNCE_MS);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [searchQuery]);
 
     const handleDeleteRequest = (session: ChatSession) => {
         setChatToDelete(session);
@@ -31,7 +57,8 @@ const AskAIView: React.FC<AskAIViewProps> = ({ sessions, onSelectChat, onDeleteC
         handleCloseModal();
     };
 
-    const filteredSessions = sessions.filter(session => {
+    // Until the server answers, or when it cannot, match the loaded chats by substring
+    const localMatches = () => sessions.filter(session => {
         if (!searchQuery.trim()) return true;
         const query = searchQuery.toLowerCase();
 
@@ -50,18 +77,34 @@ const AskAIView: React.FC<AskAIViewProps> = ({ sessions, onSelectChat, onDeleteC
             return false;
         });
     });
+    // Prefer the local copy of each chat, which may have messages not uploaded yet
+    const sessionsById = new Map(sessions.map(session => [session.id, session]));
+    const filteredSessions = serverMatches
+        ? serverMatches.map(match => sessionsById.get(match.session.id) ?? match.session)
+        : localMatches();
+    const snippets = new Map(serverMatches?.filter(match => match.snippet).map(match => [match.session.id, passageFromSnippet(match.snippet, match.rank)]));
 
     return (
         <>
             <div className="w-full text-left animate-fade-in space-y-4">
                 <div className="flex justify-between items-center border-b border-gray-700 pb-3 mb-4">
                     <h2 className="text-2xl font-bold text-gray-100">AI Chat History</h2>
-                    <button
-                        onClick={onNewChat}
-                        className="px-4 py-2 text-sm font-medium rounded-lg bg-blue-600 text-white hover:bg-blue-500 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-gray-900"
-                    >
-                        + New Chat
-                    </button>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={onNewChat}
+                            className="px-4 py-2 text-sm font-medium rounded-lg bg-gray-700 text-gray-200 hover:bg-gray-600 transition-colors focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 focus:ring-offset-gray-900"
+                            title="Pick the notes to ask about"
+                        >
+                            + Chat About Notes
+                        </button>
+                        <button
+                            onClick={onNewAllNotesChat}
+                            className="px-4 py-2 text-sm font-medium rounded-lg bg-blue-600 text-white hover:bg-blue-500 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-gray-900"
+                            title="Ask anything; the relevant parts of your notes are found for each question"
+                        >
+                            + Ask All Notes
+                        </button>
+                    </div>
                 </div>
 
                 {/* Search Bar: Only show if there are sessions to search through */}
@@ -109,8 +152,13 @@ const AskAIView: React.FC<AskAIViewProps> = ({ sessions, onSelectChat, onDeleteC
                                         {session.title || 'Untitled Chat'}
                                     </p>
                                     <p className="text-sm text-gray-400 mt-1">
-                                        {new Date(session.createdAt).toLocaleString()} • {session.noteIds.length} note{session.noteIds.length > 1 ? 's' : ''}
+                                        {new Date(session.createdAt).toLocaleString()} • {session.scope === 'all' ? 'All notes' : `${session.noteIds.length} note${session.noteIds.length > 1 ? 's' : ''}`}
                                     </p>
+                                    {snippets.has(session.id) && (
+                                        <p className="text-sm text-gray-300 mt-2 break-words border-l-2 border-blue-500/50 pl-2">
+                                            <HighlightedPassage passage={snippets.get(session.id)!} />
+                                        </p>
+                                    )}
                                 </button>
                                 <button
                                     onClick={(e) => {
@@ -0,0 +1,107 @@
+import React, { useState, useRef, useEffect } from 'react';
+import type { TranscriptSegment } from '../types';
+import { getNoteAudioUrl } from '../services/audioService';
+
+interface AudioTranscriptPlayerProps {
+    audioPath: string;
+    segments?: TranscriptSegment[];
+}
+
+const formatTimestamp = (seconds: number): string => {
+    const minutes = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60).toString().padStart(2, '0');
+    return `${minutes}:${secs}`;
+};
+
+const AudioTranscriptPlayer: React.FC<AudioTranscriptPlayerProps> = ({ audioPath, segments = [] }) => {
+    const [currentTime, setCurrentTime] = useState(0);
+    const [audioUrl, setAudioUrl] = useState<string | null>(null);
+    const [loadError, setLoadError] = useState(false);
+    const audioRef = useRef<HTMLAudioElement>(null);
+    const activeSegmentRef = useRef<HTMLSpanElement>(null);
+
+    const activeIndex = segments.findIndex(segment => currentTime >= segment.start && currentTime < segment.end);
+
+    useEffect(() => {
+        // Recordings are private; play them through a signed link, or a local
+        // one while the recording waits to be uploaded
+        let cancelled = false;
+        let localUrl: string | null = null;
+        setAudioUrl(null);
+        setLoadError(false);
+        getNoteAudioUrl(audioPath)
+            .then(url => {
+                if (url.startsWith('blob:')) localUrl = url;
+                if (cancelled) {
+                    if (localUrl) URL.revokeObjectURL(localUrl);
+                } else {
+                    setAudioUrl(url);
+                }
+            })
+            .catch(e => {
+                console.error("Failed to load the recording", e);
+                if (!cancelled) setLoadError(true);
+            });
+        return () => {
+            cancelled = true;
+            if (localUrl) URL.revokeObjectURL(localUrl);
+        };
+    }, [audioPath]);
+
+    useEffect(() => {
+        // Keep the highlighted segment visible while the transcript scrolls
+        activeSegmentRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }, [activeIndex]);
+
+    const handleSeek = (segment: TranscriptSegment) => {
+        const audio = audioRef.current;
+        if (!audio) return;
+        audio.currentTime = segment.start;
+        setCurrentTime(segment.start);
+        audio.play().catch(e => console.error("Playback failed", e));
+    };
+
+    return (
+        <div className="mb-4 bg-gray-800/60 p-4 rounded-lg">
+            {loadError && (
+                <p className="text-sm text-red-400 mb-2">The recording could not be loaded. Check your connection and try again.</p>
+            )}
+            <audio
+                ref={audioRef}
+                controls
+                preload="metadata"
+                src={audioUrl ?? undefined}
+                onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+                onSeeked={(e) => setCurrentTime(e.currentTarget.currentTime)}
+                className="w-full"
+                aria-label="Original recording"
+            />
+            {segments.length > 0 && (
+                <div className="mt-3 max-h-40 overflow-y-auto pr-2">
+                    <h4 className="text-xs font-semibold text-gray-400 mb-2">ORIGINAL TRANSCRIPT</h4>
+                    <p className="text-sm leading-relaxed">
+                        {segments.map((segment, index) => {
+                            const isActive = index === activeIndex;
+                            return (
+                                <span
+                                    key={index}
+                                    ref={isActive ? activeSegmentRef : undefined}
+                                    onClick={() => handleSeek(segment)}
+                                    onKeyDown={(e) => (e.key === 'Enter' || e.key === ' ') && handleSeek(segment)}
+                                    role="button"
+                                    tabIndex={0}
+                                    title={`Play from ${formatTimestamp(segment.start)}`}
+                                    className={`cursor-pointer rounded px-0.5 transition-colors ${isActive ? 'bg-blue-600/60 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+                                >
+                                    {segment.text}{' '}
+                                </span>
+                            );
+                        })}
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default AudioTranscriptPlayer;
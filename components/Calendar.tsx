@@ -1,56 +1,129 @@
 
-import React, { useState, useMemo } from 'react';
-import type { ProcessedNoteWithId } from '../types';
+import React, { useState, useMemo, useRef } from 'react';
+import type { Task } from '../types';
+import * as notesService from '../services/notesService';
+import { downloadICalendar } from '../services/calendarFeedService';
+import { toLocalDateString } from '../services/dates';
+import type { ScheduledNote, TodaysActionItem } from '../services/notesService';
+import CalendarTimeline from './CalendarTimeline';
+import CalendarEntryChip, { calendarEntryKey } from './CalendarEntryChip';
 
 interface CalendarProps {
     onDateSelect: (date: Date, target: HTMLElement) => void;
-    notes: ProcessedNoteWithId[];
+    notes: ScheduledNote[];
+    tasks: Task[];
+    onImportFile: (file: File) => void;
+    // newTime is left out when only the day changes, and null to make the item all-day
+    onMoveItem: (entry: TodaysActionItem, newDueDate: string, newTime?: string | null) => void;
 }
 
-const Calendar: React.FC<CalendarProps> = ({ onDateSelect, notes }) => {
+type CalendarView = 'month' | 'week' | 'day';
+
+const VIEW_OPTIONS: { id: CalendarView; label: string }[] = [
+    { id: 'month', label: 'Month' },
+    { id: 'week', label: 'Week' },
+    { id: 'day', label: 'Day' },
+];
+
+// Titles shown in a month cell before it collapses the rest into "+N more"
+const MAX_CELL_ENTRIES = 2;
+
+const isICalendarFile = (file: File) => /\.ics$/i.test(file.name) || file.type === 'text/calendar';
+
+const Calendar: React.FC<CalendarProps> = ({ onDateSelect, notes, tasks, onImportFile, onMoveItem }) => {
     const [date, setDate] = useState(new Date());
+    const [view, setView] = useState<CalendarView>('month');
+    const [isDraggingFile, setIsDraggingFile] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [draggedEntry, setDraggedEntry] = useState<TodaysActionItem | null>(null);
+    const [dropDate, setDropDate] = useState<string | null>(null);
 
-    const taskDates = useMemo(() => {
-        const dates = new Set<string>();
-        if (!notes) return dates;
+    // Entries for each day of the month on screen, with recurring items expanded
+    const entriesByDate = useMemo(() => {
+        const entries = new Map<string, TodaysActionItem[]>();
+        if (view !== 'month' || !notes) return entries;
 
-        notes.forEach(note => {
-            note.actionItems?.forEach(item => {
-                if (item.dueDate) {
-                    dates.add(item.dueDate);
-                }
-            });
-        });
-        return dates;
-    }, [notes]);
+        const daysInMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+        for (let day = 1; day <= daysInMonth; day++) {
+            const dateStr = toLocalDateString(new Date(date.getFullYear(), date.getMonth(), day));
+            const scheduled = notesService.getScheduledItems(notes, tasks, dateStr);
+            if (scheduled.length > 0) entries.set(dateStr, scheduled.sort(notesService.compareByDueDate));
+        }
+        return entries;
+    }, [notes, tasks, date, view]);
+
+    // The days shown by the week and day timelines; weeks start on Sunday like the month grid
+    const timelineDays = useMemo(() => {
+        if (view === 'day') return [toLocalDateString(date)];
+        const sunday = new Date(date.getFullYear(), date.getMonth(), date.getDate() - date.getDay());
+        return Array.from({ length: 7 }, (_, i) =>
+            toLocalDateString(new Date(sunday.getFullYear(), sunday.getMonth(), sunday.getDate() + i))
+        );
+    }, [view, date]);
 
-    const changeMonth = (offset: number) => {
+    const changePeriod = (offset: number) => {
         setDate(prevDate => {
             const newDate = new Date(prevDate);
-            newDate.setDate(1); // Set to first day to avoid month overflow issues
-            newDate.setMonth(newDate.getMonth() + offset);
+            if (view === 'month') {
+                newDate.setDate(1); // Set to first day to avoid month overflow issues
+                newDate.setMonth(newDate.getMonth() + offset);
+            } else {
+                newDate.setDate(newDate.getDate() + offset * (view === 'week' ? 7 : 1));
+            }
             return newDate;
         });
     };
 
+    const getTitle = (): string => {
+        if (view === 'month') {
+            return new Intl.DateTimeFormat('en-US', { month: 'long', year: 'numeric' }).format(date);
+        }
+        if (view === 'day') {
+            return new Intl.DateTimeFormat('en-US', { weekday: 'long', month: 'long', day: 'numeric' }).format(date);
+        }
+        const first = new Date(`${timelineDays[0]}T00:00:00`);
+        const last = new Date(`${timelineDays[6]}T00:00:00`);
+        return new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', year: 'numeric' }).formatRange(first, last);
+    };
+
+    const renderViewSwitcher = () => (
+        <div className="flex justify-center mb-3">
+            <div className="inline-flex bg-gray-800 rounded-lg p-0.5" role="group" aria-label="Calendar view">
+                {VIEW_OPTIONS.map(option => (
+                    <button
+                        key={option.id}
+                        onClick={() => setView(option.id)}
+                        aria-pressed={view === option.id}
+                        className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${view === option.id ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-gray-200'}`}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+
     const renderHeader = () => {
-        const monthFormat = new Intl.DateTimeFormat('en-US', { month: 'long', year: 'numeric' });
         return (
             <div className="flex justify-between items-center mb-4">
                 <button 
-                    onClick={() => changeMonth(-1)}
+                    onClick={() => changePeriod(-1)}
                     className="p-2 rounded-full hover:bg-gray-700 transition-colors"
-                    aria-label="Previous month"
+                    aria-label={`Previous ${view}`}
                 >
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 19l-7-7 7-7" /></svg>
                 </button>
-                <h3 className="text-lg font-semibold text-gray-200">
-                    {monthFormat.format(date)}
-                </h3>
+                <button
+                    onClick={() => setDate(new Date())}
+                    className="text-lg font-semibold text-gray-200 hover:text-white transition-colors"
+                    title="Go to today"
+                >
+                    {getTitle()}
+                </button>
                 <button 
-                    onClick={() => changeMonth(1)}
+                    onClick={() => changePeriod(1)}
                     className="p-2 rounded-full hover:bg-gray-700 transition-colors"
-                    aria-label="Next month"
+                    aria-label={`Next ${view}`}
                 >
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 5l7 7-7 7" /></svg>
                 </button>
@@ -62,11 +135,30 @@ const Calendar: React.FC<CalendarProps> = ({ onDateSelect, notes }) => {
         const weekdays = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
         return (
             <div className="grid grid-cols-7 gap-2 text-center text-xs text-gray-500 font-semibold">
-                {weekdays.map(day => <div key={day}>{day}</div>)}
+                {weekdays.map((day, i) => <div key={i}>{day}</div>)}
             </div>
         );
     };
 
+    const handleCellDragOver = (e: React.DragEvent, dateStr: string, isPastDate: boolean) => {
+        if (!draggedEntry || isPastDate) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'move';
+        setDropDate(dateStr);
+    };
+
+    const handleCellDrop = (e: React.DragEvent, dateStr: string, isPastDate: boolean) => {
+        if (!draggedEntry) return;
+        // Keep the drop from reaching the .ics import handler
+        e.preventDefault();
+        e.stopPropagation();
+        setDropDate(null);
+        if (!isPastDate && draggedEntry.item.dueDate !== dateStr) {
+            onMoveItem(draggedEntry, dateStr);
+        }
+        setDraggedEntry(null);
+    };
+
     const renderCells = () => {
         const month = date.getMonth();
         const year = date.getFullYear();
@@ -75,7 +167,7 @@ const Calendar: React.FC<CalendarProps> = ({ onDateSelect, notes }) => {
         
         const cells = [];
         for (let i = 0; i < firstDayOfMonth; i++) {
-            cells.push(<div key={`blank-${i}`} className="p-2"></div>);
+            cells.push(<div key={`blank-${i}`}></div>);
         }
 
         const today = new Date();
@@ -83,51 +175,135 @@ const Calendar: React.FC<CalendarProps> = ({ onDateSelect, notes }) => {
 
         for (let day = 1; day <= daysInMonth; day++) {
             const fullDate = new Date(year, month, day);
-            const dateStr = `${year}-${(month + 1).toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
-            const hasTasks = taskDates.has(dateStr);
+            const dateStr = toLocalDateString(fullDate);
+            const entries = entriesByDate.get(dateStr) ?? [];
             const isPastDate = fullDate.getTime() < today.getTime();
             const isToday = fullDate.getTime() === today.getTime();
 
             const cellClasses = `
-                h-9 w-9 flex items-center justify-center rounded-full relative
+                min-h-[4.5rem] min-w-0 p-1 rounded-md flex flex-col
                 transition-all duration-200 text-sm 
                 ${isPastDate 
                     ? 'text-gray-600 cursor-not-allowed' 
-                    : 'cursor-pointer hover:bg-blue-800/60 hover:text-white'}
-                ${isToday 
-                    ? 'bg-blue-600 text-white font-bold ring-2 ring-blue-400' 
-                    : isPastDate ? '' : 'text-gray-300'}
+                    : 'cursor-pointer hover:bg-gray-800 text-gray-300'}
+                ${dropDate === dateStr ? 'bg-blue-900/40 ring-1 ring-blue-500' : ''}
             `;
             cells.push(
                 <div key={day} 
                      className={cellClasses}
                      onClick={(e) => !isPastDate && onDateSelect(fullDate, e.currentTarget)}
+                     onDragOver={(e) => handleCellDragOver(e, dateStr, isPastDate)}
+                     onDragLeave={() => setDropDate(current => (current === dateStr ? null : current))}
+                     onDrop={(e) => handleCellDrop(e, dateStr, isPastDate)}
                      tabIndex={isPastDate ? -1 : 0}
                      onKeyDown={(e) => !isPastDate && (e.key === 'Enter' || e.key === ' ') && onDateSelect(fullDate, e.currentTarget)}
                      role="button"
                      aria-disabled={isPastDate}
-                     aria-label={isPastDate ? `Date ${day} cannot be selected` : `Select date ${day}`}
+                     aria-label={`${isPastDate ? `Date ${day} cannot be selected` : `Select date ${day}`}${entries.length > 0 ? `, ${entries.length} ${entries.length === 1 ? 'task' : 'tasks'}` : ''}`}
                 >
-                    {day}
-                    {hasTasks && <div className="absolute bottom-1 h-1.5 w-1.5 bg-yellow-400 rounded-full"></div>}
+                    <span className={`self-center h-6 w-6 flex items-center justify-center rounded-full mb-0.5 flex-shrink-0 ${isToday ? 'bg-blue-600 text-white font-bold ring-2 ring-blue-400' : ''}`}>
+                        {day}
+                    </span>
+                    {entries.slice(0, MAX_CELL_ENTRIES).map(entry => (
+                        <CalendarEntryChip
+                            key={calendarEntryKey(entry)}
+                            entry={entry}
+                            draggable={notesService.canReschedule(notes, tasks, entry)}
+                            isDragging={!!draggedEntry && calendarEntryKey(draggedEntry) === calendarEntryKey(entry)}
+                            onDragStart={setDraggedEntry}
+                            onDragEnd={() => {
+                                setDraggedEntry(null);
+                                setDropDate(null);
+                            }}
+                        />
+                    ))}
+                    {entries.length > MAX_CELL_ENTRIES && (
+                        <span className="text-[10px] text-gray-400 px-1">+{entries.length - MAX_CELL_ENTRIES} more</span>
+                    )}
                 </div>
             );
         }
 
         return (
-            <div className="grid grid-cols-7 gap-y-2 place-items-center mt-3">
+            <div className="grid grid-cols-7 gap-1 mt-3">
                 {cells}
             </div>
         );
     };
 
+    const handleDragOver = (e: React.DragEvent) => {
+        if (!e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'copy';
+        setIsDraggingFile(true);
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDraggingFile(false);
+        const file = Array.from(e.dataTransfer.files).find(isICalendarFile);
+        if (file) onImportFile(file);
+    };
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        // Reset so choosing the same file again still fires onChange
+        e.target.value = '';
+        if (file) onImportFile(file);
+    };
+
     return (
-        <div className="bg-gray-900/50 p-4 rounded-lg shadow-lg">
+        <div
+            className={`bg-gray-900/50 p-4 rounded-lg shadow-lg transition-shadow ${isDraggingFile ? 'ring-2 ring-blue-500' : ''}`}
+            onDragOver={handleDragOver}
+            onDragLeave={(e) => !e.currentTarget.contains(e.relatedTarget as Node) && setIsDraggingFile(false)}
+            onDrop={handleDrop}
+        >
             <h3 className="text-xl font-semibold text-gray-100 mb-3 text-center">Calendar</h3>
+            {renderViewSwitcher()}
             {renderHeader()}
-            {renderDaysOfWeek()}
-            {renderCells()}
-             <p className="text-xs text-gray-500 text-center mt-3">Click a date to see tasks or add a new one.</p>
+            {view === 'month' ? (
+                <>
+                    {renderDaysOfWeek()}
+                    {renderCells()}
+                </>
+            ) : (
+                <CalendarTimeline
+                    days={timelineDays}
+                    notes={notes}
+                    tasks={tasks}
+                    onDateSelect={onDateSelect}
+                    onMoveItem={onMoveItem}
+                />
+            )}
+             <p className="text-xs text-gray-500 text-center mt-3">
+                {isDraggingFile
+                    ? 'Drop the .ics file to import it.'
+                    : view === 'month' ? 'Click a date to see tasks or add a new one. Drag a task to move it.' : 'Drag a task to another time, or to the all-day lane.'}
+             </p>
+             <div className="flex justify-center gap-4 mt-2">
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="text-xs text-blue-400 hover:underline focus:outline-none"
+                >
+                    Import .ics
+                </button>
+                <button
+                    onClick={() => downloadICalendar(notes, tasks)}
+                    className="text-xs text-blue-400 hover:underline focus:outline-none"
+                >
+                    Export to calendar app (.ics)
+                </button>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".ics,text/calendar"
+                    onChange={handleFileChange}
+                    className="hidden"
+                    aria-hidden="true"
+                    tabIndex={-1}
+                />
+             </div>
         </div>
     );
 };
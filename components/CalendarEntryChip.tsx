@@ -0,0 +1,38 @@
+import React from 'react';
+import type { TodaysActionItem } from '../services/notesService';
+
+interface CalendarEntryChipProps {
+    entry: TodaysActionItem;
+    draggable: boolean;
+    isDragging: boolean;
+    onDragStart: (entry: TodaysActionItem) => void;
+    onDragEnd: () => void;
+}
+
+export const calendarEntryKey = (entry: TodaysActionItem) => `${entry.source}:${entry.itemId}:${entry.item.dueDate}`;
+
+// A truncated task title in a calendar cell; the full text is in the tooltip
+const CalendarEntryChip: React.FC<CalendarEntryChipProps> = ({ entry, draggable, isDragging, onDragStart, onDragEnd }) => {
+    const { item, source, noteTitle } = entry;
+    return (
+        <div
+            draggable={draggable}
+            onDragStart={(e) => {
+                e.stopPropagation();
+                e.dataTransfer.effectAllowed = 'move';
+                e.dataTransfer.setData('text/plain', item.text);
+                onDragStart(entry);
+            }}
+            onDragEnd={onDragEnd}
+            title={`${item.time ? `${item.time} ` : ''}${item.text}${noteTitle ? ` (from "${noteTitle}")` : ''}`}
+            className={`text-xs text-left px-1.5 py-0.5 rounded truncate mb-0.5
+                ${item.completed ? 'bg-gray-700/60 text-gray-500 line-through' : source === 'task' ? 'bg-blue-800/70 text-blue-100' : 'bg-yellow-800/60 text-yellow-100'}
+                ${draggable ? 'cursor-grab active:cursor-grabbing' : 'cursor-default'}
+                ${isDragging ? 'opacity-50' : ''}`}
+        >
+            {item.text}
+        </div>
+    );
+};
+
+export default CalendarEntryChip;
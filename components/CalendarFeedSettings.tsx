@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import * as calendarFeedService from '../services/calendarFeedService';
+
+const CalendarFeedSettings: React.FC = () => {
+    const [feedUrl, setFeedUrl] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [copied, setCopied] = useState(false);
+
+    useEffect(() => {
+        calendarFeedService.getCalendarFeedUrl()
+            .then(setFeedUrl)
+            .catch(e => setError(e.message || "Failed to load the calendar feed."))
+            .finally(() => setIsLoading(false));
+    }, []);
+
+    const run = async (action: () => Promise<void>) => {
+        setIsLoading(true);
+        setError(null);
+        setCopied(false);
+        try {
+            await action();
+        } catch (e: any) {
+            console.error(e);
+            setError(e.message || "Failed to update the calendar feed.");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleCopy = async () => {
+        if (!feedUrl) return;
+        await navigator.clipboard.writeText(feedUrl);
+        setCopied(true);
+    };
+
+    return (
+        <div>
+            <h3 className="text-lg font-medium text-blue-300 mb-2">Calendar Subscription</h3>
+            <div className="bg-gray-900/50 p-4 rounded-lg space-y-3">
+                <p className="text-gray-400 text-sm">
+                    Subscribe from Google Calendar, Apple Calendar or Outlook to see your dated tasks there. Anyone with the link can read them.
+                </p>
+                {error && <p className="text-sm text-red-300">{error}</p>}
+                {feedUrl ? (
+                    <>
+                        <input
+                            type="text"
+                            readOnly
+                            value={feedUrl}
+                            onFocus={(e) => e.target.select()}
+                            className="w-full p-2 bg-gray-800 border border-gray-600 rounded text-gray-300 text-xs font-mono focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                            aria-label="Calendar feed URL"
+                        />
+                        <div className="flex flex-wrap gap-2">
+                            <button
+                                onClick={handleCopy}
+                                className="px-3 py-1.5 text-sm font-medium rounded-md bg-blue-600 text-white hover:bg-blue-500 transition-colors"
+                            >
+                                {copied ? 'Copied!' : 'Copy link'}
+                            </button>
+                            <a
+                                href={calendarFeedService.toWebcalUrl(feedUrl)}
+                                className="px-3 py-1.5 text-sm font-medium rounded-md bg-gray-700 text-gray-200 hover:bg-gray-600 transition-colors"
+                            >
+                                Open in calendar app
+                            </a>
+                            <button
+                                onClick={() => run(async () => setFeedUrl(await calendarFeedService.resetCalendarFeed()))}
+                                disabled={isLoading}
+                                className="px-3 py-1.5 text-sm font-medium rounded-md bg-gray-700 text-gray-200 hover:bg-gray-600 transition-colors disabled:opacity-50"
+                            >
+                                Reset link
+                            </button>
+                            <button
+                                onClick={() => run(async () => {
+                                    await calendarFeedService.disableCalendarFeed();
+                                    setFeedUrl(null);
+                                })}
+                                disabled={isLoading}
+                                className="px-3 py-1.5 text-sm font-medium rounded-md bg-red-900/50 text-red-300 hover:bg-red-900 transition-colors disabled:opacity-50"
+                            >
+                                Turn off
+                            </button>
+                        </div>
+                    </>
+                ) : (
+                    <button
+                        onClick={() => run(async () => setFeedUrl(await calendarFeedService.resetCalendarFeed()))}
+                        disabled={isLoading}
+                        className="px-4 py-2 rounded-md text-sm font-medium bg-blue-600 text-white hover:bg-blue-500 transition-colors disabled:opacity-50"
+                    >
+                        {isLoading ? 'Loading...' : 'Create subscription link'}
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default CalendarFeedSettings;
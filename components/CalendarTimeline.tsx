@@ -0,0 +1,132 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { Task } from '../types';
+import * as notesService from '../services/notesService';
+import type { ScheduledNote, TodaysActionItem } from '../services/notesService';
+import { toLocalDateString } from '../services/dates';
+import CalendarEntryChip, { calendarEntryKey } from './CalendarEntryChip';
+
+interface CalendarTimelineProps {
+    days: string[]; // YYYY-MM-DD, one column each
+    notes: ScheduledNote[];
+    tasks: Task[];
+    onDateSelect: (date: Date, target: HTMLElement) => void;
+    onMoveItem: (entry: TodaysActionItem, newDueDate: string, newTime: string | null) => void;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const HOUR_ROW_PX = 48;
+// Open scrolled to the start of a working day
+const INITIAL_SCROLL_HOUR = 8;
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+const CalendarTimeline: React.FC<CalendarTimelineProps> = ({ days, notes, tasks, onDateSelect, onMoveItem }) => {
+    const [draggedEntry, setDraggedEntry] = useState<TodaysActionItem | null>(null);
+    const [dropTarget, setDropTarget] = useState<string | null>(null);
+    const scrollRef = useRef<HTMLDivElement>(null);
+    const today = toLocalDateString(new Date());
+
+    useEffect(() => {
+        if (scrollRef.current) scrollRef.current.scrollTop = INITIAL_SCROLL_HOUR * HOUR_ROW_PX;
+    }, []);
+
+    const entriesByDay = useMemo(() => new Map(days.map(day => [
+        day,
+        notesService.getScheduledItems(notes, tasks, day).sort(notesService.compareByDueDate),
+    ])), [days, notes, tasks]);
+
+    const dropProps = (day: string, hour: number | null) => {
+        const target = `${day}:${hour ?? 'all-day'}`;
+        return {
+            onDragOver: (e: React.DragEvent) => {
+                if (!draggedEntry || day < today) return;
+                e.preventDefault();
+                e.dataTransfer.dropEffect = 'move';
+                setDropTarget(target);
+            },
+            onDragLeave: () => setDropTarget(current => (current === target ? null : current)),
+            onDrop: (e: React.DragEvent) => {
+                e.preventDefault();
+                setDropTarget(null);
+                if (!draggedEntry || day < today) return;
+                const { item } = draggedEntry;
+                // Keep the minutes when moving between hours
+                const newTime = hour === null ? null : `${pad(hour)}:${item.time?.slice(3) ?? '00'}`;
+                if (item.dueDate !== day || (item.time ?? null) !== newTime) {
+                    onMoveItem(draggedEntry, day, newTime);
+                }
+                setDraggedEntry(null);
+            },
+            className: dropTarget === target ? 'bg-blue-900/40' : '',
+        };
+    };
+
+    const renderEntry = (entry: TodaysActionItem) => (
+        <CalendarEntryChip
+            key={calendarEntryKey(entry)}
+            entry={entry}
+            draggable={notesService.canReschedule(notes, tasks, entry)}
+            isDragging={!!draggedEntry && calendarEntryKey(draggedEntry) === calendarEntryKey(entry)}
+            onDragStart={setDraggedEntry}
+            onDragEnd={() => {
+                setDraggedEntry(null);
+                setDropTarget(null);
+            }}
+        />
+    );
+
+    const gridStyle = { gridTemplateColumns: `3rem repeat(${days.length}, minmax(0, 1fr))` };
+
+    return (
+        <div className="mt-3 text-gray-300">
+            <div className="grid border-b border-gray-700" style={gridStyle}>
+                <div />
+                {days.map(day => {
+                    const date = new Date(`${day}T00:00:00`);
+                    return (
+                        <button
+                            key={day}
+                            onClick={(e) => day >= today && onDateSelect(date, e.currentTarget)}
+                            disabled={day < today}
+                            className={`py-1 text-center text-xs rounded-t transition-colors ${day === today ? 'text-blue-300 font-bold' : day < today ? 'text-gray-600 cursor-not-allowed' : 'hover:bg-gray-800'}`}
+                            aria-label={`Select ${date.toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric' })}`}
+                        >
+                            <span className="block">{date.toLocaleDateString(undefined, { weekday: 'short' })}</span>
+                            <span className="block text-sm">{date.getDate()}</span>
+                        </button>
+                    );
+                })}
+            </div>
+
+            <div className="grid border-b border-gray-700" style={gridStyle}>
+                <div className="text-[10px] text-gray-500 pr-1 pt-1 text-right">All day</div>
+                {days.map(day => {
+                    const { className, ...handlers } = dropProps(day, null);
+                    return (
+                        <div key={day} {...handlers} className={`min-h-[2rem] p-0.5 border-l border-gray-800 ${className}`}>
+                            {entriesByDay.get(day)?.filter(entry => !entry.item.time).map(renderEntry)}
+                        </div>
+                    );
+                })}
+            </div>
+
+            <div ref={scrollRef} className="max-h-96 overflow-y-auto">
+                {HOURS.map(hour => (
+                    <div key={hour} className="grid border-b border-gray-800" style={{ ...gridStyle, minHeight: HOUR_ROW_PX }}>
+                        <div className="text-[10px] text-gray-500 pr-1 -mt-1.5 text-right">{hour === 0 ? '' : `${pad(hour)}:00`}</div>
+                        {days.map(day => {
+                            const { className, ...handlers } = dropProps(day, hour);
+                            return (
+                                <div key={day} {...handlers} className={`p-0.5 border-l border-gray-800 ${className}`}>
+                                    {entriesByDay.get(day)?.filter(entry => entry.item.time && Number(entry.item.time.slice(0, 2)) === hour).map(renderEntry)}
+                                </div>
+                            );
+                        })}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default CalendarTimeline;
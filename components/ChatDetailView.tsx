@@ -1,16 +1,23 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import type { ProcessedNoteWithId, ChatSession, ChatMessage, AskAIResponse } from '../types';
-import { continueChatStream } from '../services/geminiService';
+import { continueChatStream, continueChunkChatStream } from '../services/geminiService';
+import { retrieveChunks, estimateTokens, CHAT_CONTEXT_TOKEN_BUDGET } from '../services/searchService';
+import { mergeNoteLists, searchNotesFullText } from '../services/notesService';
+import { getNoteTitle } from '../services/noteTitle';
 import Loader from './Loader';
 
+// How many notes full-text search may add from pages of the list not loaded yet
+const SERVER_CANDIDATE_NOTES = 20;
+
 interface ChatDetailViewProps {
     session: ChatSession;
     allNotes: ProcessedNoteWithId[];
     onSessionUpdate: (session: ChatSession) => void;
+    onNotesFound: (notes: ProcessedNoteWithId[]) => void;
 }
 
-const ChatDetailView: React.FC<ChatDetailViewProps> = ({ session: initialSession, allNotes, onSessionUpdate }) => {
+const ChatDetailView: React.FC<ChatDetailViewProps> = ({ session: initialSession, allNotes, onSessionUpdate, onNotesFound }) => {
     const [session, setSession] = useState<ChatSession>(initialSession);
     const [question, setQuestion] = useState('');
     const [isStreaming, setIsStreaming] = useState(false);
@@ -23,6 +30,10 @@ const ChatDetailView: React.FC<ChatDetailViewProps> = ({ session: initialSession
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     }, [session?.messages, isStreaming]);
 
+    const getContextNotes = () => session.scope === 'all'
+        ? allNotes
+        : allNotes.filter(note => session.noteIds.includes(note.id));
+
     const handleSubmit = async () => {
         if (isStreaming || !question.trim() || !session) return;
 
@@ -46,10 +57,28 @@ const ChatDetailView: React.FC<ChatDetailViewProps> = ({ session: initialSession
         setSession(prev => ({ ...prev, messages: currentMessages }));
         setQuestion('');
         
-        const contextNotes = allNotes.filter(note => session.noteIds.includes(note.id));
+        const contextNotes = getContextNotes();
 
         try {
-            const stream = continueChatStream(contextNotes, questionToAsk, session.messages, useGoogleSearch);
+            const verbatimTokens = contextNotes.reduce((sum, note) => sum + estimateTokens(note.refinedNote), 0);
+            let stream;
+            if (session.scope === 'selected' && verbatimTokens <= CHAT_CONTEXT_TOKEN_BUDGET) {
+                stream = continueChatStream(contextNotes, questionToAsk, session.messages, useGoogleSearch);
+            } else {
+                // Too much to send whole: retrieve the passages relevant to this question.
+                // The previous question helps follow-ups like "and what about him?" find their topic.
+                const previousQuestion = [...session.messages].reverse().find(message => message.role === 'user')?.content;
+                const query = typeof previousQuestion === 'string' ? `${previousQuestion}\n${questionToAsk}` : questionToAsk;
+                // Only some notes are loaded in the app; the server finds likely ones among the rest
+                let candidates = contextNotes;
+                if (session.scope === 'all') {
+                    const found = (await searchNotesFullText(query, true, SERVER_CANDIDATE_NOTES)).map(match => match.note);
+                    onNotesFound(found);
+                    candidates = mergeNoteLists(contextNotes, found);
+                }
+                const chunks = await retrieveChunks(query, candidates);
+                stream = continueChunkChatStream(chunks, questionToAsk, session.messages, useGoogleSearch);
+            }
 
             let fullAnswer = '';
             let collectedSources: any[] = [];
@@ -134,13 +163,18 @@ const ChatDetailView: React.FC<ChatDetailViewProps> = ({ session: initialSession
         return <div className="text-center">{error || <Loader />}</div>;
     }
     
-    const contextNotes = allNotes.filter(note => session.noteIds.includes(note.id));
+    const contextNotes = getContextNotes();
+    const noteTitles = new Map(allNotes.map(note => [note.id, getNoteTitle(note.refinedNote)]));
 
     return (
         <div className="w-full h-[70vh] flex flex-col text-left animate-fade-in">
              <div className="flex-shrink-0 border-b border-gray-700 pb-4 mb-4">
                 <h2 className="text-2xl font-bold text-gray-100 truncate">{session.title}</h2>
-                <p className="text-sm text-gray-400 mt-1">Context from {contextNotes.length} note{contextNotes.length > 1 ? 's' : ''}</p>
+                <p className="text-sm text-gray-400 mt-1">
+                    {session.scope === 'all'
+                        ? 'Answers from the most relevant parts of all your notes'
+                        : `Context from ${contextNotes.length} note${contextNotes.length > 1 ? 's' : ''}`}
+                </p>
             </div>
             
             <div className="flex-grow overflow-y-auto pr-2 space-y-6">
@@ -167,6 +201,9 @@ const ChatDetailView: React.FC<ChatDetailViewProps> = ({ session: initialSession
                                                     <blockquote className="border-l-4 border-blue-500 pl-2 text-gray-300 text-sm italic">
                                                         "{source.snippet}"
                                                     </blockquote>
+                                                    {session.scope === 'all' && noteTitles.has(source.noteId) && (
+                                                        <p className="text-xs text-gray-500 mt-1 pl-3">from "{noteTitles.get(source.noteId)}"</p>
+                                                    )}
                                                 </div>
                                             ))}
                                             </div>
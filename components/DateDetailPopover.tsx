@@ -1,14 +1,17 @@
 
 import React, { useEffect, useState, useRef } from 'react';
 import type { TodaysActionItem } from '../services/notesService';
+import SubtaskList from './SubtaskList';
 
 interface DateDetailPopoverProps {
   popoverData: { date: Date; target: HTMLElement; } | null;
   tasks: TodaysActionItem[];
   onClose: () => void;
   onAddTask: () => void;
-  onToggleTask: (noteId: string, itemIndex: number) => void;
+  onToggleTask: (entry: TodaysActionItem) => void;
+  onToggleSubtask: (entry: TodaysActionItem, subtaskId: string) => void;
   onNavigateToNote: (noteId: string) => void;
+  onEditTask: (taskId: string) => void;
 }
 
 const DateDetailPopover: React.FC<DateDetailPopoverProps> = ({
@@ -17,7 +20,9 @@ const DateDetailPopover: React.FC<DateDetailPopoverProps> = ({
   onClose,
   onAddTask,
   onToggleTask,
-  onNavigateToNote
+  onToggleSubtask,
+  onNavigateToNote,
+  onEditTask
 }) => {
   const [position, setPosition] = useState({ top: 0, left: 0 });
   const popoverRef = useRef<HTMLDivElement>(null);
@@ -89,33 +94,50 @@ const DateDetailPopover: React.FC<DateDetailPopoverProps> = ({
           
           <div className="max-h-60 overflow-y-auto pr-2 space-y-2">
             {tasks.length > 0 ? (
-                tasks.map(({ noteId, itemIndex, item, noteTitle }) => (
-                    <div key={`${noteId}-${itemIndex}`} className="flex items-start text-sm bg-gray-900/50 p-2.5 rounded-md">
+                tasks.map(entry => {
+                    const { source, noteId, itemId, item, noteTitle } = entry;
+                    return (
+                    <div key={`${source}-${itemId}`} className="flex items-start text-sm bg-gray-900/50 p-2.5 rounded-md">
                         <input
-                            id={`popover-action-item-${noteId}-${itemIndex}`}
+                            id={`popover-action-item-${source}-${itemId}`}
                             type="checkbox"
                             checked={item.completed}
-                            onChange={() => onToggleTask(noteId, itemIndex)}
+                            onChange={() => onToggleTask(entry)}
                             className="h-4 w-4 rounded border-gray-500 text-blue-500 bg-gray-700 focus:ring-blue-600 focus:ring-offset-gray-800 mt-0.5 cursor-pointer flex-shrink-0"
                         />
                          <div className="ml-2.5 flex-grow">
                             <label
-                                htmlFor={`popover-action-item-${noteId}-${itemIndex}`}
+                                htmlFor={`popover-action-item-${source}-${itemId}`}
                                 className={`cursor-pointer transition-colors ${item.completed ? 'text-gray-500 line-through' : 'text-gray-200'}`}
                             >
                                 {item.text}
                             </label>
+                            {item.subtasks && (
+                                <SubtaskList
+                                    subtasks={item.subtasks}
+                                    idPrefix={`popover-action-item-${source}-${itemId}`}
+                                    onToggle={(subtaskId) => onToggleSubtask(entry, subtaskId)}
+                                />
+                            )}
                             <p className="text-xs text-gray-400 mt-1">
                                 {item.time && (
                                     <span className="mr-2 px-1 py-0.5 bg-blue-900/70 text-blue-300 rounded text-xs font-mono">{item.time}</span>
                                 )}
-                                <button onClick={() => onNavigateToNote(noteId)} className="text-blue-400 hover:underline focus:outline-none">
-                                    from "{noteTitle}"
-                                </button>
+                                {noteId && (
+                                    <button onClick={() => onNavigateToNote(noteId)} className="text-blue-400 hover:underline focus:outline-none">
+                                        from "{noteTitle}"
+                                    </button>
+                                )}
+                                {source === 'task' && (
+                                    <button onClick={() => onEditTask(itemId)} className="ml-2 text-blue-400 hover:underline focus:outline-none">
+                                        Edit
+                                    </button>
+                                )}
                             </p>
                         </div>
                     </div>
-                ))
+                    );
+                })
             ) : (
                 <p className="text-center text-gray-400 py-4 text-sm">No tasks for this day.</p>
             )}
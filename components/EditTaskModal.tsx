@@ -0,0 +1,191 @@
+import React, { useState, useEffect } from 'react';
+import type { Subtask, Task } from '../types';
+import RecurrencePicker from './RecurrencePicker';
+import SubtaskEditor from './SubtaskEditor';
+
+export interface TaskEdits {
+    text: string;
+    time?: string;
+    recurrence?: string;
+    subtasks: Subtask[];
+}
+
+interface EditTaskModalProps {
+    task: Task | null;
+    onClose: () => void;
+    onSave: (task: Task, edits: TaskEdits) => Promise<void>;
+    onDelete: (task: Task) => Promise<void>;
+    onSuggestSubtasks?: (text: string) => Promise<string[]>;
+}
+
+// Edits a standalone task: its text, time, repeat rule and subtasks, or deletes it
+const EditTaskModal: React.FC<EditTaskModalProps> = ({ task, onClose, onSave, onDelete, onSuggestSubtasks }) => {
+    const [text, setText] = useState('');
+    const [addTime, setAddTime] = useState(false);
+    const [time, setTime] = useState('09:00');
+    const [recurrence, setRecurrence] = useState<string | undefined>(undefined);
+    const [subtasks, setSubtasks] = useState<Subtask[]>([]);
+    const [confirmingDelete, setConfirmingDelete] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        // Start from the task's saved state each time a task is opened
+        setText(task?.text ?? '');
+        setAddTime(!!task?.time);
+        setTime(task?.time ?? '09:00');
+        setRecurrence(task?.recurrence);
+        setSubtasks(task?.subtasks ?? []);
+        setConfirmingDelete(false);
+    }, [task?.id]);
+
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+          if (event.key === 'Escape' && !isSaving) {
+            onClose();
+          }
+        };
+
+        if (task) {
+          document.addEventListener('keydown', handleKeyDown);
+        }
+
+        return () => {
+          document.removeEventListener('keydown', handleKeyDown);
+        };
+      }, [task, isSaving, onClose]);
+
+    if (!task) {
+        return null;
+    }
+
+    const run = async (action: () => Promise<void>) => {
+        setIsSaving(true);
+        try {
+            await action();
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleSave = () => {
+        if (!text.trim()) return;
+        run(() => onSave(task, { text: text.trim(), time: addTime ? time : undefined, recurrence, subtasks }));
+    };
+
+    const toggleSubtask = (subtaskId: string) =>
+        setSubtasks(current => current.map(subtask => subtask.id === subtaskId ? { ...subtask, completed: !subtask.completed } : subtask));
+
+    return (
+        <div
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-70 backdrop-blur-sm"
+            aria-labelledby="edit-task-title"
+            role="dialog"
+            aria-modal="true"
+            onClick={() => !isSaving && onClose()}
+        >
+            <div
+                className="bg-gray-800 rounded-lg shadow-2xl p-6 w-full max-w-md mx-4 animate-fade-in max-h-[90vh] overflow-y-auto"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <h2 id="edit-task-title" className="text-xl font-bold text-white mb-4">
+                    Edit Task
+                </h2>
+
+                <div className="space-y-4">
+                    <textarea
+                        value={text}
+                        onChange={(e) => setText(e.target.value)}
+                        placeholder="What do you need to do?"
+                        className="w-full h-24 p-3 bg-gray-900/50 rounded-lg text-gray-200 focus:ring-2 focus:ring-blue-500 focus:outline-none resize-none transition-colors"
+                        aria-label="Task description"
+                    />
+                    <div className="flex items-center justify-between bg-gray-900/50 p-3 rounded-lg">
+                        <label htmlFor="edit-task-time-checkbox" className="flex items-center cursor-pointer">
+                            <input
+                                id="edit-task-time-checkbox"
+                                type="checkbox"
+                                checked={addTime}
+                                onChange={(e) => setAddTime(e.target.checked)}
+                                className="h-5 w-5 rounded border-gray-500 text-blue-500 bg-gray-700 focus:ring-blue-600 focus:ring-offset-gray-800"
+                            />
+                            <span className="ml-3 text-gray-300">At a specific time</span>
+                        </label>
+                        {addTime && (
+                             <input
+                                type="time"
+                                value={time}
+                                onChange={(e) => setTime(e.target.value)}
+                                className="bg-gray-700 text-gray-200 rounded-md border border-gray-600 px-2 py-1 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                             />
+                        )}
+                    </div>
+                    {task.dueDate && (
+                        <div className="bg-gray-900/50 p-3 rounded-lg">
+                            <RecurrencePicker value={recurrence} anchor={task.dueDate} onChange={setRecurrence} />
+                        </div>
+                    )}
+                    <div className="bg-gray-900/50 p-3 rounded-lg">
+                        <p className="text-sm text-gray-300 mb-1">Subtasks</p>
+                        <SubtaskEditor
+                            item={{ ...task, text, subtasks }}
+                            idPrefix={`edit-task-${task.id}`}
+                            onToggle={toggleSubtask}
+                            onChange={setSubtasks}
+                            onSuggest={onSuggestSubtasks && (() => onSuggestSubtasks(text))}
+                        />
+                    </div>
+                </div>
+
+                <div className="flex items-center justify-between gap-3 mt-6">
+                    {confirmingDelete ? (
+                        <div className="flex items-center gap-2">
+                            <span className="text-sm text-red-300">Delete this task?</span>
+                            <button
+                                onClick={() => run(() => onDelete(task))}
+                                disabled={isSaving}
+                                className="px-3 py-2 text-sm font-medium rounded-md bg-red-600 text-white hover:bg-red-500 transition-colors disabled:opacity-50"
+                            >
+                                Delete
+                            </button>
+                            <button
+                                onClick={() => setConfirmingDelete(false)}
+                                disabled={isSaving}
+                                className="px-3 py-2 text-sm font-medium rounded-md bg-gray-600 text-gray-100 hover:bg-gray-500 transition-colors"
+                            >
+                                Keep
+                            </button>
+                        </div>
+                    ) : (
+                        <button
+                            onClick={() => setConfirmingDelete(true)}
+                            disabled={isSaving}
+                            className="px-3 py-2 text-sm font-medium rounded-md text-red-300 hover:bg-red-900/40 transition-colors focus:outline-none focus:ring-2 focus:ring-red-500"
+                        >
+                            Delete task
+                        </button>
+                    )}
+                    {!confirmingDelete && (
+                        <div className="flex gap-3">
+                            <button
+                                onClick={onClose}
+                                disabled={isSaving}
+                                className="px-4 py-2 text-sm font-medium rounded-md bg-gray-600 text-gray-100 hover:bg-gray-500 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-gray-400"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                onClick={handleSave}
+                                disabled={isSaving || !text.trim()}
+                                className="px-4 py-2 text-sm font-medium rounded-md bg-blue-600 text-white hover:bg-blue-500 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Save
+                            </button>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default EditTaskModal;
@@ -1,6 +1,7 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import type { ProcessedNoteWithId } from '../types';
+import { getNoteTitle } from '../services/noteTitle';
 import DownloadIcon from './icons/DownloadIcon';
 
 // Declare jsPDF in the global scope to satisfy TypeScript
@@ -30,7 +31,7 @@ const ExportButton: React.FC<ExportButtonProps> = ({ note }) => {
     }, []);
 
     const getNoteContentAsString = (): string => {
-        let content = `Title: ${note.refinedNote.split('\n')[0].replace(/^#\s*/, '') || 'Untitled Note'}\n`;
+        let content = `Title: ${getNoteTitle(note.refinedNote)}\n`;
         content += `Created At: ${new Date(note.createdAt).toLocaleString()}\n\n`;
         content += `--- NOTE CONTENT ---\n${note.refinedNote}\n\n`;
         content += `--- AI EMOTION ANALYSIS ---\nSummary: ${note.emotionAnalysis.summary}\n`;
@@ -66,7 +67,7 @@ const ExportButton: React.FC<ExportButtonProps> = ({ note }) => {
         const { jsPDF } = jspdf;
         const doc = new jsPDF();
         
-        const title = note.refinedNote.split('\n')[0].replace(/^#\s*/, '') || 'Untitled Note';
+        const title = getNoteTitle(note.refinedNote);
         const createdAt = `Created: ${new Date(note.createdAt).toLocaleString()}`;
         
         doc.setFontSize(18);
@@ -5,15 +5,15 @@ import UserIcon from './icons/UserIcon';
 import SettingsModal from './SettingsModal';
 
 interface HeaderProps {
-    view: 'home' | 'notesList' | 'noteDetail' | 'editNote' | 'askAI' | 'chatDetail';
-    onNavigate: (view: 'home' | 'notesList' | 'askAI') => void;
+    view: 'home' | 'agenda' | 'board' | 'notesList' | 'noteDetail' | 'editNote' | 'askAI' | 'chatDetail';
+    onNavigate: (view: 'home' | 'agenda' | 'board' | 'notesList' | 'askAI') => void;
     user: User | null;
     onSignOut: () => void;
     onUserUpdate?: (user: User) => void;
 }
 
 const Header: React.FC<HeaderProps> = ({ view, onNavigate, user, onSignOut, onUserUpdate }) => {
-  const showTabs = view === 'home' || view === 'notesList' || view === 'askAI';
+  const showTabs = view === 'home' || view === 'agenda' || view === 'board' || view === 'notesList' || view === 'askAI';
   const showNoteBackButton = view === 'noteDetail' || view === 'editNote';
   const showChatBackButton = view === 'chatDetail';
 
@@ -40,6 +40,8 @@ const Header: React.FC<HeaderProps> = ({ view, onNavigate, user, onSignOut, onUs
 
   const navItems = [
     { view: 'home' as const, label: 'Home' },
+    { view: 'agenda' as const, label: 'Agenda' },
+    { view: 'board' as const, label: 'Board' },
     { view: 'notesList' as const, label: 'My Notes' },
     { view: 'askAI' as const, label: 'Ask AI' },
   ];
@@ -0,0 +1,17 @@
+import React from 'react';
+import type { SearchPassage } from '../services/searchService';
+
+// A search passage with the words that matched the query marked
+const HighlightedPassage: React.FC<{ passage: SearchPassage }> = ({ passage }) => {
+    const parts: React.ReactNode[] = [];
+    let last = 0;
+    passage.highlights.forEach(([start, end], index) => {
+        parts.push(passage.text.slice(last, start));
+        parts.push(<mark key={index} className="bg-yellow-500/30 text-yellow-100 rounded-sm px-0.5">{passage.text.slice(start, end)}</mark>);
+        last = end;
+    });
+    parts.push(passage.text.slice(last));
+    return <>{parts}</>;
+};
+
+export default HighlightedPassage;
@@ -0,0 +1,160 @@
+import React, { useState, useEffect } from 'react';
+import { describeRecurrence } from '../services/recurrence';
+import { isSuggestedForImport } from '../services/calendarImportService';
+import type { ImportCandidate } from '../services/calendarImportService';
+
+export interface CalendarImportPreview {
+    fileName: string;
+    candidates: ImportCandidate[];
+}
+
+interface ImportCalendarModalProps {
+    preview: CalendarImportPreview | null;
+    onClose: () => void;
+    onConfirm: (candidates: ImportCandidate[]) => Promise<void>;
+}
+
+const formatDay = (dueDate: string): string =>
+    new Date(`${dueDate}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+
+const ImportCalendarModal: React.FC<ImportCalendarModalProps> = ({ preview, onClose, onConfirm }) => {
+    const [selectedUids, setSelectedUids] = useState<Set<string>>(new Set());
+    const [isImporting, setIsImporting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        // Start from the entries the user most likely wants
+        setSelectedUids(new Set(preview?.candidates.filter(isSuggestedForImport).map(c => c.uid)));
+    }, [preview]);
+
+    // A failed import updates the preview, so the error is only cleared for a new file
+    useEffect(() => {
+        setError(null);
+    }, [preview?.fileName]);
+
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+          if (event.key === 'Escape' && !isImporting) {
+            onClose();
+          }
+        };
+
+        if (preview) {
+          document.addEventListener('keydown', handleKeyDown);
+        }
+
+        return () => {
+          document.removeEventListener('keydown', handleKeyDown);
+        };
+      }, [preview, isImporting, onClose]);
+
+    if (!preview) {
+        return null;
+    }
+
+    const toggleSelected = (uid: string) => {
+        setSelectedUids(current => {
+            const next = new Set(current);
+            if (next.has(uid)) next.delete(uid);
+            else next.add(uid);
+            return next;
+        });
+    };
+
+    const handleConfirm = async () => {
+        setIsImporting(true);
+        setError(null);
+        try {
+            await onConfirm(preview.candidates.filter(c => selectedUids.has(c.uid)));
+        } catch (e: any) {
+            console.error(e);
+            setError(e.message || "Failed to import tasks.");
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const allSelected = selectedUids.size === preview.candidates.length;
+
+    return (
+        <div
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-70 backdrop-blur-sm"
+            aria-labelledby="import-modal-title"
+            role="dialog"
+            aria-modal="true"
+            onClick={() => !isImporting && onClose()}
+        >
+            <div
+                className="bg-gray-800 rounded-lg shadow-2xl p-6 w-full max-w-lg mx-4 animate-fade-in flex flex-col max-h-[85vh]"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <h2 id="import-modal-title" className="text-xl font-bold text-white mb-1">
+                    Import Calendar
+                </h2>
+                <p className="text-sm text-blue-300 mb-4 truncate">{preview.fileName}</p>
+
+                <div className="flex items-center justify-between text-sm text-gray-400 mb-2">
+                    <span>{preview.candidates.length} {preview.candidates.length === 1 ? 'entry' : 'entries'} found</span>
+                    <button
+                        onClick={() => setSelectedUids(allSelected ? new Set() : new Set(preview.candidates.map(c => c.uid)))}
+                        className="text-blue-400 hover:underline focus:outline-none"
+                    >
+                        {allSelected ? 'Select none' : 'Select all'}
+                    </button>
+                </div>
+
+                <ul className="space-y-2 overflow-y-auto flex-grow pr-1">
+                    {preview.candidates.map(candidate => {
+                        const id = `import-${candidate.uid}`;
+                        return (
+                            <li key={candidate.uid} className="flex items-start gap-3 bg-gray-900/50 p-3 rounded-md">
+                                <input
+                                    id={id}
+                                    type="checkbox"
+                                    checked={selectedUids.has(candidate.uid)}
+                                    onChange={() => toggleSelected(candidate.uid)}
+                                    className="h-5 w-5 rounded border-gray-500 text-blue-500 bg-gray-700 focus:ring-blue-600 focus:ring-offset-gray-800 mt-0.5 cursor-pointer flex-shrink-0"
+                                />
+                                <label htmlFor={id} className="flex-grow min-w-0 cursor-pointer">
+                                    <span className={`block break-words ${candidate.completed ? 'line-through text-gray-500' : 'text-gray-200'}`}>{candidate.text}</span>
+                                    <span className="text-xs text-gray-400 mt-1 flex items-center flex-wrap gap-x-2 gap-y-1">
+                                        <span>{candidate.dueDate ? formatDay(candidate.dueDate) : 'No date'}</span>
+                                        {candidate.time && (
+                                            <span className="px-1.5 py-0.5 bg-blue-900/70 text-blue-300 rounded font-mono">{candidate.time}</span>
+                                        )}
+                                        {candidate.recurrence && <span>{describeRecurrence(candidate.recurrence, candidate.dueDate)}</span>}
+                                        {candidate.kind === 'todo' && <span>To-do</span>}
+                                        {candidate.duplicate && <span className="text-yellow-300">Already in Vocalyn</span>}
+                                        {candidate.past && <span className="text-gray-500">Past</span>}
+                                        {candidate.recurrenceDropped && <span className="text-yellow-300">Repeat rule not supported; imports once</span>}
+                                    </span>
+                                </label>
+                            </li>
+                        );
+                    })}
+                </ul>
+
+                {error && <p className="text-sm text-red-300 mt-3">{error}</p>}
+
+                <div className="flex justify-end gap-3 mt-6">
+                    <button
+                        onClick={onClose}
+                        disabled={isImporting}
+                        className="px-4 py-2 text-sm font-medium rounded-md bg-gray-600 text-gray-100 hover:bg-gray-500 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-gray-400"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleConfirm}
+                        disabled={isImporting || selectedUids.size === 0}
+                        className="px-4 py-2 text-sm font-medium rounded-md bg-blue-600 text-white hover:bg-blue-500 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isImporting ? 'Importing...' : `Import ${selectedUids.size} ${selectedUids.size === 1 ? 'task' : 'tasks'}`}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ImportCalendarModal;
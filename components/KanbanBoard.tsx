@@ -0,0 +1,228 @@
+import React, { useMemo, useState } from 'react';
+import type { Task, ActionItemStatus, Priority } from '../types';
+import * as notesService from '../services/notesService';
+import type { ScheduledNote, TodaysActionItem } from '../services/notesService';
+import { STATUS_OPTIONS, PRIORITIES, getStatus, comparePriority, normalizeTags } from '../services/actionItemFields';
+import type { ActionItemDetails } from '../services/actionItemFields';
+import PriorityBadge from './PriorityBadge';
+
+interface KanbanBoardProps {
+    notes: ScheduledNote[];
+    tasks: Task[];
+    onUpdateDetails: (entry: TodaysActionItem, details: ActionItemDetails) => Promise<void>;
+    onNavigateToNote: (noteId: string) => void;
+    onEditTask: (taskId: string) => void;
+}
+
+const COLUMN_ACCENTS: Record<ActionItemStatus, string> = {
+    todo: 'border-gray-500',
+    in_progress: 'border-blue-500',
+    blocked: 'border-red-500',
+    done: 'border-green-500',
+};
+
+// The Done column only shows this many cards until expanded
+const DONE_PREVIEW_COUNT = 10;
+
+const entryKey = (entry: TodaysActionItem) => `${entry.source}:${entry.itemId}`;
+
+const formatDay = (dueDate: string): string =>
+    new Date(`${dueDate}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+// Within a column: highest priority first, then the earliest due date, undated last
+const compareCards = (a: TodaysActionItem, b: TodaysActionItem): number =>
+    comparePriority(a.item, b.item) || (a.item.dueDate || '9999').localeCompare(b.item.dueDate || '9999');
+
+const KanbanBoard: React.FC<KanbanBoardProps> = ({ notes, tasks, onUpdateDetails, onNavigateToNote, onEditTask }) => {
+    const [tagFilter, setTagFilter] = useState<string | null>(null);
+    const [draggedEntry, setDraggedEntry] = useState<TodaysActionItem | null>(null);
+    const [dropStatus, setDropStatus] = useState<ActionItemStatus | null>(null);
+    const [editingTagsKey, setEditingTagsKey] = useState<string | null>(null);
+    const [tagsText, setTagsText] = useState('');
+    const [showAllDone, setShowAllDone] = useState(false);
+
+    const entries = useMemo(() => [
+        ...notesService.queryActionItems(notes, tasks, { includeCompleted: true }),
+        ...notesService.queryActionItems(notes, tasks, { undated: true, includeCompleted: true }),
+    ], [notes, tasks]);
+
+    const allTags = useMemo(() =>
+        Array.from(new Set(entries.flatMap(entry => entry.item.tags ?? []))).sort(),
+    [entries]);
+
+    const columns = useMemo(() => {
+        const visible = tagFilter ? entries.filter(entry => entry.item.tags?.includes(tagFilter)) : entries;
+        return STATUS_OPTIONS.map(option => ({
+            ...option,
+            entries: visible.filter(entry => getStatus(entry.item) === option.id).sort(compareCards),
+        }));
+    }, [entries, tagFilter]);
+
+    const handleDrop = (e: React.DragEvent, status: ActionItemStatus) => {
+        e.preventDefault();
+        setDropStatus(null);
+        if (draggedEntry && getStatus(draggedEntry.item) !== status) {
+            onUpdateDetails(draggedEntry, { status });
+        }
+        setDraggedEntry(null);
+    };
+
+    const startEditingTags = (entry: TodaysActionItem) => {
+        setEditingTagsKey(entryKey(entry));
+        setTagsText((entry.item.tags ?? []).join(', '));
+    };
+
+    const saveTags = (entry: TodaysActionItem) => {
+        setEditingTagsKey(null);
+        const tags = normalizeTags(tagsText);
+        if (tags.join(',') !== (entry.item.tags ?? []).join(',')) {
+            onUpdateDetails(entry, { tags });
+        }
+    };
+
+    const renderCard = (entry: TodaysActionItem) => {
+        const { source, itemId, item, noteId, noteTitle } = entry;
+        const key = entryKey(entry);
+        return (
+            <li
+                key={key}
+                draggable
+                onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    e.dataTransfer.setData('text/plain', item.text);
+                    setDraggedEntry(entry);
+                }}
+                onDragEnd={() => {
+                    setDraggedEntry(null);
+                    setDropStatus(null);
+                }}
+                className={`bg-gray-800 p-3 rounded-md shadow cursor-grab active:cursor-grabbing space-y-2 ${draggedEntry && entryKey(draggedEntry) === key ? 'opacity-50' : ''}`}
+            >
+                <div className="flex items-start gap-2">
+                    <PriorityBadge priority={item.priority} />
+                    <p className={`text-sm break-words flex-grow min-w-0 ${item.completed ? 'text-gray-500 line-through' : 'text-gray-200'}`}>{item.text}</p>
+                </div>
+                <div className="text-xs text-gray-400 flex items-center flex-wrap gap-x-2 gap-y-1">
+                    {item.dueDate && <span>{formatDay(item.dueDate)}{item.time ? ` ${item.time}` : ''}</span>}
+                    {noteId ? (
+                        <button onClick={() => onNavigateToNote(noteId)} className="text-blue-400 hover:underline focus:outline-none truncate max-w-full">
+                            {noteTitle}
+                        </button>
+                    ) : (
+                        <span>Task</span>
+                    )}
+                    {source === 'task' && (
+                        <button onClick={() => onEditTask(itemId)} className="text-blue-400 hover:underline focus:outline-none">
+                            Edit
+                        </button>
+                    )}
+                </div>
+                {editingTagsKey === key ? (
+                    <input
+                        type="text"
+                        value={tagsText}
+                        autoFocus
+                        onChange={(e) => setTagsText(e.target.value)}
+                        onBlur={() => saveTags(entry)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') saveTags(entry);
+                            if (e.key === 'Escape') setEditingTagsKey(null);
+                        }}
+                        placeholder="work, errands"
+                        className="w-full bg-gray-700 text-gray-200 text-xs rounded border border-gray-600 focus:ring-1 focus:ring-blue-500 focus:outline-none p-1"
+                        aria-label={`Tags for ${item.text}`}
+                    />
+                ) : (
+                    <div className="flex flex-wrap items-center gap-1">
+                        {item.tags?.map(tag => (
+                            <span key={tag} className="px-1.5 py-0.5 text-xs rounded-full bg-gray-700 text-gray-300">#{tag}</span>
+                        ))}
+                        <button onClick={() => startEditingTags(entry)} className="text-xs text-gray-500 hover:text-gray-300 focus:outline-none">
+                            {item.tags?.length ? 'Edit tags' : '+ Tag'}
+                        </button>
+                    </div>
+                )}
+                <div className="flex gap-2">
+                    <select
+                        value={item.priority ?? ''}
+                        onChange={(e) => onUpdateDetails(entry, { priority: (e.target.value || undefined) as Priority | undefined })}
+                        className="bg-gray-700 text-gray-300 text-xs rounded border border-gray-600 focus:ring-1 focus:ring-blue-500 focus:outline-none p-1"
+                        aria-label={`Priority for ${item.text}`}
+                    >
+                        <option value="">No priority</option>
+                        {PRIORITIES.map(priority => <option key={priority} value={priority}>{priority}</option>)}
+                    </select>
+                    <select
+                        value={getStatus(item)}
+                        onChange={(e) => onUpdateDetails(entry, { status: e.target.value as ActionItemStatus })}
+                        className="bg-gray-700 text-gray-300 text-xs rounded border border-gray-600 focus:ring-1 focus:ring-blue-500 focus:outline-none p-1"
+                        aria-label={`Status for ${item.text}`}
+                    >
+                        {STATUS_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+                    </select>
+                </div>
+            </li>
+        );
+    };
+
+    return (
+        <div className="w-full space-y-6 animate-fade-in">
+            <div className="flex flex-wrap items-center justify-between gap-3 bg-gray-900/50 p-4 rounded-lg">
+                <h2 className="text-2xl font-bold text-gray-100">Board</h2>
+                {allTags.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-1.5" role="group" aria-label="Filter by tag">
+                        {[null, ...allTags].map(tag => (
+                            <button
+                                key={tag ?? 'all'}
+                                onClick={() => setTagFilter(tag)}
+                                aria-pressed={tagFilter === tag}
+                                className={`px-2.5 py-1 text-xs font-medium rounded-full transition-colors ${tagFilter === tag ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                            >
+                                {tag ? `#${tag}` : 'All'}
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                {columns.map(column => {
+                    const isDone = column.id === 'done';
+                    const shown = isDone && !showAllDone ? column.entries.slice(0, DONE_PREVIEW_COUNT) : column.entries;
+                    return (
+                        <section
+                            key={column.id}
+                            onDragOver={(e) => {
+                                if (!draggedEntry) return;
+                                e.preventDefault();
+                                e.dataTransfer.dropEffect = 'move';
+                                setDropStatus(column.id);
+                            }}
+                            onDragLeave={(e) => !e.currentTarget.contains(e.relatedTarget as Node) && setDropStatus(null)}
+                            onDrop={(e) => handleDrop(e, column.id)}
+                            className={`bg-gray-900/50 p-3 rounded-lg border-t-4 ${COLUMN_ACCENTS[column.id]} ${dropStatus === column.id ? 'ring-2 ring-blue-500' : ''}`}
+                            aria-labelledby={`board-${column.id}`}
+                        >
+                            <h3 id={`board-${column.id}`} className="text-sm font-semibold text-gray-200 mb-3">
+                                {column.label}
+                                <span className="ml-2 font-normal text-gray-500">{column.entries.length}</span>
+                            </h3>
+                            {column.entries.length === 0 ? (
+                                <p className="text-xs text-gray-500 py-4 text-center">Drop tasks here</p>
+                            ) : (
+                                <ul className="space-y-2">{shown.map(renderCard)}</ul>
+                            )}
+                            {isDone && column.entries.length > DONE_PREVIEW_COUNT && (
+                                <button onClick={() => setShowAllDone(!showAllDone)} className="mt-2 text-xs text-blue-400 hover:underline focus:outline-none">
+                                    {showAllDone ? 'Show fewer' : `Show all ${column.entries.length}`}
+                                </button>
+                            )}
+                        </section>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default KanbanBoard;
@@ -1,15 +1,30 @@
 
 import React, { useState } from 'react';
-import type { ProcessedNoteWithId } from '../types';
+import type { ProcessedNoteWithId, Priority, Subtask } from '../types';
 import ConfirmationModal from './ConfirmationModal';
 import ExportButton from './ExportButton';
+import AudioTranscriptPlayer from './AudioTranscriptPlayer';
+import TranscriptDiff from './TranscriptDiff';
+import RecurrencePicker from './RecurrencePicker';
+import PriorityBadge from './PriorityBadge';
+import { PRIORITIES, normalizeTags } from '../services/actionItemFields';
+import type { ActionItemDetails } from '../services/actionItemFields';
+import { getSubtaskProgress } from '../services/subtasks';
+import SubtaskEditor from './SubtaskEditor';
 
 interface NoteCardProps {
   note: ProcessedNoteWithId;
   onDelete: (id: string) => void;
   onEdit: (id: string) => void;
-  onToggleActionItem: (noteId: string, itemIndex: number) => void;
-  onUpdateActionItemDate: (noteId: string, itemIndex: number, newDate: string) => void;
+  onToggleActionItem: (noteId: string, itemId: string) => void;
+  onUpdateActionItemDate: (noteId: string, itemId: string, newDate: string) => void;
+  onUpdateActionItemRecurrence?: (noteId: string, itemId: string, recurrence: string | undefined) => void;
+  onUpdateActionItemDetails?: (noteId: string, itemId: string, details: ActionItemDetails) => void;
+  onToggleSubtask?: (noteId: string, itemId: string, subtaskId: string) => void;
+  onUpdateSubtasks?: (noteId: string, itemId: string, subtasks: Subtask[]) => void;
+  onSuggestSubtasks?: (noteId: string, itemId: string) => Promise<string[]>;
+  onRetryProcessing?: (noteId: string) => void;
+  onDismissActionItemChanges?: (noteId: string) => void;
 }
 
 /**
@@ -38,9 +53,13 @@ const formatDueDate = (dueDate: string): string => {
 };
 
 
-const NoteCard: React.FC<NoteCardProps> = ({ note, onDelete, onEdit, onToggleActionItem, onUpdateActionItemDate }) => {
-  const { refinedNote, emotionAnalysis, createdAt, id, actionItems } = note;
+const NoteCard: React.FC<NoteCardProps> = ({ note, onDelete, onEdit, onToggleActionItem, onUpdateActionItemDate, onUpdateActionItemRecurrence, onUpdateActionItemDetails, onToggleSubtask, onUpdateSubtasks, onSuggestSubtasks, onRetryProcessing, onDismissActionItemChanges }) => {
+  const { refinedNote, emotionAnalysis, createdAt, id, actionItems, audioPath, transcriptSegments, rawTranscript, processingStatus, actionItemChanges } = note;
+  const addedItemIds = new Set(actionItemChanges?.addedIds ?? []);
+  const removedItems = actionItemChanges?.removed ?? [];
+  const isUnprocessed = processingStatus === 'unprocessed';
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
+  const [showChanges, setShowChanges] = useState(false);
 
   // A markdown to JSX converter that groups list items correctly.
   const renderRefinedNote = (text: string) => {
@@ -102,6 +121,21 @@ const NoteCard: React.FC<NoteCardProps> = ({ note, onDelete, onEdit, onToggleAct
                     </button>
                 </div>
             </div>
+          {isUnprocessed && (
+            <div className="mb-6 flex flex-wrap items-center justify-between gap-3 bg-yellow-900/40 border border-yellow-600/50 rounded-lg p-4">
+                <p className="text-yellow-200 text-sm">
+                    The AI couldn't process this note yet. Your words are saved and it will be analyzed automatically.
+                </p>
+                {onRetryProcessing && (
+                    <button
+                        onClick={() => onRetryProcessing(id)}
+                        className="px-3 py-1 text-sm rounded-md bg-yellow-700/70 text-yellow-100 hover:bg-yellow-600 transition-colors"
+                    >
+                        Retry Now
+                    </button>
+                )}
+            </div>
+          )}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             {/* Refined Note Section */}
             <div className="md:col-span-2 bg-gray-900/50 p-6 rounded-lg">
@@ -110,9 +144,23 @@ const NoteCard: React.FC<NoteCardProps> = ({ note, onDelete, onEdit, onToggleAct
                         <path strokeLinecap="round" strokeLinejoin="round" d="M16.862 4.487l1.687-1.688a1.875 1.875 0 112.652 2.652L10.582 16.07a4.5 4.5 0 01-1.897 1.13L6 18l.8-2.685a4.5 4.5 0 011.13-1.897l8.932-8.931zm0 0L19.5 7.125M18 14v4.75A2.25 2.25 0 0115.75 21H5.25A2.25 2.25 0 013 18.75V8.25A2.25 2.25 0 015.25 6H10" />
                     </svg>
                     <span>Refined Note</span>
+                    {rawTranscript && !isUnprocessed && (
+                        <button
+                            onClick={() => setShowChanges(prev => !prev)}
+                            className="ml-auto px-3 py-1 text-sm font-normal rounded-md bg-gray-700 text-gray-200 hover:bg-gray-600 transition-colors"
+                            aria-pressed={showChanges}
+                        >
+                            {showChanges ? 'Show Note' : 'Show AI Changes'}
+                        </button>
+                    )}
                 </h3>
+              {audioPath && (
+                <AudioTranscriptPlayer audioPath={audioPath} segments={transcriptSegments} />
+              )}
               <div className="prose prose-invert max-w-none max-h-[40rem] overflow-y-auto pr-4">
-                {renderRefinedNote(refinedNote)}
+                {showChanges && rawTranscript
+                    ? <TranscriptDiff rawTranscript={rawTranscript} refinedNote={refinedNote} />
+                    : renderRefinedNote(refinedNote)}
               </div>
             </div>
 
@@ -140,31 +188,52 @@ const NoteCard: React.FC<NoteCardProps> = ({ note, onDelete, onEdit, onToggleAct
             </div>
 
             {/* Action Items Section */}
-            {actionItems && actionItems.length > 0 && (
+            {((actionItems && actionItems.length > 0) || removedItems.length > 0) && (
                 <div className="md:col-span-3 bg-gray-900/50 p-6 rounded-lg">
                     <h3 className="text-xl font-bold text-gray-100 border-b border-gray-700 pb-3 mb-4 flex items-center gap-3">
                         <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="1.5">
                             <path strokeLinecap="round" strokeLinejoin="round" d="M9 12.75L11.25 15 15 9.75M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                         </svg>
                         <span>Action Items</span>
+                        {actionItemChanges && onDismissActionItemChanges && (
+                            <button
+                                onClick={() => onDismissActionItemChanges(id)}
+                                className="ml-auto text-sm font-normal text-gray-400 hover:text-gray-200 transition-colors"
+                            >
+                                Dismiss changes
+                            </button>
+                        )}
                     </h3>
                     <ul className="space-y-3">
-                        {actionItems.map((item, index) => (
-                        <li key={index} className="flex flex-wrap items-center justify-between gap-4 p-2 rounded-md hover:bg-gray-800/40 transition-colors">
+                        {actionItems.map(item => {
+                        const progress = getSubtaskProgress(item);
+                        return (
+                        <li key={item.id} className="flex flex-wrap items-center justify-between gap-4 p-2 rounded-md hover:bg-gray-800/40 transition-colors">
                             <div className="flex items-center flex-grow min-w-0">
                                 <input
-                                id={`action-item-${id}-${index}`}
+                                id={`action-item-${id}-${item.id}`}
                                 type="checkbox"
                                 checked={item.completed}
-                                onChange={() => onToggleActionItem(id, index)}
+                                onChange={() => onToggleActionItem(id, item.id)}
                                 className="h-5 w-5 rounded border-gray-500 text-blue-500 bg-gray-700 focus:ring-blue-600 focus:ring-offset-gray-900 cursor-pointer flex-shrink-0"
                                 />
+                                {item.priority && <span className="ml-3"><PriorityBadge priority={item.priority} /></span>}
                                 <label
-                                    htmlFor={`action-item-${id}-${index}`}
+                                    htmlFor={`action-item-${id}-${item.id}`}
                                     className={`ml-3 text-base cursor-pointer transition-colors break-words ${item.completed ? 'text-gray-500 line-through' : 'text-gray-200'}`}
                                 >
                                     {item.text}
                                 </label>
+                                {progress && (
+                                    <span className="ml-2 text-xs text-gray-400 flex-shrink-0" title="Subtasks done">
+                                        {progress.done}/{progress.total}
+                                    </span>
+                                )}
+                                {addedItemIds.has(item.id) && (
+                                    <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-green-900/60 text-green-300 flex-shrink-0">
+                                        Added
+                                    </span>
+                                )}
                             </div>
                             <div className="flex items-center gap-2 flex-shrink-0 ml-auto pl-4">
                                <span className={`text-sm ${item.dueDate ? 'text-gray-400' : 'text-gray-600'} hidden sm:inline`}>
@@ -173,14 +242,77 @@ const NoteCard: React.FC<NoteCardProps> = ({ note, onDelete, onEdit, onToggleAct
                                <input
                                    type="date"
                                    value={item.dueDate || ''}
-                                   onChange={(e) => onUpdateActionItemDate(id, index, e.target.value)}
+                                   onChange={(e) => onUpdateActionItemDate(id, item.id, e.target.value)}
                                    className="bg-gray-700 text-gray-300 text-sm rounded border border-gray-600 focus:ring-1 focus:ring-blue-500 focus:outline-none p-1.5 w-[140px]"
                                    aria-label={`Due date for ${item.text}`}
                                />
                             </div>
+                            {item.dueDate && onUpdateActionItemRecurrence && !item.completed && (
+                                <div className="basis-full pl-8">
+                                    <RecurrencePicker
+                                        value={item.recurrence}
+                                        anchor={item.dueDate}
+                                        onChange={(recurrence) => onUpdateActionItemRecurrence(id, item.id, recurrence)}
+                                    />
+                                </div>
+                            )}
+                            {onToggleSubtask && onUpdateSubtasks && (
+                                <div className="basis-full pl-8">
+                                    <SubtaskEditor
+                                        item={item}
+                                        idPrefix={`action-item-${id}-${item.id}`}
+                                        onToggle={(subtaskId) => onToggleSubtask(id, item.id, subtaskId)}
+                                        onChange={(subtasks) => onUpdateSubtasks(id, item.id, subtasks)}
+                                        onSuggest={onSuggestSubtasks && (() => onSuggestSubtasks(id, item.id))}
+                                    />
+                                </div>
+                            )}
+                            {onUpdateActionItemDetails && !item.completed && (
+                                <div className="basis-full pl-8 flex flex-wrap items-center gap-2">
+                                    <select
+                                        value={item.priority ?? ''}
+                                        onChange={(e) => onUpdateActionItemDetails(id, item.id, { priority: (e.target.value || undefined) as Priority | undefined })}
+                                        className="bg-gray-700 text-gray-300 text-sm rounded border border-gray-600 focus:ring-1 focus:ring-blue-500 focus:outline-none p-1.5"
+                                        aria-label={`Priority for ${item.text}`}
+                                    >
+                                        <option value="">No priority</option>
+                                        {PRIORITIES.map(priority => <option key={priority} value={priority}>{priority}</option>)}
+                                    </select>
+                                    <input
+                                        // Re-mount when the saved tags change so the text resets
+                                        key={(item.tags ?? []).join(',')}
+                                        type="text"
+                                        defaultValue={(item.tags ?? []).join(', ')}
+                                        onBlur={(e) => {
+                                            const tags = normalizeTags(e.target.value);
+                                            if (tags.join(',') !== (item.tags ?? []).join(',')) {
+                                                onUpdateActionItemDetails(id, item.id, { tags });
+                                            }
+                                        }}
+                                        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                                        placeholder="Tags, e.g. work, errands"
+                                        className="bg-gray-700 text-gray-300 text-sm rounded border border-gray-600 focus:ring-1 focus:ring-blue-500 focus:outline-none p-1.5 w-56"
+                                        aria-label={`Tags for ${item.text}`}
+                                    />
+                                </div>
+                            )}
                         </li>
-                        ))}
+                        );
+                        })}
                     </ul>
+                    {removedItems.length > 0 && (
+                        <div className="mt-4 pt-3 border-t border-gray-700">
+                            <p className="text-sm text-gray-400 mb-2">Removed after the last edit</p>
+                            <ul className="space-y-1">
+                                {removedItems.map(item => (
+                                    <li key={item.id} className="flex items-center gap-2 px-2 text-sm text-red-300/80">
+                                        <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-red-900/50 text-red-300">Removed</span>
+                                        <span className="line-through break-words">{item.text}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
                 </div>
             )}
           </div>
@@ -10,7 +10,8 @@ interface NoteEditorProps {
 }
 
 const NoteEditor: React.FC<NoteEditorProps> = ({ note, onSave, onCancel, isSaving }) => {
-    const [content, setContent] = useState(note?.refinedNote || '');
+    // Edit the original words when we have them so the AI refines from source, not from its own output
+    const [content, setContent] = useState(note?.rawTranscript ?? note?.refinedNote ?? '');
 
     const handleSave = () => {
         if (!content.trim() || isSaving) return;
@@ -31,7 +32,9 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note, onSave, onCancel, isSavin
                 disabled={isSaving}
             />
             <p className="text-sm text-gray-500 mt-2">
-                When you save, the AI will refine and analyze your note.
+                {note?.rawTranscript
+                    ? 'You are editing your original transcript. When you save, the AI will refine and analyze it again.'
+                    : 'When you save, the AI will refine and analyze your note.'}
             </p>
             <div className="flex justify-end items-center gap-4 mt-6">
                 <button
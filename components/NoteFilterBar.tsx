@@ -0,0 +1,103 @@
+import React from 'react';
+import { EMPTY_NOTE_QUERY, hasFilters } from '../services/noteQuery';
+import type { NoteQuery } from '../services/noteQuery';
+
+interface NoteFilterBarProps {
+    query: NoteQuery;
+    onChange: (query: NoteQuery) => void;
+    emotionOptions: string[];
+    tagOptions: string[];
+}
+
+const selectClasses = "bg-gray-900/50 text-gray-200 text-sm rounded-md border border-gray-700 px-2 py-1 focus:ring-2 focus:ring-blue-500 focus:outline-none";
+
+// Tri-state filters: undefined matches either way
+const toTriState = (value: string): boolean | undefined => (value === 'yes' ? true : value === 'no' ? false : undefined);
+const fromTriState = (value: boolean | undefined): string => (value === true ? 'yes' : value === false ? 'no' : '');
+
+/**
+ * Controls for the structured parts of a notes search. Each change is reported as
+ * a whole query, which the list writes back into the search box text.
+ */
+const NoteFilterBar: React.FC<NoteFilterBarProps> = ({ query, onChange, emotionOptions, tagOptions }) => {
+    const update = (changes: Partial<NoteQuery>) => onChange({ ...query, ...changes });
+
+    // Keep a filter typed into the box selectable even if no note has that value yet
+    const emotions = Array.from(new Set([...emotionOptions, ...query.emotions])).sort();
+    const tags = Array.from(new Set([...tagOptions, ...query.tags])).sort();
+
+    return (
+        <div className="flex flex-wrap items-center gap-2 mb-4 text-sm text-gray-400" role="group" aria-label="Search filters">
+            <select
+                value={query.emotions[0] ?? ''}
+                onChange={(e) => update({ emotions: e.target.value ? [e.target.value] : [] })}
+                className={selectClasses}
+                aria-label="Filter by emotion"
+            >
+                <option value="">Any emotion</option>
+                {emotions.map(emotion => (
+                    <option key={emotion} value={emotion}>{emotion.charAt(0).toUpperCase() + emotion.slice(1)}</option>
+                ))}
+            </select>
+            {tags.length > 0 && (
+                <select
+                    value={query.tags[0] ?? ''}
+                    onChange={(e) => update({ tags: e.target.value ? [e.target.value] : [] })}
+                    className={selectClasses}
+                    aria-label="Filter by tag"
+                >
+                    <option value="">Any tag</option>
+                    {tags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+                </select>
+            )}
+            <select
+                value={fromTriState(query.hasTasks)}
+                onChange={(e) => update({ hasTasks: toTriState(e.target.value) })}
+                className={selectClasses}
+                aria-label="Filter by open action items"
+            >
+                <option value="">Any tasks</option>
+                <option value="yes">Open tasks</option>
+                <option value="no">No open tasks</option>
+            </select>
+            <select
+                value={fromTriState(query.hasAudio)}
+                onChange={(e) => update({ hasAudio: toTriState(e.target.value) })}
+                className={selectClasses}
+                aria-label="Filter by recording"
+            >
+                <option value="">Any source</option>
+                <option value="yes">With audio</option>
+                <option value="no">Without audio</option>
+            </select>
+            <label className="flex items-center gap-1">
+                From
+                <input
+                    type="date"
+                    value={query.after ?? ''}
+                    onChange={(e) => update({ after: e.target.value || undefined })}
+                    className={selectClasses}
+                />
+            </label>
+            <label className="flex items-center gap-1" title="Notes created before this day">
+                Before
+                <input
+                    type="date"
+                    value={query.before ?? ''}
+                    onChange={(e) => update({ before: e.target.value || undefined })}
+                    className={selectClasses}
+                />
+            </label>
+            {hasFilters(query) && (
+                <button
+                    onClick={() => onChange({ ...EMPTY_NOTE_QUERY, text: query.text })}
+                    className="text-blue-400 hover:underline focus:outline-none"
+                >
+                    Clear filters
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default NoteFilterBar;
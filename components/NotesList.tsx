@@ -1,8 +1,29 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import type { ProcessedNoteWithId } from '../types';
+import { passageFromSnippet, searchNotes } from '../services/searchService';
+import { getNotesMatching, isBeforeCursor, mergeNoteLists, searchNotesFullText } from '../services/notesService';
+import type { NotesPage } from '../services/notesService';
+import type { NoteSearchResult, SearchPassage } from '../services/searchService';
+import { formatNoteQuery, hasFilters, matchesNoteQuery, parseNoteQuery } from '../services/noteQuery';
+import type { NoteQuery } from '../services/noteQuery';
+import { getNoteTitle } from '../services/noteTitle';
+import NoteFilterBar from './NoteFilterBar';
+import HighlightedPassage from './HighlightedPassage';
+import VirtualList from './VirtualList';
+
+// Wait for a pause in typing before embedding the query
+const SEARCH_DEBOUNCE_MS = 300;
+
+// A collapsed note card's height, for cards not rendered yet
+const ESTIMATED_NOTE_HEIGHT = 170;
+
+const noteKey = (note: ProcessedNoteWithId) => note.id;
 
 interface NotesListProps {
   notes: ProcessedNoteWithId[];
+  hasMoreNotes: boolean;
+  onLoadMore: () => Promise<void>;
+  onNotesFound: (notes: ProcessedNoteWithId[]) => void;
   onSelectNote: (id: string) => void;
   onCreateNew: () => void;
   selectedNoteIds: string[];
@@ -32,9 +53,130 @@ const renderMarkdownPreview = (text: string) => {
 };
 
 
-const NotesList: React.FC<NotesListProps> = ({ notes, onSelectNote, onCreateNew, selectedNoteIds, onSelectionChange, onAskAboutSelection }) => {
+const NotesList: React.FC<NotesListProps> = ({ notes, hasMoreNotes, onLoadMore, onNotesFound, onSelectNote, onCreateNew, selectedNoteIds, onSelectionChange, onAskAboutSelection }) => {
     const [searchQuery, setSearchQuery] = useState('');
     const [expandedNoteId, setExpandedNoteId] = useState<string | null>(null);
+    const [searchResults, setSearchResults] = useState<NoteSearchResult[] | null>(null);
+    const [isSearching, setIsSearching] = useState(false);
+    const [isLoadingMore, setIsLoadingMore] = useState(false);
+    // Scrolling can report the end again before the loading state has rendered
+    const loadingMoreRef = useRef(false);
+
+    // The search box holds free text and filters in one string; the filter bar edits the same string
+    const parsedQuery = useMemo(() => parseNoteQuery(searchQuery), [searchQuery]);
+    // The filters alone, as text, so typing free text does not fetch matches again
+    const filtersText = useMemo(
+        () => hasFilters(parsedQuery) ? formatNoteQuery({ ...parsedQuery, text: '' }) : '',
+        [parsedQuery]
+    );
+    // With filters set, matching notes come from the server a page at a time, so
+    // notes on pages of the list not loaded yet are found too
+    const [matchesPage, setMatchesPage] = useState<NotesPage | null>(null);
+
+    const matchingNotes = useMemo(() => {
+        const loaded = notes.filter(note => matchesNoteQuery(note, parsedQuery));
+        if (!matchesPage) return loaded;
+        // Loaded notes win, since they carry edits made since; older matches wait for their page
+        const { nextCursor } = matchesPage;
+        return mergeNoteLists(loaded, matchesPage.notes)
+            .filter(note => matchesNoteQuery(note, parsedQuery) && (!nextCursor || isBeforeCursor(note, nextCursor)));
+    }, [notes, parsedQuery, matchesPage]);
+
+    const emotionOptions = useMemo(() => Array.from(new Set(
+        notes.flatMap(note => (note.emotionAnalysis?.emotions ?? []).map(e => e.emotion.toLowerCase()))
+    )), [notes]);
+    const tagOptions = useMemo(() => Array.from(new Set(
+        notes.flatMap(note => (note.actionItems ?? []).flatMap(item => item.tags ?? []))
+    )), [notes]);
+
+    const handleFiltersChange = (query: NoteQuery) => setSearchQuery(formatNoteQuery(query));
+
+    useEffect(() => {
+        const query = parsedQuery.text.trim();
+        if (!query) {
+            setSearchResults(null);
+            setIsSearching(false);
+            return;
+        }
+
+        let cancelled = false;
+        setIsSearching(true);
+        const timer = setTimeout(async () => {
+            try {
+                // Semantic search covers every indexed note; full-text search on the server adds
+                // matches from notes not indexed yet, ranked after them
+                const [semanticResults, serverMatches] = await Promise.all([
+                    searchNotes(query, matchingNotes),
+                    searchNotesFullText(query),
+                ]);
+                if (cancelled) return;
+                // Indexed notes beyond the loaded ones still have to pass the filters
+                const results = semanticResults.filter(result => matchesNoteQuery(result.note, parsedQuery));
+                const foundIds = new Set(results.map(result => result.note.id));
+                const extraResults = serverMatches
+                    .filter(match => !foundIds.has(match.note.id) && matchesNoteQuery(match.note, parsedQuery))
+                    .map(match => ({ note: match.note, score: match.rank, passages: [passageFromSnippet(match.snippet, match.rank)] }));
+                const listedIds = new Set(matchingNotes.map(note => note.id));
+                const foundNotes = [...results, ...extraResults].map(result => result.note).filter(note => !listedIds.has(note.id));
+                if (foundNotes.length > 0) onNotesFound(foundNotes);
+                setSearchResults([...results, ...extraResults]);
+            } catch (e) {
+                console.error("Semantic search failed", e);
+                if (!cancelled) setSearchResults(null);
+            } finally {
+                if (!cancelled) setIsSearching(false);
+            }
+        }, SEARCH_DEBOUNCE_MS);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [parsedQuery, matchingNotes, onNotesFound]);
+
+    useEffect(() => {
+        setMatchesPage(null);
+        if (!filtersText) return;
+
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            try {
+                const page = await getNotesMatching(parseNoteQuery(filtersText));
+                if (cancelled) return;
+                onNotesFound(page.notes);
+                setMatchesPage(page);
+            } catch (e) {
+                console.error("Failed to fetch notes matching the filters", e);
+            }
+        }, SEARCH_DEBOUNCE_MS);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [filtersText, onNotesFound]);
+
+    // The next page of matches when filters are set, otherwise the next page of the list
+    const loadMore = useCallback(async () => {
+        if (!filtersText) return onLoadMore();
+        if (!matchesPage?.nextCursor) return;
+        const page = await getNotesMatching(parseNoteQuery(filtersText), matchesPage.nextCursor);
+        onNotesFound(page.notes);
+        // The filters may have changed while the page loaded
+        setMatchesPage(current => current === matchesPage
+            ? { notes: mergeNoteLists(current.notes, page.notes), nextCursor: page.nextCursor }
+            : current);
+    }, [filtersText, matchesPage, onLoadMore, onNotesFound]);
+
+    const handleLoadMore = useCallback(async () => {
+        if (loadingMoreRef.current) return;
+        loadingMoreRef.current = true;
+        setIsLoadingMore(true);
+        try {
+            await loadMore();
+        } finally {
+            loadingMoreRef.current = false;
+            setIsLoadingMore(false);
+        }
+    }, [loadMore]);
 
     const handleNoteSelection = (noteId: string) => {
         const newSelection = selectedNoteIds.includes(noteId)
@@ -43,13 +185,116 @@ const NotesList: React.FC<NotesListProps> = ({ notes, onSelectNote, onCreateNew,
         onSelectionChange(newSelection);
     };
 
-    const filteredNotes = notes.filter(note => {
-        if (!searchQuery.trim()) return true;
-        const query = searchQuery.toLowerCase();
-        const content = note.refinedNote.toLowerCase();
-        const summary = note.emotionAnalysis.summary.toLowerCase();
-        return content.includes(query) || summary.includes(query);
-    });
+    const filteredNotes = useMemo(() => {
+        // Results from before a filter change may include notes the filters now exclude
+        if (searchResults) {
+            return searchResults.map(result => result.note).filter(note => matchesNoteQuery(note, parsedQuery));
+        }
+        // Until the ranked results arrive, fall back to a plain keyword match
+        const query = parsedQuery.text.trim().toLowerCase();
+        if (!query) return matchingNotes;
+        return matchingNotes.filter(note =>
+            note.refinedNote.toLowerCase().includes(query) || note.emotionAnalysis.summary.toLowerCase().includes(query));
+    }, [searchResults, matchingNotes, parsedQuery]);
+    const passagesByNote = useMemo(
+        () => new Map<string, SearchPassage[]>(searchResults?.map(result => [result.note.id, result.passages])),
+        [searchResults]
+    );
+    // Older pages load as the list scrolls to its end. While searching, full-text
+    // matches from the server stand in for the pages not loaded.
+    const hasMoreMatches = filtersText ? !!matchesPage?.nextCursor : hasMoreNotes;
+    const canLoadMore = hasMoreMatches && !parsedQuery.text.trim();
+
+    const renderNote = (note: ProcessedNoteWithId) => {
+        const allTasksCompleted = note.actionItems?.length > 0 && note.actionItems.every(item => item.completed);
+        const isSelected = selectedNoteIds.includes(note.id);
+        const isExpanded = expandedNoteId === note.id;
+        const TRUNCATE_LENGTH = 180;
+        const needsTruncation = note.refinedNote.length > TRUNCATE_LENGTH;
+
+        const passages = passagesByNote.get(note.id);
+
+        let previewContent = note.refinedNote;
+        if (needsTruncation && !isExpanded) {
+            const lastSpace = note.refinedNote.lastIndexOf(' ', TRUNCATE_LENGTH);
+            previewContent = note.refinedNote.substring(0, lastSpace > 0 ? lastSpace : TRUNCATE_LENGTH) + '...';
+        }
+
+        return (
+            <div
+                onClick={() => handleNoteSelection(note.id)}
+                className={`p-4 rounded-lg cursor-pointer transition-all duration-200 flex items-start gap-4 ${isSelected ? 'bg-blue-900/50 ring-2 ring-blue-500' : 'bg-gray-900/50 hover:bg-gray-800/80'}`}
+                role="checkbox"
+                tabIndex={0}
+                aria-checked={isSelected}
+                onKeyDown={(e) => (e.key === 'Enter' || e.key === ' ') && handleNoteSelection(note.id)}
+            >
+                 <input
+                    type="checkbox"
+                    checked={isSelected}
+                    readOnly
+                    className="h-5 w-5 rounded border-gray-500 text-blue-500 bg-gray-700 focus:ring-blue-600 focus:ring-offset-gray-900 mt-1 flex-shrink-0 pointer-events-none"
+                    aria-labelledby={`note-title-${note.id}`}
+                    tabIndex={-1}
+                />
+                <div className="flex-grow overflow-hidden">
+                    <div className="flex justify-between items-start gap-2">
+                        <button
+                            id={`note-title-${note.id}`}
+                            className="font-semibold text-lg text-blue-300 truncate pr-2 text-left hover:underline focus:outline-none focus:ring-2 focus:ring-blue-400 rounded-sm"
+                            onClick={(e) => {
+                                e.stopPropagation(); // Prevent row selection handler
+                                onSelectNote(note.id);
+                            }}
+                        >
+                            {getNoteTitle(note.refinedNote)}
+                        </button>
+                        {note.processingStatus === 'unprocessed' && (
+                            <span className="flex-shrink-0 bg-yellow-800/60 text-yellow-300 text-xs font-medium px-2 py-1 rounded-full mt-1" title="This note is waiting for AI analysis.">
+                                Pending AI
+                            </span>
+                        )}
+                        {allTasksCompleted && (
+                            <span className="flex-shrink-0 flex items-center gap-1 bg-green-800/60 text-green-300 text-xs font-medium px-2 py-1 rounded-full mt-1" title="All action items in this note are complete.">
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+                                    <path strokeLinecap="round" strokeLinejoin="round" d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+                                </svg>
+                                <span>Complete</span>
+                            </span>
+                        )}
+                    </div>
+                    <p className="text-sm text-gray-400">{new Date(note.createdAt).toLocaleString()}</p>
+
+                    {passages ? (
+                    <div className="mt-2 text-sm space-y-1">
+                        {passages.map((passage, index) => (
+                            <p key={index} className="text-gray-300 break-words border-l-2 border-blue-500/50 pl-2">
+                                <HighlightedPassage passage={passage} />
+                            </p>
+                        ))}
+                    </div>
+                    ) : (
+                    <div className={`mt-2 text-sm transition-all duration-300 ease-in-out ${isExpanded ? 'max-h-96 overflow-y-auto' : ''}`}>
+                        <div className="prose prose-invert max-w-none prose-p:my-1 prose-li:my-0.5 text-gray-400 break-words">
+                            {renderMarkdownPreview(previewContent)}
+                        </div>
+                        {needsTruncation && (
+                            <button 
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    setExpandedNoteId(isExpanded ? null : note.id);
+                                }}
+                                className="text-blue-400 text-sm font-semibold mt-2 hover:underline focus:outline-none"
+                            >
+                                {isExpanded ? 'Show Less' : 'Read More'}
+                            </button>
+                        )}
+                    </div>
+                    )}
+                </div>
+            </div>
+        );
+    };
 
     return (
         <div className="w-full text-left animate-fade-in space-y-4 relative pb-24">
@@ -65,12 +310,13 @@ const NotesList: React.FC<NotesListProps> = ({ notes, onSelectNote, onCreateNew,
 
             {/* Search Bar: Only show if there are notes to search through */}
             {notes.length > 0 && (
-                <div className="relative mb-4">
+                <>
+                <div className="relative mb-2">
                     <input
                         type="text"
                         value={searchQuery}
                         onChange={(e) => setSearchQuery(e.target.value)}
-                        placeholder="Search notes by keyword..."
+                        placeholder="Search notes, e.g. budget emotion:frustration after:2026-01-01 has:tasks"
                         className="w-full bg-gray-900/50 text-gray-200 placeholder-gray-500 rounded-lg py-2 pl-10 pr-4 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
                         aria-label="Search notes"
                     />
@@ -79,7 +325,17 @@ const NotesList: React.FC<NotesListProps> = ({ notes, onSelectNote, onCreateNew,
                             <path strokeLinecap="round" strokeLinejoin="round" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
                         </svg>
                     </div>
+                    {isSearching && (
+                        <span className="absolute inset-y-0 right-0 flex items-center pr-3 text-xs text-gray-500">Searching...</span>
+                    )}
                 </div>
+                <NoteFilterBar
+                    query={parsedQuery}
+                    onChange={handleFiltersChange}
+                    emotionOptions={emotionOptions}
+                    tagOptions={tagOptions}
+                />
+                </>
             )}
             
             {notes.length === 0 ? (
@@ -91,84 +347,30 @@ const NotesList: React.FC<NotesListProps> = ({ notes, onSelectNote, onCreateNew,
                 <div className="text-center text-gray-400 py-12">
                     <h3 className="text-xl font-semibold text-gray-300 mb-2">No Matches Found</h3>
                     <p>Try a different search term.</p>
+                    {/* The filters may only match notes further back than the loaded pages */}
+                    {canLoadMore && (
+                        <button
+                            onClick={handleLoadMore}
+                            disabled={isLoadingMore}
+                            className="mt-4 text-blue-400 hover:underline focus:outline-none disabled:opacity-50"
+                        >
+                            Look through older notes
+                        </button>
+                    )}
                 </div>
             ) : (
-                <ul className="space-y-3">
-                    {filteredNotes.map(note => {
-                        const allTasksCompleted = note.actionItems?.length > 0 && note.actionItems.every(item => item.completed);
-                        const isSelected = selectedNoteIds.includes(note.id);
-                        const isExpanded = expandedNoteId === note.id;
-                        const TRUNCATE_LENGTH = 180;
-                        const needsTruncation = note.refinedNote.length > TRUNCATE_LENGTH;
-
-                        let previewContent = note.refinedNote;
-                        if (needsTruncation && !isExpanded) {
-                            const lastSpace = note.refinedNote.lastIndexOf(' ', TRUNCATE_LENGTH);
-                            previewContent = note.refinedNote.substring(0, lastSpace > 0 ? lastSpace : TRUNCATE_LENGTH) + '...';
-                        }
-                        
-                        return (
-                            <li 
-                                key={note.id}
-                                onClick={() => handleNoteSelection(note.id)}
-                                className={`p-4 rounded-lg cursor-pointer transition-all duration-200 flex items-start gap-4 ${isSelected ? 'bg-blue-900/50 ring-2 ring-blue-500' : 'bg-gray-900/50 hover:bg-gray-800/80'}`}
-                                role="checkbox"
-                                tabIndex={0}
-                                aria-checked={isSelected}
-                                onKeyDown={(e) => (e.key === 'Enter' || e.key === ' ') && handleNoteSelection(note.id)}
-                            >
-                                 <input
-                                    type="checkbox"
-                                    checked={isSelected}
-                                    readOnly
-                                    className="h-5 w-5 rounded border-gray-500 text-blue-500 bg-gray-700 focus:ring-blue-600 focus:ring-offset-gray-900 mt-1 flex-shrink-0 pointer-events-none"
-                                    aria-labelledby={`note-title-${note.id}`}
-                                    tabIndex={-1}
-                                />
-                                <div className="flex-grow overflow-hidden">
-                                    <div className="flex justify-between items-start gap-2">
-                                        <button
-                                            id={`note-title-${note.id}`}
-                                            className="font-semibold text-lg text-blue-300 truncate pr-2 text-left hover:underline focus:outline-none focus:ring-2 focus:ring-blue-400 rounded-sm"
-                                            onClick={(e) => {
-                                                e.stopPropagation(); // Prevent li selection handler
-                                                onSelectNote(note.id);
-                                            }}
-                                        >
-                                            {note.refinedNote.split('\n')[0].replace(/^#\s*/, '') || 'Untitled Note'}
-                                        </button>
-                                        {allTasksCompleted && (
-                                            <span className="flex-shrink-0 flex items-center gap-1 bg-green-800/60 text-green-300 text-xs font-medium px-2 py-1 rounded-full mt-1" title="All action items in this note are complete.">
-                                                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
-                                                    <path strokeLinecap="round" strokeLinejoin="round" d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
-                                                </svg>
-                                                <span>Complete</span>
-                                            </span>
-                                        )}
-                                    </div>
-                                    <p className="text-sm text-gray-400">{new Date(note.createdAt).toLocaleString()}</p>
-                                    
-                                    <div className={`mt-2 text-sm transition-all duration-300 ease-in-out ${isExpanded ? 'max-h-96 overflow-y-auto' : ''}`}>
-                                        <div className="prose prose-invert max-w-none prose-p:my-1 prose-li:my-0.5 text-gray-400 break-words">
-                                            {renderMarkdownPreview(previewContent)}
-                                        </div>
-                                        {needsTruncation && (
-                                            <button 
-                                                onClick={(e) => {
-                                                    e.stopPropagation();
-                                                    setExpandedNoteId(isExpanded ? null : note.id);
-                                                }}
-                                                className="text-blue-400 text-sm font-semibold mt-2 hover:underline focus:outline-none"
-                                            >
-                                                {isExpanded ? 'Show Less' : 'Read More'}
-                                            </button>
-                                        )}
-                                    </div>
-                                </div>
-                            </li>
-                        );
-                    })}
-                </ul>
+                <VirtualList
+                    items={filteredNotes}
+                    getKey={noteKey}
+                    renderItem={renderNote}
+                    estimatedItemHeight={ESTIMATED_NOTE_HEIGHT}
+                    gap={12}
+                    // Handed back once a page has loaded, so the list checks again whether its end is still in view
+                    onEndReached={canLoadMore && !isLoadingMore ? handleLoadMore : undefined}
+                />
+            )}
+            {isLoadingMore && (
+                <p className="text-center text-sm text-gray-500 py-2" aria-live="polite">Loading older notes...</p>
             )}
             {selectedNoteIds.length > 0 && (
                 <div className="fixed bottom-0 left-0 right-0 sm:left-auto sm:right-auto sm:bottom-8 bg-gray-900/80 backdrop-blur-sm border-t sm:border border-gray-700 p-4 sm:rounded-xl shadow-2xl w-full sm:w-auto animate-fade-in">
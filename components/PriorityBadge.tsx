@@ -0,0 +1,20 @@
+import React from 'react';
+import type { Priority } from '../types';
+
+const PRIORITY_STYLES: Record<Priority, string> = {
+    P1: 'bg-red-900/70 text-red-300',
+    P2: 'bg-orange-900/60 text-orange-300',
+    P3: 'bg-blue-900/60 text-blue-300',
+    P4: 'bg-gray-700 text-gray-400',
+};
+
+const PriorityBadge: React.FC<{ priority?: Priority }> = ({ priority }) => {
+    if (!priority) return null;
+    return (
+        <span className={`px-1.5 py-0.5 text-xs font-semibold rounded flex-shrink-0 ${PRIORITY_STYLES[priority]}`}>
+            {priority}
+        </span>
+    );
+};
+
+export default PriorityBadge;
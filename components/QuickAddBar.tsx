@@ -0,0 +1,92 @@
+import React, { useMemo, useState } from 'react';
+import { parseQuickAdd } from '../services/quickAdd';
+import { describeRecurrence } from '../services/recurrence';
+import type { NewTask } from '../services/tasksService';
+import PriorityBadge from './PriorityBadge';
+
+interface QuickAddBarProps {
+    onAdd: (task: NewTask) => Promise<boolean>;
+}
+
+const formatDueDate = (dueDate: string): string => {
+    const [year, month, day] = dueDate.split('-').map(Number);
+    const date = new Date(year, month - 1, day);
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const days = Math.round((date.getTime() - today.getTime()) / (24 * 60 * 60 * 1000));
+    if (days === 0) return 'Today';
+    if (days === 1) return 'Tomorrow';
+    return date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+};
+
+const QuickAddBar: React.FC<QuickAddBarProps> = ({ onAdd }) => {
+    const [input, setInput] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const parsed = useMemo(() => (input.trim() ? parseQuickAdd(input) : null), [input]);
+    const canSave = !!parsed?.text && !isSaving;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!parsed || !canSave) return;
+
+        setIsSaving(true);
+        const saved = await onAdd({
+            text: parsed.text,
+            dueDate: parsed.dueDate,
+            time: parsed.time,
+            recurrence: parsed.recurrence,
+            tags: parsed.tags,
+            priority: parsed.priority,
+        });
+        setIsSaving(false);
+        if (saved) setInput('');
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="w-full max-w-5xl mb-6">
+            <div className="flex gap-2">
+                <input
+                    type="text"
+                    value={input}
+                    onChange={(e) => setInput(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Escape') setInput(''); }}
+                    placeholder='Quick add: "call Sam tomorrow at 3pm every week #work !high"'
+                    className="flex-grow bg-gray-800 border border-gray-700 rounded-lg px-4 py-2.5 text-gray-200 placeholder-gray-500 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                    aria-label="Quick add a task"
+                />
+                <button
+                    type="submit"
+                    disabled={!canSave}
+                    className="px-4 py-2 text-sm font-medium rounded-lg bg-blue-600 text-white hover:bg-blue-500 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {isSaving ? 'Adding...' : 'Add'}
+                </button>
+            </div>
+            {parsed && (
+                <div className="mt-2 flex flex-wrap items-center gap-2 text-xs" aria-live="polite">
+                    <span className={parsed.text ? 'text-gray-200' : 'text-gray-500 italic'}>
+                        {parsed.text || 'No task text yet'}
+                    </span>
+                    <span className={`px-1.5 py-0.5 rounded ${parsed.dateMatched ? 'bg-blue-900/70 text-blue-300' : 'bg-gray-700 text-gray-400'}`}>
+                        {formatDueDate(parsed.dueDate)}
+                    </span>
+                    {parsed.time && (
+                        <span className="px-1.5 py-0.5 bg-blue-900/70 text-blue-300 rounded font-mono">{parsed.time}</span>
+                    )}
+                    {parsed.recurrence && (
+                        <span className="px-1.5 py-0.5 bg-teal-900/60 text-teal-300 rounded">
+                            {describeRecurrence(parsed.recurrence, parsed.dueDate)}
+                        </span>
+                    )}
+                    <PriorityBadge priority={parsed.priority} />
+                    {parsed.tags.map(tag => (
+                        <span key={tag} className="px-1.5 py-0.5 rounded-full bg-gray-700 text-gray-300">#{tag}</span>
+                    ))}
+                </div>
+            )}
+        </form>
+    );
+};
+
+export default QuickAddBar;
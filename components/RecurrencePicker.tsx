@@ -0,0 +1,105 @@
+import React, { useState, useEffect } from 'react';
+import { parseRecurrence, formatRecurrence, describeRecurrence, WEEKDAY_CODES } from '../services/recurrence';
+
+interface RecurrencePickerProps {
+    value?: string;
+    anchor: string; // The item's due date (YYYY-MM-DD), which the rule repeats from
+    onChange: (recurrence: string | undefined) => void;
+}
+
+type Mode = 'none' | 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'custom';
+
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+// Shown Monday first, matching how the rules count weeks
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+// Simple rules get their own controls; anything else is edited as raw RRULE text
+const getMode = (value?: string): Mode => {
+    const rule = parseRecurrence(value);
+    if (!rule) return 'none';
+    if (rule.interval > 1 || rule.until || rule.byMonthDay) return 'custom';
+    return rule.freq;
+};
+
+const RecurrencePicker: React.FC<RecurrencePickerProps> = ({ value, anchor, onChange }) => {
+    const [mode, setMode] = useState<Mode>(getMode(value));
+    const [customText, setCustomText] = useState(value ?? '');
+    const rule = parseRecurrence(value);
+
+    useEffect(() => {
+        setMode(current => (current === 'custom' && value ? 'custom' : getMode(value)));
+        setCustomText(value ?? '');
+    }, [value]);
+
+    const handleModeChange = (newMode: Mode) => {
+        setMode(newMode);
+        if (newMode === 'none') {
+            onChange(undefined);
+        } else if (newMode !== 'custom') {
+            onChange(formatRecurrence({ freq: newMode, interval: 1 }));
+        }
+    };
+
+    const toggleWeekday = (day: number) => {
+        const anchorDay = new Date(`${anchor}T00:00:00`).getDay();
+        const current = rule?.byDay ?? (Number.isNaN(anchorDay) ? [] : [anchorDay]);
+        const byDay = current.includes(day) ? current.filter(d => d !== day) : [...current, day];
+        // At least one day has to stay selected
+        if (byDay.length === 0) return;
+        onChange(formatRecurrence({ freq: 'WEEKLY', interval: 1, byDay }));
+    };
+
+    const customRule = parseRecurrence(customText);
+    const customIsValid = !!customRule;
+    const selectedDays = rule?.byDay ?? [new Date(`${anchor}T00:00:00`).getDay()];
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            <select
+                value={mode}
+                onChange={(e) => handleModeChange(e.target.value as Mode)}
+                className="bg-gray-700 text-gray-300 text-sm rounded border border-gray-600 focus:ring-1 focus:ring-blue-500 focus:outline-none p-1.5"
+                aria-label="Repeat"
+            >
+                <option value="none">Does not repeat</option>
+                <option value="DAILY">Daily</option>
+                <option value="WEEKLY">Weekly</option>
+                <option value="MONTHLY">Monthly</option>
+                <option value="custom">Custom…</option>
+            </select>
+            {mode === 'WEEKLY' && (
+                <div className="flex gap-1" role="group" aria-label="Repeat on">
+                    {WEEKDAY_ORDER.map(day => (
+                        <button
+                            key={day}
+                            type="button"
+                            onClick={() => toggleWeekday(day)}
+                            aria-pressed={selectedDays.includes(day)}
+                            aria-label={WEEKDAY_CODES[day]}
+                            className={`h-7 w-7 rounded-full text-xs font-semibold transition-colors ${selectedDays.includes(day) ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-400 hover:bg-gray-600'}`}
+                        >
+                            {WEEKDAY_LABELS[day]}
+                        </button>
+                    ))}
+                </div>
+            )}
+            {mode === 'custom' && (
+                <input
+                    type="text"
+                    value={customText}
+                    onChange={(e) => setCustomText(e.target.value)}
+                    onBlur={() => { if (customRule) onChange(formatRecurrence(customRule)); }}
+                    placeholder="FREQ=MONTHLY;BYMONTHDAY=1"
+                    className={`bg-gray-700 text-gray-300 text-sm font-mono rounded border p-1.5 w-56 focus:outline-none focus:ring-1 ${customText && !customIsValid ? 'border-red-500 focus:ring-red-500' : 'border-gray-600 focus:ring-blue-500'}`}
+                    aria-label="Custom repeat rule"
+                    aria-invalid={!!customText && !customIsValid}
+                />
+            )}
+            {rule && (
+                <span className="text-xs text-gray-400">{describeRecurrence(value, anchor)}</span>
+            )}
+        </div>
+    );
+};
+
+export default RecurrencePicker;
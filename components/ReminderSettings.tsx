@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import * as reminderService from '../services/reminderService';
+
+const formatLeadTime = (minutes: number): string =>
+    minutes === 0 ? 'At the due time' : minutes === 60 ? '1 hour before' : `${minutes} minutes before`;
+
+const ReminderSettings: React.FC = () => {
+    const [permission, setPermission] = useState<NotificationPermission>(reminderService.getPermission());
+    const [leadMinutes, setLeadMinutes] = useState<number>(reminderService.getLeadMinutes());
+
+    if (!reminderService.isReminderSupported()) {
+        return null;
+    }
+
+    const handleEnable = async () => {
+        setPermission(await reminderService.requestPermission());
+    };
+
+    const handleLeadTimeChange = (minutes: number) => {
+        setLeadMinutes(minutes);
+        reminderService.setLeadMinutes(minutes);
+    };
+
+    return (
+        <div className="w-full bg-gray-900/50 border border-gray-700/50 rounded-lg p-4 flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-center gap-2 text-gray-300">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+                </svg>
+                <span className="font-medium">Reminders for timed tasks</span>
+            </div>
+            {permission === 'granted' ? (
+                <select
+                    value={leadMinutes}
+                    onChange={(e) => handleLeadTimeChange(Number(e.target.value))}
+                    className="bg-gray-700 text-gray-300 text-sm rounded border border-gray-600 focus:ring-1 focus:ring-blue-500 focus:outline-none p-1.5"
+                    aria-label="When to remind me"
+                >
+                    {reminderService.LEAD_TIME_OPTIONS.map(minutes => (
+                        <option key={minutes} value={minutes}>{formatLeadTime(minutes)}</option>
+                    ))}
+                </select>
+            ) : permission === 'denied' ? (
+                <span className="text-sm text-gray-500">Notifications are blocked in your browser settings.</span>
+            ) : (
+                <button
+                    onClick={handleEnable}
+                    className="px-3 py-1.5 text-sm font-medium rounded-md bg-blue-600 text-white hover:bg-blue-500 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-gray-800"
+                >
+                    Enable notifications
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default ReminderSettings;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import type { User } from '../types';
 import * as authService from '../services/authService';
+import CalendarFeedSettings from './CalendarFeedSettings';
 
 interface SettingsModalProps {
     isOpen: boolean;
@@ -259,6 +260,8 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, user, on
                         )}
                     </div>
 
+                    <CalendarFeedSettings />
+
                     <div className="pt-4 border-t border-gray-700">
                          <div className="flex items-center justify-between text-sm text-gray-400">
                             <span>Account Email</span>
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import type { ActionItem, Subtask } from '../types';
+import { createSubtask } from '../services/subtasks';
+import SubtaskList from './SubtaskList';
+
+interface SubtaskEditorProps {
+    item: ActionItem;
+    idPrefix: string;
+    onToggle: (subtaskId: string) => void;
+    onChange: (subtasks: Subtask[]) => void;
+    onSuggest?: () => Promise<string[]>;
+}
+
+// Subtasks of one action item in a note: check off, add, remove, or ask the AI to propose some
+const SubtaskEditor: React.FC<SubtaskEditorProps> = ({ item, idPrefix, onToggle, onChange, onSuggest }) => {
+    const subtasks = item.subtasks ?? [];
+    const [newText, setNewText] = useState('');
+    const [suggestions, setSuggestions] = useState<string[] | null>(null);
+    const [isSuggesting, setIsSuggesting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleAdd = () => {
+        if (!newText.trim()) return;
+        onChange([...subtasks, createSubtask(newText)]);
+        setNewText('');
+    };
+
+    const handleSuggest = async () => {
+        if (!onSuggest) return;
+        setIsSuggesting(true);
+        setError(null);
+        try {
+            const proposed = await onSuggest();
+            setSuggestions(proposed.length > 0 ? proposed : null);
+            if (proposed.length === 0) setError("The AI had no suggestions for this item.");
+        } catch (e: any) {
+            console.error(e);
+            setError(e.message || "Failed to get suggestions.");
+        } finally {
+            setIsSuggesting(false);
+        }
+    };
+
+    const acceptSuggestions = () => {
+        if (!suggestions) return;
+        onChange([...subtasks, ...suggestions.map(createSubtask)]);
+        setSuggestions(null);
+    };
+
+    return (
+        <div>
+            {subtasks.length > 0 && (
+                <SubtaskList
+                    subtasks={subtasks}
+                    idPrefix={idPrefix}
+                    onToggle={onToggle}
+                    onRemove={(subtaskId) => onChange(subtasks.filter(subtask => subtask.id !== subtaskId))}
+                />
+            )}
+
+            {suggestions && (
+                <div className="mt-2 p-3 rounded-md bg-blue-900/20 border border-blue-800/60">
+                    <p className="text-xs font-medium text-blue-300 mb-1.5">Suggested subtasks</p>
+                    <ol className="list-decimal list-inside space-y-0.5 text-sm text-gray-300">
+                        {suggestions.map((text, index) => <li key={index}>{text}</li>)}
+                    </ol>
+                    <div className="flex gap-2 mt-2">
+                        <button onClick={acceptSuggestions} className="px-2.5 py-1 text-xs font-medium rounded-md bg-blue-600 text-white hover:bg-blue-500 transition-colors">
+                            Add all
+                        </button>
+                        <button onClick={() => setSuggestions(null)} className="px-2.5 py-1 text-xs font-medium rounded-md bg-gray-700 text-gray-200 hover:bg-gray-600 transition-colors">
+                            Discard
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2 mt-2">
+                <input
+                    type="text"
+                    value={newText}
+                    onChange={(e) => setNewText(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                    placeholder="Add a subtask"
+                    className="bg-gray-700 text-gray-300 text-sm rounded border border-gray-600 focus:ring-1 focus:ring-blue-500 focus:outline-none p-1.5 w-56"
+                    aria-label={`New subtask for ${item.text}`}
+                />
+                {onSuggest && (
+                    <button
+                        onClick={handleSuggest}
+                        disabled={isSuggesting}
+                        className="px-2.5 py-1.5 text-xs font-medium rounded-md bg-gray-700 text-blue-300 hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isSuggesting ? 'Thinking...' : 'AI break this down'}
+                    </button>
+                )}
+            </div>
+            {error && <p className="text-xs text-red-300 mt-1">{error}</p>}
+        </div>
+    );
+};
+
+export default SubtaskEditor;
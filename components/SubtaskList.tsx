@@ -0,0 +1,46 @@
+import React from 'react';
+import type { Subtask } from '../types';
+
+interface SubtaskListProps {
+    subtasks: Subtask[];
+    idPrefix: string; // Keeps checkbox ids unique when the same item is listed twice
+    onToggle: (subtaskId: string) => void;
+    onRemove?: (subtaskId: string) => void;
+}
+
+// An item's subtasks as a checklist, indented under the parent
+const SubtaskList: React.FC<SubtaskListProps> = ({ subtasks, idPrefix, onToggle, onRemove }) => (
+    <ul className="mt-1.5 space-y-1 border-l border-gray-700 pl-3">
+        {subtasks.map(subtask => {
+            const id = `${idPrefix}-subtask-${subtask.id}`;
+            return (
+                <li key={subtask.id} className="flex items-center gap-2 group">
+                    <input
+                        id={id}
+                        type="checkbox"
+                        checked={subtask.completed}
+                        onChange={() => onToggle(subtask.id)}
+                        className="h-4 w-4 rounded border-gray-500 text-blue-500 bg-gray-700 focus:ring-blue-600 focus:ring-offset-gray-800 cursor-pointer flex-shrink-0"
+                    />
+                    <label
+                        htmlFor={id}
+                        className={`text-sm cursor-pointer break-words flex-grow min-w-0 ${subtask.completed ? 'text-gray-500 line-through' : 'text-gray-300'}`}
+                    >
+                        {subtask.text}
+                    </label>
+                    {onRemove && (
+                        <button
+                            onClick={() => onRemove(subtask.id)}
+                            className="text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity flex-shrink-0"
+                            aria-label={`Remove subtask ${subtask.text}`}
+                        >
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+                        </button>
+                    )}
+                </li>
+            );
+        })}
+    </ul>
+);
+
+export default SubtaskList;
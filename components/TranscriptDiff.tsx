@@ -0,0 +1,115 @@
+import React, { useMemo } from 'react';
+
+interface TranscriptDiffProps {
+    rawTranscript: string;
+    refinedNote: string;
+}
+
+type DiffPart = { type: 'same' | 'added' | 'removed'; text: string };
+
+// Beyond this many LCS cells the diff falls back to a plain before/after replacement
+const MAX_DIFF_CELLS = 4_000_000;
+
+const tokenize = (text: string): string[] => text.split(/\s+/).filter(Boolean);
+
+// Drop the markdown markers the AI adds so they don't show up as edits
+const stripMarkdown = (text: string): string =>
+    text.split('\n').map(line => line.trim().replace(/^#+\s*/, '').replace(/^\*\s+/, '')).join('\n');
+
+/**
+ * Computes a word-level diff between two texts using a longest common subsequence.
+ * @param before The original words.
+ * @param after The changed words.
+ * @returns Runs of unchanged, removed and added words, in reading order.
+ */
+const diffWords = (before: string[], after: string[]): DiffPart[] => {
+    // Common leading and trailing words don't need the quadratic table
+    let prefix = 0;
+    while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) prefix++;
+    let suffix = 0;
+    while (
+        suffix < before.length - prefix && suffix < after.length - prefix &&
+        before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+    ) suffix++;
+
+    const a = before.slice(prefix, before.length - suffix);
+    const b = after.slice(prefix, after.length - suffix);
+    const middle: DiffPart[] = [];
+
+    if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) {
+        middle.push({ type: 'removed', text: a.join(' ') }, { type: 'added', text: b.join(' ') });
+    } else {
+        const width = b.length + 1;
+        const lengths = new Uint32Array((a.length + 1) * width);
+        for (let i = a.length - 1; i >= 0; i--) {
+            for (let j = b.length - 1; j >= 0; j--) {
+                lengths[i * width + j] = a[i] === b[j]
+                    ? lengths[(i + 1) * width + j + 1] + 1
+                    : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+            }
+        }
+        let i = 0;
+        let j = 0;
+        while (i < a.length || j < b.length) {
+            if (i < a.length && j < b.length && a[i] === b[j]) {
+                middle.push({ type: 'same', text: a[i] });
+                i++; j++;
+            } else if (j < b.length && (i === a.length || lengths[i * width + j + 1] >= lengths[(i + 1) * width + j])) {
+                middle.push({ type: 'added', text: b[j] });
+                j++;
+            } else {
+                middle.push({ type: 'removed', text: a[i] });
+                i++;
+            }
+        }
+    }
+
+    const parts: DiffPart[] = [
+        ...before.slice(0, prefix).map(text => ({ type: 'same' as const, text })),
+        ...middle.filter(part => part.text),
+        ...before.slice(before.length - suffix).map(text => ({ type: 'same' as const, text })),
+    ];
+
+    // Merge neighbouring words of the same kind into a single run
+    return parts.reduce<DiffPart[]>((runs, part) => {
+        const last = runs[runs.length - 1];
+        if (last && last.type === part.type) {
+            last.text += ` ${part.text}`;
+        } else {
+            runs.push({ ...part });
+        }
+        return runs;
+    }, []);
+};
+
+const TranscriptDiff: React.FC<TranscriptDiffProps> = ({ rawTranscript, refinedNote }) => {
+    const parts = useMemo(
+        () => diffWords(tokenize(rawTranscript), tokenize(stripMarkdown(refinedNote))),
+        [rawTranscript, refinedNote]
+    );
+
+    return (
+        <div>
+            <p className="text-xs text-gray-400 mb-3">
+                <span className="px-1 rounded bg-red-900/60 text-red-300 line-through">Removed</span> from what you said,{' '}
+                <span className="px-1 rounded bg-green-900/60 text-green-300">added</span> by the AI.
+            </p>
+            <p className="text-gray-200 leading-relaxed">
+                {parts.map((part, index) => {
+                    const className = part.type === 'added'
+                        ? 'px-0.5 rounded bg-green-900/60 text-green-300'
+                        : part.type === 'removed'
+                            ? 'px-0.5 rounded bg-red-900/60 text-red-300 line-through'
+                            : undefined;
+                    return (
+                        <React.Fragment key={index}>
+                            <span className={className}>{part.text}</span>{' '}
+                        </React.Fragment>
+                    );
+                })}
+            </p>
+        </div>
+    );
+};
+
+export default TranscriptDiff;
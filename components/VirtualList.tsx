@@ -0,0 +1,119 @@
+import React, { useState, useEffect, useLayoutEffect, useRef, useMemo, useCallback } from 'react';
+
+// Rows rendered beyond each edge of the viewport, in pixels, so fast scrolling does not show gaps
+const OVERSCAN_PX = 800;
+
+interface VirtualListProps<T> {
+    items: T[];
+    getKey: (item: T) => string;
+    renderItem: (item: T) => React.ReactNode;
+    estimatedItemHeight: number; // Used for rows that have not been rendered yet
+    gap?: number; // Space below each row, in pixels
+    onEndReached?: () => void; // Called when the last row comes into view, and again when this callback changes while it is
+    className?: string;
+}
+
+/**
+ * A list that scrolls with the page but only renders the rows near the viewport,
+ * so thousands of rows stay cheap. Rows may have any height: each is measured once
+ * rendered, and spacers above and below stand in for the rows that are not.
+ */
+const VirtualList = <T,>({ items, getKey, renderItem, estimatedItemHeight, gap = 0, onEndReached, className }: VirtualListProps<T>) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const heightsRef = useRef(new Map<string, number>());
+    const [measureVersion, setMeasureVersion] = useState(0);
+    const [viewport, setViewport] = useState({ top: 0, bottom: typeof window === 'undefined' ? 0 : window.innerHeight });
+
+    // The viewport in the list's own coordinates
+    const updateViewport = useCallback(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const listTop = container.getBoundingClientRect().top;
+        setViewport(current => {
+            const top = -listTop;
+            const bottom = window.innerHeight - listTop;
+            return current.top === top && current.bottom === bottom ? current : { top, bottom };
+        });
+    }, []);
+
+    useLayoutEffect(() => {
+        updateViewport();
+        window.addEventListener('scroll', updateViewport, { passive: true });
+        window.addEventListener('resize', updateViewport);
+        return () => {
+            window.removeEventListener('scroll', updateViewport);
+            window.removeEventListener('resize', updateViewport);
+        };
+    }, [updateViewport]);
+
+    // Content above the list, e.g. a search bar, can change height without a scroll event
+    useLayoutEffect(updateViewport, [items, updateViewport]);
+
+    const resizeObserver = useMemo(() => typeof ResizeObserver === 'undefined' ? null : new ResizeObserver(entries => {
+        let changed = false;
+        entries.forEach(entry => {
+            const key = (entry.target as HTMLElement).dataset.key;
+            const height = (entry.target as HTMLElement).offsetHeight;
+            if (key && height > 0 && heightsRef.current.get(key) !== height) {
+                heightsRef.current.set(key, height);
+                changed = true;
+            }
+        });
+        if (changed) setMeasureVersion(version => version + 1);
+    }), []);
+
+    useEffect(() => () => resizeObserver?.disconnect(), [resizeObserver]);
+
+    const measureRow = useCallback((element: HTMLDivElement | null) => {
+        if (!element || !resizeObserver) return;
+        resizeObserver.observe(element);
+        return () => resizeObserver.unobserve(element);
+    }, [resizeObserver]);
+
+    // offsets[i] is where row i starts; offsets[items.length] is the total height
+    const offsets = useMemo(() => {
+        const result = new Array<number>(items.length + 1);
+        result[0] = 0;
+        items.forEach((item, index) => {
+            result[index + 1] = result[index] + (heightsRef.current.get(getKey(item)) ?? estimatedItemHeight + gap);
+        });
+        return result;
+    }, [items, getKey, estimatedItemHeight, gap, measureVersion]); // measureVersion changes whenever a row's measured height does
+
+    // The first row ending below the top edge, found by binary search
+    const findRow = (position: number): number => {
+        let low = 0;
+        let high = items.length;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            if (offsets[mid + 1] <= position) low = mid + 1;
+            else high = mid;
+        }
+        return low;
+    };
+
+    const start = findRow(viewport.top - OVERSCAN_PX);
+    const end = Math.min(items.length, findRow(viewport.bottom + OVERSCAN_PX) + 1);
+    const lastVisible = findRow(viewport.bottom);
+
+    useEffect(() => {
+        if (items.length > 0 && lastVisible >= items.length - 1) onEndReached?.();
+    }, [lastVisible, items.length, onEndReached]);
+
+    return (
+        <div ref={containerRef} className={className} role="list">
+            <div style={{ height: offsets[start] }} aria-hidden="true" />
+            {items.slice(start, end).map(item => {
+                const key = getKey(item);
+                return (
+                    <div key={key} ref={measureRow} data-key={key} style={{ paddingBottom: gap }} role="listitem">
+                        {renderItem(item)}
+                    </div>
+                );
+            })}
+            <div style={{ height: offsets[items.length] - offsets[end] }} aria-hidden="true" />
+        </div>
+    );
+};
+
+export default VirtualList;
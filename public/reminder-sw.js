@@ -0,0 +1,33 @@
+// Service worker for reminder notifications. The app decides when a reminder is
+// due and shows it through this worker's registration, which is what allows the
+// "Mark done" and "Snooze" buttons. Clicks are relayed back to an open tab, or
+// to a newly opened one through the URL when no tab is left.
+
+self.addEventListener('install', () => self.skipWaiting());
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('notificationclick', (event) => {
+    const action = event.action || 'open';
+    const reminder = event.notification.data;
+    event.notification.close();
+
+    event.waitUntil((async () => {
+        const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+        // Tell exactly one tab, so an action is never applied twice
+        const client = windows.find((w) => w.focused) || windows[0];
+
+        if (client) {
+            client.postMessage({ type: 'reminder-action', action, reminder });
+            if (action === 'open') await client.focus();
+            return;
+        }
+
+        const url = new URL(self.registration.scope);
+        url.searchParams.set('reminderAction', action);
+        url.searchParams.set('reminder', JSON.stringify(reminder));
+        await self.clients.openWindow(url.href);
+    })());
+});
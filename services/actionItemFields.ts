@@ -0,0 +1,65 @@
+import { toggleOccurrence } from './recurrence';
+import type { ActionItem, ActionItemStatus, Priority } from '../types';
+
+// Priority, tags and board status for action items and tasks.
+
+export const PRIORITIES: Priority[] = ['P1', 'P2', 'P3', 'P4'];
+
+export const STATUS_OPTIONS: { id: ActionItemStatus; label: string }[] = [
+    { id: 'todo', label: 'To Do' },
+    { id: 'in_progress', label: 'In Progress' },
+    { id: 'blocked', label: 'Blocked' },
+    { id: 'done', label: 'Done' },
+];
+
+export const normalizePriority = (value: string | undefined): Priority | undefined => {
+    const priority = value?.trim().toUpperCase();
+    return PRIORITIES.includes(priority as Priority) ? (priority as Priority) : undefined;
+};
+
+/**
+ * Cleans up tags typed by the user or read from storage.
+ * @param tags A list of tags, or one comma or space separated string.
+ * @returns Lowercase tags without '#', duplicates removed, in their original order.
+ */
+export const normalizeTags = (tags: string[] | string | undefined): string[] => {
+    const list = typeof tags === 'string' ? tags.split(/[,\s]+/) : tags ?? [];
+    return Array.from(new Set(list.map(tag => tag.trim().replace(/^#+/, '').toLowerCase()).filter(Boolean)));
+};
+
+// Items saved before statuses existed only have `completed`
+export const getStatus = (item: ActionItem): ActionItemStatus => {
+    if (item.completed) return 'done';
+    return item.status && item.status !== 'done' ? item.status : 'todo';
+};
+
+/**
+ * Moves an item to a board column. Moving an open recurring item to 'done'
+ * completes its current occurrence, so it comes back as 'todo' on the next one.
+ * @returns The updated item.
+ */
+export const withStatus = <T extends ActionItem>(item: T, status: ActionItemStatus): T => {
+    if (status !== 'done') return { ...item, completed: false, status };
+    if (item.completed) return { ...item, status };
+    const toggled = toggleOccurrence(item);
+    return { ...toggled, status: toggled.completed ? 'done' : 'todo' };
+};
+
+// P1 first; items without a priority sort last
+export const comparePriority = (a: ActionItem, b: ActionItem): number =>
+    (a.priority ?? 'P9').localeCompare(b.priority ?? 'P9');
+
+// The fields users edit from the board and note cards
+export type ActionItemDetails = Partial<Pick<ActionItem, 'priority' | 'tags' | 'status'>>;
+
+/**
+ * Applies edited details to an item. A 'priority' or 'tags' key set to
+ * undefined clears that field; status changes go through withStatus.
+ */
+export const applyDetails = <T extends ActionItem>(item: T, details: ActionItemDetails): T => {
+    let updated: T = { ...item };
+    if ('priority' in details) updated.priority = normalizePriority(details.priority);
+    if ('tags' in details) updated.tags = normalizeTags(details.tags);
+    if (details.status) updated = withStatus(updated, details.status);
+    return updated;
+};
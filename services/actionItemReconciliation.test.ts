@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import type { ActionItem, AIActionItem } from '../types';
+import { reconcileActionItems, textSimilarity } from './actionItemReconciliation';
+
+const existingItem = (id: string, text: string, fields: Partial<ActionItem> = {}): ActionItem => ({ id, text, completed: false, dueDate: '2026-10-19', ...fields });
+
+const aiItem = (text: string, fields: Partial<AIActionItem> = {}): AIActionItem => ({ text, dueDate: '2026-10-21', ...fields });
+
+describe('textSimilarity', () => {
+    it.each([
+        ['Email Sam about the budget', 'email sam, budget!', 1],
+        ['Email Sam about the budget', 'Email Sam about the budget report', 6 / 7],
+        ['Buy milk', 'Call the dentist', 0],
+        // Only filler words: compared as written
+        ['The', ' the ', 1],
+        ['To', 'Or', 0],
+    ])('scores "%s" against "%s" as %d', (a, b, score) => {
+        expect(textSimilarity(a, b)).toBeCloseTo(score);
+    });
+});
+
+describe('reconcileActionItems', () => {
+    it('keeps what the user set on a reworded item', () => {
+        const existing = [existingItem('a', 'Email Sam about the budget', {
+            completed: true,
+            time: '09:00',
+            tags: ['work'],
+            status: 'done',
+            subtasks: [{ id: 's', text: 'Attach report', completed: true }],
+        })];
+
+        const { items, changes } = reconcileActionItems(existing, [aiItem('Email Sam the budget')]);
+
+        expect(items).toEqual([{ ...existing[0], text: 'Email Sam the budget', dueDate: '2026-10-21', recurrence: undefined, priority: undefined }]);
+        expect(changes).toBeNull();
+    });
+
+    it('keeps a date picked by hand but takes the AI date otherwise', () => {
+        const existing = [
+            existingItem('a', 'Book flights', { dueDateOverridden: true }),
+            existingItem('b', 'Renew passport'),
+        ];
+
+        const { items } = reconcileActionItems(existing, [aiItem('Book flights'), aiItem('Renew passport')]);
+
+        expect(items.map(item => item.dueDate)).toEqual(['2026-10-19', '2026-10-21']);
+    });
+
+    it('keeps an existing repeat rule and priority, and cleans up new ones from the AI', () => {
+        const existing = [
+            existingItem('a', 'Water plants', { recurrence: 'FREQ=WEEKLY', priority: 'P3' }),
+            existingItem('b', 'Pay rent'),
+        ];
+
+        const { items } = reconcileActionItems(existing, [
+            aiItem('Water plants', { recurrence: 'FREQ=DAILY', priority: 'P1' }),
+            aiItem('Pay rent', { recurrence: 'rrule:freq=monthly;interval=1', priority: ' p2 ' }),
+            aiItem('Call mom', { recurrence: 'FREQ=HOURLY', priority: 'urgent' }),
+        ]);
+
+        expect(items.map(({ recurrence, priority }) => [recurrence, priority])).toEqual([
+            ['FREQ=WEEKLY', 'P3'],
+            ['FREQ=MONTHLY', 'P2'],
+            [undefined, undefined],
+        ]);
+    });
+
+    it('pairs the most similar items first, whatever their order', () => {
+        const existing = [existingItem('a', 'Email Sam about the budget')];
+
+        const { items, changes } = reconcileActionItems(existing, [aiItem('Email Sam about the budget report'), aiItem('Email Sam about the budget')]);
+
+        expect(items[1].id).toBe('a');
+        expect(changes).toEqual({ addedIds: [items[0].id], removed: [] });
+    });
+
+    it('matches each existing item only once', () => {
+        const { items } = reconcileActionItems([existingItem('a', 'Call mom')], [aiItem('Call mom'), aiItem('Call mom')]);
+
+        expect(items[0].id).toBe('a');
+        expect(items[1].id).not.toBe('a');
+    });
+
+    it('reports items added and removed when the tasks changed', () => {
+        const existing = [existingItem('a', 'Buy milk'), existingItem('b', 'Call the dentist', { completed: true })];
+
+        const { items, changes } = reconcileActionItems(existing, [aiItem('Call the dentist'), aiItem('Walk the dog')]);
+
+        expect(items.map(item => [item.text, item.completed])).toEqual([['Call the dentist', true], ['Walk the dog', false]]);
+        expect(changes).toEqual({ addedIds: [items[1].id], removed: [existing[0]] });
+    });
+
+    it('reports no changes on the first analysis', () => {
+        const { items, changes } = reconcileActionItems([], [aiItem('Buy milk')]);
+
+        expect(items).toEqual([expect.objectContaining({ text: 'Buy milk', completed: false, id: expect.any(String) })]);
+        expect(changes).toBeNull();
+    });
+});
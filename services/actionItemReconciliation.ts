@@ -0,0 +1,90 @@
+import type { ActionItem, AIActionItem, ActionItemChanges } from '../types';
+import { normalizeRecurrence } from './recurrence';
+import { normalizePriority } from './actionItemFields';
+
+// Below this similarity an AI item is treated as a new task rather than a rewording
+const MATCH_THRESHOLD = 0.6;
+
+const STOP_WORDS = new Set(['a', 'an', 'the', 'to', 'for', 'of', 'on', 'in', 'at', 'and', 'or', 'with', 'about', 'my', 'our']);
+
+const toWords = (text: string): Set<string> =>
+    new Set(text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(word => word && !STOP_WORDS.has(word)));
+
+/**
+ * Scores how alike two task descriptions are, ignoring case, punctuation and filler words.
+ * @returns The Dice coefficient of their word sets, from 0 (unrelated) to 1 (same words).
+ */
+export const textSimilarity = (a: string, b: string): number => {
+    const wordsA = toWords(a);
+    const wordsB = toWords(b);
+    if (wordsA.size === 0 || wordsB.size === 0) {
+        return a.trim().toLowerCase() === b.trim().toLowerCase() ? 1 : 0;
+    }
+    let shared = 0;
+    wordsA.forEach(word => { if (wordsB.has(word)) shared++; });
+    return (2 * shared) / (wordsA.size + wordsB.size);
+};
+
+export interface ReconciledActionItems {
+    items: ActionItem[];
+    changes: ActionItemChanges | null;
+}
+
+/**
+ * Merges freshly extracted AI action items into a note's existing ones.
+ * Each AI item is paired with the most similar existing item (best pairs first);
+ * a paired item keeps its id, completion, time, recurrence, tags, status and any date
+ * or priority the user set by hand.
+ * @param existing The note's current action items.
+ * @param incoming The action items from the new AI analysis, in the order to display.
+ * @returns The merged items, plus which were added and removed (null when there was nothing to compare against).
+ */
+export const reconcileActionItems = (existing: ActionItem[], incoming: AIActionItem[]): ReconciledActionItems => {
+    const candidates: { existingIndex: number; incomingIndex: number; score: number }[] = [];
+    existing.forEach((oldItem, existingIndex) => {
+        incoming.forEach((newItem, incomingIndex) => {
+            const score = textSimilarity(oldItem.text, newItem.text);
+            if (score >= MATCH_THRESHOLD) {
+                candidates.push({ existingIndex, incomingIndex, score });
+            }
+        });
+    });
+    candidates.sort((a, b) => b.score - a.score);
+
+    const matchFor = new Map<number, ActionItem>();
+    const matchedExisting = new Set<number>();
+    candidates.forEach(({ existingIndex, incomingIndex }) => {
+        if (matchFor.has(incomingIndex) || matchedExisting.has(existingIndex)) return;
+        matchFor.set(incomingIndex, existing[existingIndex]);
+        matchedExisting.add(existingIndex);
+    });
+
+    const addedIds: string[] = [];
+    const items = incoming.map((newItem, incomingIndex): ActionItem => {
+        const match = matchFor.get(incomingIndex);
+        if (!match) {
+            const added: ActionItem = {
+                id: crypto.randomUUID(),
+                text: newItem.text,
+                dueDate: newItem.dueDate,
+                recurrence: normalizeRecurrence(newItem.recurrence),
+                priority: normalizePriority(newItem.priority),
+                completed: false
+            };
+            addedIds.push(added.id);
+            return added;
+        }
+        return {
+            ...match,
+            text: newItem.text,
+            dueDate: match.dueDateOverridden ? match.dueDate : newItem.dueDate,
+            recurrence: match.recurrence ?? normalizeRecurrence(newItem.recurrence),
+            priority: match.priority ?? normalizePriority(newItem.priority),
+        };
+    });
+
+    const removed = existing.filter((_, index) => !matchedExisting.has(index));
+    const hasChanges = existing.length > 0 && (addedIds.length > 0 || removed.length > 0);
+
+    return { items, changes: hasChanges ? { addedIds, removed } : null };
+};
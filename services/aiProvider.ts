@@ -0,0 +1,50 @@
+import { supabaseUrl } from './supabaseClient';
+import { proxyAIProvider } from './proxyAIProvider';
+import { mockAIProvider } from './mockAIProvider';
+import type { AIProvider } from '../supabase/functions/_shared/aiProvider.ts';
+
+// The provider contract lives with the Edge Functions, which implement it with Gemini
+export { MAX_EMBED_TEXTS } from '../supabase/functions/_shared/aiProvider.ts';
+export type {
+    AIProvider,
+    ChatNote,
+    ChatStreamChunk,
+    ContextChunk,
+    EmbeddingPurpose,
+    Embeddings,
+} from '../supabase/functions/_shared/aiProvider.ts';
+
+export type AIProviderName = 'proxy' | 'mock';
+
+let provider: AIProvider | null = null;
+
+/**
+ * Resolves which provider to use from the AI_PROVIDER setting.
+ * Without an explicit setting, the server-side proxy is used when Supabase is
+ * configured and the offline mock otherwise, so the app still runs offline.
+ * @throws If AI_PROVIDER names a provider that does not exist, e.g. a typo.
+ */
+export const getConfiguredProviderName = (): AIProviderName => {
+    const configured = (process.env.AI_PROVIDER || '').trim().toLowerCase();
+    if (configured === 'proxy' || configured === 'mock') return configured;
+    if (configured) {
+        throw new Error(`Unknown AI_PROVIDER "${configured}". Use "proxy" or "mock".`);
+    }
+    if (supabaseUrl) return 'proxy';
+    console.warn("AI_PROVIDER is not set and Supabase is not configured, so notes are processed by the offline mock AI provider.");
+    return 'mock';
+};
+
+// Returns the active provider, resolving it from config on first use
+export const getAIProvider = (): AIProvider => {
+    if (provider) return provider;
+
+    const name = getConfiguredProviderName();
+    if (name === 'proxy') {
+        provider = proxyAIProvider;
+    } else {
+        console.info("Using the offline mock AI provider.");
+        provider = mockAIProvider;
+    }
+    return provider;
+};
@@ -0,0 +1,134 @@
+import { supabase } from './supabaseClient';
+import * as syncService from './syncService';
+import type { TranscriptSegment } from '../types';
+
+const AUDIO_BUCKET = 'note-audio';
+
+// How long a playback link stays valid. The bucket is private, so recordings
+// are only reachable through links like this, signed for their owner.
+const SIGNED_URL_SECONDS = 60 * 60;
+
+// Notes saved while the bucket was public stored the full public URL; the
+// object path is what follows the bucket name
+const toObjectPath = (audioPath: string): string =>
+    audioPath.replace(new RegExp(`^.*/storage/v1/object/public/${AUDIO_BUCKET}/`), '');
+
+// The finished recording. startedAt is the performance.now() timestamp
+// at which MediaRecorder started, used to line up transcript timings.
+export interface RecordedAudio {
+    blob: Blob;
+    startedAt: number;
+}
+
+// A running MediaRecorder capture. Calling stop() releases the microphone
+// and resolves with the recorded audio, or null if nothing was captured.
+export interface AudioCapture {
+    stop: () => Promise<RecordedAudio | null>;
+}
+
+// A final speech recognition result and when it arrived (performance.now())
+export interface TimedSpeechResult {
+    text: string;
+    finalizedAt: number;
+}
+
+export const isAudioCaptureSupported = (): boolean => {
+    return typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+};
+
+// Start recording from the microphone. Runs alongside SpeechRecognition,
+// which does not expose the audio it listens to.
+export const startAudioCapture = async (): Promise<AudioCapture | null> => {
+    if (!isAudioCaptureSupported()) return null;
+
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+
+    recorder.ondataavailable = (event: BlobEvent) => {
+        if (event.data.size > 0) {
+            chunks.push(event.data);
+        }
+    };
+    recorder.start();
+    const startedAt = performance.now();
+
+    const buildRecording = (): RecordedAudio | null => {
+        stream.getTracks().forEach(track => track.stop());
+        if (chunks.length === 0) return null;
+        return { blob: new Blob(chunks, { type: recorder.mimeType || 'audio/webm' }), startedAt };
+    };
+
+    return {
+        stop: () => new Promise(resolve => {
+            if (recorder.state === 'inactive') {
+                resolve(buildRecording());
+                return;
+            }
+            // 'stop' fires after the final 'dataavailable', so all chunks are in.
+            recorder.onstop = () => resolve(buildRecording());
+            recorder.stop();
+        }),
+    };
+};
+
+/**
+ * Turns final speech results into segments positioned on the recording's timeline.
+ * The Web Speech API reports no timings of its own, so each segment runs from the
+ * end of the previous one to the moment its result became final.
+ * @param results Final results in the order they arrived.
+ * @param startedAt The performance.now() timestamp at which the recording started.
+ * @returns Contiguous segments with start and end offsets in seconds.
+ */
+export const toTranscriptSegments = (results: TimedSpeechResult[], startedAt: number): TranscriptSegment[] => {
+    const segments: TranscriptSegment[] = [];
+    let previousEnd = 0;
+    results.forEach(result => {
+        const text = result.text.trim();
+        if (!text) return;
+        const end = Math.max(previousEnd, (result.finalizedAt - startedAt) / 1000);
+        segments.push({ text, start: previousEnd, end });
+        previousEnd = end;
+    });
+    return segments;
+};
+
+const extensionForType = (mimeType: string): string => {
+    if (mimeType.includes('mp4')) return 'm4a';
+    if (mimeType.includes('ogg')) return 'ogg';
+    return 'webm';
+};
+
+/**
+ * Keeps a recording locally and queues it for upload to the user's folder in
+ * Storage, so it survives being made offline.
+ * @returns The object path the recording will have, for the note to store now.
+ */
+export const saveNoteAudio = async (audio: Blob): Promise<string> => {
+    // getSession reads the stored session, so this works without a connection
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error("User not authenticated");
+
+    const path = `${session.user.id}/${crypto.randomUUID()}.${extensionForType(audio.type)}`;
+    await syncService.saveFile(AUDIO_BUCKET, path, audio.type ? audio : new Blob([audio], { type: 'audio/webm' }));
+    return path;
+};
+
+// A short-lived link for playing a recording; one not uploaded yet plays from the local copy
+export const getNoteAudioUrl = async (audioPath: string): Promise<string> => {
+    const pending = await syncService.getPendingFile(AUDIO_BUCKET, audioPath);
+    if (pending) return URL.createObjectURL(pending);
+
+    const { data, error } = await supabase.storage
+        .from(AUDIO_BUCKET)
+        .createSignedUrl(toObjectPath(audioPath), SIGNED_URL_SECONDS);
+
+    if (error) throw new Error(error.message);
+    return data.signedUrl;
+};
+
+export const deleteNoteAudio = async (audioPath: string): Promise<void> => {
+    await syncService.discardPendingFile(AUDIO_BUCKET, audioPath);
+    const { error } = await supabase.storage.from(AUDIO_BUCKET).remove([toObjectPath(audioPath)]);
+    if (error) throw new Error(error.message);
+};
@@ -0,0 +1,73 @@
+import { supabase, supabaseUrl } from './supabaseClient';
+import { buildICalendar, collectCalendarEntries } from '../supabase/functions/_shared/icalendar.ts';
+import type { ScheduledNote } from './notesService';
+import type { Task } from '../types';
+
+// Calendar export: a one-off .ics download, and a secret subscription URL served
+// by the calendar-feed Edge Function (see supabase/functions/calendar-feed).
+
+const toFeedUrl = (token: string): string =>
+    `${supabaseUrl}/functions/v1/calendar-feed?token=${encodeURIComponent(token)}`;
+
+// 32 random bytes, hex encoded; this is the only secret guarding the feed
+const generateToken = (): string =>
+    Array.from(crypto.getRandomValues(new Uint8Array(32)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+// Calendar apps open webcal:// links as subscriptions rather than downloads
+export const toWebcalUrl = (feedUrl: string): string => feedUrl.replace(/^https?:\/\//, 'webcal://');
+
+export const downloadICalendar = (notes: ScheduledNote[], tasks: Task[]): void => {
+    const entries = collectCalendarEntries(
+        notes,
+        tasks.map(task => {
+            const linkedNote = task.noteId ? notes.find(n => n.id === task.noteId) : undefined;
+            return { ...task, noteTitle: linkedNote ? linkedNote.title : null };
+        })
+    );
+    const blob = new Blob([buildICalendar(entries)], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'Vocalyn Tasks.ics';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+// The current user's feed URL, or null if they have not turned the feed on
+export const getCalendarFeedUrl = async (): Promise<string | null> => {
+    const { data, error } = await supabase
+        .from('calendar_feeds')
+        .select('token')
+        .maybeSingle();
+
+    if (error) throw new Error(error.message);
+    return data ? toFeedUrl(data.token) : null;
+};
+
+// Turn the feed on, or give it a new URL so the old one stops working
+export const resetCalendarFeed = async (): Promise<string> => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error("User not authenticated");
+
+    const token = generateToken();
+    const { error } = await supabase
+        .from('calendar_feeds')
+        .upsert({ user_id: session.user.id, token, created_at: new Date().toISOString() });
+
+    if (error) throw new Error(error.message);
+    return toFeedUrl(token);
+};
+
+export const disableCalendarFeed = async (): Promise<void> => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error("User not authenticated");
+
+    const { error } = await supabase
+        .from('calendar_feeds')
+        .delete()
+        .eq('user_id', session.user.id);
+
+    if (error) throw new Error(error.message);
+};
@@ -0,0 +1,121 @@
+import { parseICalendar } from '../supabase/functions/_shared/icalendar.ts';
+import type { ParsedCalendarItem } from '../supabase/functions/_shared/icalendar.ts';
+import { getNextOccurrence, normalizeRecurrence } from './recurrence';
+import { toLocalDateString } from './dates';
+import * as tasksService from './tasksService';
+import type { Task } from '../types';
+
+// Calendar import: reads an .ics file from another calendar into a preview the
+// user confirms, then saves the chosen entries as tasks.
+
+// Enough for a daily rule with COUNT to cover several years
+const MAX_COUNTED_OCCURRENCES = 2000;
+
+export interface ImportCandidate {
+    uid: string;
+    kind: ParsedCalendarItem['kind'];
+    text: string;
+    dueDate: string;
+    time?: string;
+    recurrence?: string; // Normalized to the subset the app supports
+    completed: boolean;
+    // The file's repeat rule could not be kept, so only one occurrence is imported
+    recurrenceDropped: boolean;
+    // Already imported, or exported from Vocalyn in the first place
+    duplicate: boolean;
+    // A one-off entry dated before today, or a series that has ended
+    past: boolean;
+}
+
+/**
+ * Converts a file's RRULE to the supported subset. COUNT becomes an UNTIL on
+ * the last occurrence, and WKST is dropped since weeks always start on Monday.
+ * @returns The normalized rule, or undefined if it uses parts we cannot represent.
+ */
+const toSupportedRecurrence = (rrule: string, anchor: string): string | undefined => {
+    const parts = rrule.replace(/^RRULE:/i, '').split(';').filter(Boolean);
+    const count = Number(parts.find(part => /^COUNT=/i.test(part))?.split('=')[1]);
+    const rule = normalizeRecurrence(parts.filter(part => !/^(COUNT|WKST)=/i.test(part)).join(';'));
+    if (!rule || !count) return rule;
+
+    let last = anchor;
+    for (let i = 1; i < Math.min(count, MAX_COUNTED_OCCURRENCES); i++) {
+        const next = getNextOccurrence(rule, anchor, last);
+        if (!next) break;
+        last = next;
+    }
+    return normalizeRecurrence(`${rule.replace(/;UNTIL=\d+/, '')};UNTIL=${last.replace(/-/g, '')}`);
+};
+
+const toCandidate = (item: ParsedCalendarItem, existingUids: Set<string>, today: string): ImportCandidate => {
+    const recurrence = item.recurrence && item.dueDate ? toSupportedRecurrence(item.recurrence, item.dueDate) : undefined;
+    let dueDate = item.dueDate;
+    let past = !!dueDate && dueDate < today;
+
+    // A series that started in the past is imported from its next occurrence
+    if (recurrence && past) {
+        const yesterday = new Date(`${today}T00:00:00`);
+        yesterday.setDate(yesterday.getDate() - 1);
+        const next = getNextOccurrence(recurrence, dueDate, toLocalDateString(yesterday));
+        if (next) {
+            dueDate = next;
+            past = false;
+        }
+    }
+
+    return {
+        uid: item.uid,
+        kind: item.kind,
+        text: item.text,
+        dueDate,
+        time: item.time,
+        recurrence,
+        completed: item.completed,
+        recurrenceDropped: !!item.recurrence && !recurrence,
+        duplicate: existingUids.has(item.uid) || /@vocalyn$/i.test(item.uid),
+        past,
+    };
+};
+
+/**
+ * Reads an .ics file into import candidates, marking the ones the user most
+ * likely does not want: duplicates, past entries and completed to-dos.
+ * @param ics The file contents.
+ * @param existingTasks The user's tasks, used to spot entries imported before.
+ * @throws If the file is not iCalendar or has nothing to import.
+ */
+export const previewICalendarImport = (ics: string, existingTasks: Task[]): ImportCandidate[] => {
+    const items = parseICalendar(ics);
+    if (items.length === 0) {
+        throw new Error("No events or to-dos were found in this file.");
+    }
+
+    const existingUids = new Set(existingTasks.flatMap(task => (task.sourceUid ? [task.sourceUid] : [])));
+    const today = toLocalDateString(new Date());
+    return items
+        .map(item => toCandidate(item, existingUids, today))
+        .sort((a, b) => (a.dueDate || '9999').localeCompare(b.dueDate || '9999') || (a.time ?? '').localeCompare(b.time ?? ''));
+};
+
+// Whether a candidate should start out selected in the preview
+export const isSuggestedForImport = (candidate: ImportCandidate): boolean =>
+    !candidate.duplicate && !candidate.past && !candidate.completed;
+
+/**
+ * Saves the chosen candidates as tasks, one at a time.
+ * @param onImported Called with each task as soon as it is saved, so the ones
+ *                   saved before a failure still reach the app.
+ * @throws If a task could not be saved; the candidates after it are not tried.
+ */
+export const importCalendarItems = async (candidates: ImportCandidate[], onImported: (task: Task) => void): Promise<void> => {
+    for (const candidate of candidates) {
+        onImported(await tasksService.createTask({
+            text: candidate.text,
+            dueDate: candidate.dueDate,
+            time: candidate.time,
+            recurrence: candidate.recurrence,
+            completed: candidate.completed,
+            sourceUid: candidate.uid,
+        }));
+    }
+};
@@ -1,5 +1,18 @@
 import { supabase } from './supabaseClient';
-import type { ChatSession } from '../types';
+import * as syncService from './syncService';
+import type { ChatScope, ChatSession } from '../types';
+
+// Map a row from the chat_sessions table to the client-side shape
+const toSession = (session: any): ChatSession => ({
+    id: session.id,
+    createdAt: session.created_at,
+    title: session.title,
+    scope: session.scope === 'all' ? 'all' : 'selected',
+    noteIds: session.note_ids || [],
+    messages: session.messages || []
+});
+
+const newestFirst = (a: any, b: any) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
 
 export const getChatSessions = async (): Promise<ChatSession[]> => {
     const { data, error } = await supabase
@@ -8,90 +21,77 @@ export const getChatSessions = async (): Promise<ChatSession[]> => {
         .order('created_at', { ascending: false });
 
     if (error) {
-        console.error("Error fetching chats:", error);
-        return [];
+        console.error("Error fetching chats, using offline copy:", error);
+        const cachedRows = await syncService.getCachedRows('chat_sessions');
+        return cachedRows.sort(newestFirst).map(toSession);
     }
 
-    return data.map((session: any) => ({
-        id: session.id,
-        createdAt: session.created_at,
-        title: session.title,
-        noteIds: session.note_ids || [],
-        messages: session.messages || []
-    }));
+    const rows = await syncService.mergeRemoteRows('chat_sessions', data);
+    return rows.sort(newestFirst).map(toSession);
 };
 
-export const saveChatSession = async (sessionToSave: ChatSession): Promise<ChatSession> => {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) throw new Error("User not authenticated");
+// A chat found by full-text search on the server, with the matching words marked
+export interface ChatSearchMatch {
+    session: ChatSession;
+    rank: number;
+    snippet: string; // Message excerpts with matches wrapped in <mark></mark>
+}
 
-    // Check if session exists to decide update vs insert
-    const { count } = await supabase
-        .from('chat_sessions')
-        .select('*', { count: 'exact', head: true })
-        .eq('id', sessionToSave.id);
-
-    let data, error;
+/**
+ * Ranked full-text search over the titles and messages of the user's chats.
+ * @returns The matches, best first, or null when the server is unreachable.
+ */
+export const searchChatSessions = async (query: string, limit = 50): Promise<ChatSearchMatch[] | null> => {
+    const { data, error } = await supabase.rpc('search_chat_sessions', {
+        search_query: query,
+        match_limit: limit,
+    });
 
-    if (count && count > 0) {
-        // Update
-        const response = await supabase
-            .from('chat_sessions')
-            .update({
-                title: sessionToSave.title,
-                messages: sessionToSave.messages,
-                note_ids: sessionToSave.noteIds
-            })
-            .eq('id', sessionToSave.id)
-            .select()
-            .single();
-        data = response.data;
-        error = response.error;
-    } else {
-        // Insert
-        const response = await supabase
-            .from('chat_sessions')
-            .insert({
-                id: sessionToSave.id,
-                user_id: user.id,
-                title: sessionToSave.title,
-                messages: sessionToSave.messages,
-                note_ids: sessionToSave.noteIds,
-                created_at: sessionToSave.createdAt
-            })
-            .select()
-            .single();
-        data = response.data;
-        error = response.error;
+    if (error) {
+        console.error("Error searching chats:", error);
+        return null;
     }
+    return (data ?? []).map((match: any) => ({
+        session: toSession(match.session),
+        rank: match.rank,
+        snippet: match.snippet ?? '',
+    }));
+};
 
-    if (error) throw new Error(error.message);
+export const saveChatSession = async (sessionToSave: ChatSession): Promise<ChatSession> => {
+    // getSession reads the stored session, so this works without a connection
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error("User not authenticated");
 
-    return {
-        id: data.id,
-        createdAt: data.created_at,
-        title: data.title,
-        noteIds: data.note_ids,
-        messages: data.messages
+    const existing = await syncService.getCachedRow('chat_sessions', sessionToSave.id);
+    const row = {
+        ...existing,
+        id: sessionToSave.id,
+        user_id: session.user.id,
+        title: sessionToSave.title,
+        messages: sessionToSave.messages,
+        note_ids: sessionToSave.noteIds,
+        scope: sessionToSave.scope,
+        created_at: existing?.created_at ?? sessionToSave.createdAt,
+        updated_at: new Date().toISOString()
     };
+    await syncService.saveRow('chat_sessions', row);
+
+    return toSession(row);
 };
 
-export const createChatSession = (noteIds: string[]): ChatSession => {
+export const createChatSession = (noteIds: string[], scope: ChatScope = 'selected'): ChatSession => {
     // We just create the object client-side. It gets saved to DB when messages are added.
     return {
         id: crypto.randomUUID(),
         title: 'New Chat',
         createdAt: new Date().toISOString(),
+        scope,
         noteIds,
         messages: [],
     };
 };
 
 export const deleteChatSession = async (id: string): Promise<void> => {
-    const { error } = await supabase
-        .from('chat_sessions')
-        .delete()
-        .eq('id', id);
-    
-    if (error) throw new Error(error.message);
+    await syncService.removeRow('chat_sessions', id);
 };
@@ -0,0 +1,8 @@
+// Due dates are calendar days in the user's time zone, stored as YYYY-MM-DD strings.
+
+export const toLocalDateString = (date: Date): string => {
+    const year = date.getFullYear();
+    const month = (date.getMonth() + 1).toString().padStart(2, '0');
+    const day = date.getDate().toString().padStart(2, '0');
+    return `${year}-${month}-${day}`;
+};
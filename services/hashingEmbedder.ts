@@ -0,0 +1,62 @@
+// A local embedder that needs no model: words and character trigrams are hashed
+// into a fixed number of buckets. It only captures shared vocabulary, not meaning,
+// but it is deterministic and instant, so search works offline and with the mock provider.
+
+export const HASHING_MODEL = 'hashing-v1';
+
+const DIMENSIONS = 512;
+
+// Weight of a whole-word match relative to one shared trigram
+const WORD_WEIGHT = 3;
+
+const STOP_WORDS = new Set(['the', 'a', 'an', 'and', 'or', 'of', 'to', 'in', 'on', 'is', 'it', 'i', 'my', 'me', 'what', 'did', 'do', 'does', 'about', 'for', 'was', 'were', 'are', 'with', 'that', 'this', 'be', 'at', 'by', 'as', 'so']);
+
+// FNV-1a, which spreads short strings well enough for bucketing
+export const hashString = (text: string): number => {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+};
+
+// Strip common English endings so "meeting" and "meetings" share a bucket
+export const stem = (word: string): string => {
+    const stemmed = word.replace(/(?:ings|ing|ed|es|s)$/, '');
+    return stemmed.length >= 3 ? stemmed : word;
+};
+
+/**
+ * Splits text into lowercase, stemmed words without stop words.
+ */
+export const tokenize = (text: string): string[] =>
+    text.toLowerCase()
+        .split(/[^\p{L}\p{N}']+/u)
+        .map(word => word.replace(/'/g, ''))
+        .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+        .map(stem);
+
+/**
+ * Embeds one text as a unit-length vector.
+ * @returns A vector of DIMENSIONS numbers; all zeros when the text has no words.
+ */
+export const embedText = (text: string): number[] => {
+    const vector = new Array<number>(DIMENSIONS).fill(0);
+    const add = (feature: string, weight: number) => {
+        const h = hashString(feature);
+        // The top bit picks a sign, so unrelated features tend to cancel out
+        vector[h % DIMENSIONS] += (h & 0x80000000 ? -1 : 1) * weight;
+    };
+
+    for (const word of tokenize(text)) {
+        add(`w:${word}`, WORD_WEIGHT);
+        const padded = `^${word}$`;
+        for (let i = 0; i + 3 <= padded.length; i++) {
+            add(`t:${padded.slice(i, i + 3)}`, 1);
+        }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+};
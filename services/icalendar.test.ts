@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import { buildICalendar, collectCalendarEntries, parseICalendar } from '../supabase/functions/_shared/icalendar.ts';
+import type { CalendarEntry } from '../supabase/functions/_shared/icalendar.ts';
+import type { ActionItem } from '../types';
+import { toLocalDateString } from './dates';
+
+const item = (fields: Partial<ActionItem>): ActionItem => ({ id: 'item', text: 'Call Sam', completed: false, dueDate: '2026-10-19', ...fields });
+
+const entry = (fields: Partial<ActionItem>): CalendarEntry => ({ uid: 'uid@vocalyn', item: item(fields) });
+
+const calendar = (...lines: string[]): string => ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+
+const event = (...lines: string[]): string[] => ['BEGIN:VEVENT', ...lines, 'END:VEVENT'];
+
+// The date and time an instant has in the zone the tests run in
+const localParts = (timestamp: number) => {
+    const date = new Date(timestamp);
+    return {
+        dueDate: toLocalDateString(date),
+        time: `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`,
+    };
+};
+
+describe('collectCalendarEntries', () => {
+    it('lists open dated items, naming the note they came from', () => {
+        const entries = collectCalendarEntries(
+            [{ id: 'n1', title: 'Weekly sync', actionItems: [item({ id: 'a' }), item({ id: 'b', completed: true }), item({ id: 'c', dueDate: '' })] }],
+            [{ ...item({ id: 't1' }), noteTitle: null }, { ...item({ id: 't2' }), noteTitle: 'Groceries' }]
+        );
+
+        expect(entries.map(({ uid, description }) => [uid, description])).toEqual([
+            ['note-n1-a@vocalyn', 'From note: Weekly sync'],
+            ['task-t1@vocalyn', undefined],
+            ['task-t2@vocalyn', 'From note: Groceries'],
+        ]);
+    });
+});
+
+describe('buildICalendar', () => {
+    it('ends every line with CRLF', () => {
+        expect(buildICalendar([entry({})])).toMatch(/^(?:[^\r\n]*\r\n)+$/);
+    });
+
+    it('makes untimed items all-day events that end the next day', () => {
+        const ics = buildICalendar([entry({ dueDate: '2026-12-31' })]);
+
+        expect(ics).toContain('DTSTART;VALUE=DATE:20261231\r\n');
+        expect(ics).toContain('DTEND;VALUE=DATE:20270101\r\n');
+    });
+
+    it('makes timed items 30-minute events in floating time', () => {
+        const ics = buildICalendar([entry({ time: '15:00' })]);
+
+        expect(ics).toContain('DTSTART:20261019T150000\r\nDURATION:PT30M\r\n');
+    });
+
+    it('gives timed events an UNTIL with a time of day', () => {
+        expect(buildICalendar([entry({ time: '15:00', recurrence: 'FREQ=WEEKLY;UNTIL=20261231' })])).toContain('RRULE:FREQ=WEEKLY;UNTIL=20261231T235959\r\n');
+        expect(buildICalendar([entry({ recurrence: 'FREQ=WEEKLY;UNTIL=20261231' })])).toContain('RRULE:FREQ=WEEKLY;UNTIL=20261231\r\n');
+    });
+
+    it('escapes text and folds long lines at 75 octets without splitting characters', () => {
+        const text = 'Pick up crêpes, café; and\\or \n'.repeat(6);
+        const ics = buildICalendar([entry({ text })]);
+        const encoder = new TextEncoder();
+
+        expect(ics.split('\r\n').every(line => encoder.encode(line).length <= 75)).toBe(true);
+        expect(ics).toContain('SUMMARY:Pick up crêpes\\, café\\; and\\\\or \\n');
+        expect(parseICalendar(ics)[0].text).toBe(text.trim());
+    });
+});
+
+describe('parseICalendar', () => {
+    it('rejects text that is not a calendar', () => {
+        expect(() => parseICalendar('BEGIN:VCARD\r\nEND:VCARD')).toThrow('not an iCalendar');
+    });
+
+    it('reads items back from a file it built', () => {
+        const ics = buildICalendar([
+            entry({ time: '09:30', recurrence: 'FREQ=DAILY' }),
+            { uid: 'other@vocalyn', item: item({ text: 'Dentist', dueDate: '2026-10-22' }) },
+        ]);
+
+        expect(parseICalendar(ics)).toEqual([
+            { uid: 'uid@vocalyn', kind: 'event', text: 'Call Sam', dueDate: '2026-10-19', time: '09:30', recurrence: 'FREQ=DAILY', completed: false },
+            { uid: 'other@vocalyn', kind: 'event', text: 'Dentist', dueDate: '2026-10-22', time: undefined, recurrence: undefined, completed: false },
+        ]);
+    });
+
+    it('accepts LF line endings and lines folded with a tab', () => {
+        const ics = calendar(...event('UID:1', 'DTSTART;VALUE=DATE:20261019', 'SUMMARY:Call', '\tSam')).replace(/\r\n/g, '\n');
+
+        expect(parseICalendar(ics)[0].text).toBe('CallSam');
+    });
+
+    it('converts UTC times to local time', () => {
+        const [parsed] = parseICalendar(calendar(...event('UID:1', 'DTSTART:20261019T133000Z', 'SUMMARY:Call')));
+
+        expect(parsed).toMatchObject(localParts(Date.UTC(2026, 9, 19, 13, 30)));
+    });
+
+    it('converts times in a known zone, including the night daylight saving time ends', () => {
+        const ics = calendar(
+            ...event('UID:1', 'DTSTART;TZID=America/New_York:20261019T090000', 'SUMMARY:Standup'),
+            ...event('UID:2', 'DTSTART;TZID="Europe/Berlin":20261025T013000', 'SUMMARY:Night shift'),
+        );
+        const [standup, nightShift] = parseICalendar(ics);
+
+        expect(standup).toMatchObject(localParts(Date.UTC(2026, 9, 19, 13)));
+        // Berlin is still on summer time, two hours ahead of UTC
+        expect(nightShift).toMatchObject(localParts(Date.UTC(2026, 9, 24, 23, 30)));
+    });
+
+    it('keeps floating times and times in unknown zones as written', () => {
+        const ics = calendar(
+            ...event('UID:1', 'DTSTART:20261019T090000', 'SUMMARY:Floating'),
+            ...event('UID:2', 'DTSTART;TZID=W. Europe Standard Time:20261019T090000', 'SUMMARY:Windows zone'),
+        );
+
+        expect(parseICalendar(ics).map(({ dueDate, time }) => [dueDate, time])).toEqual([['2026-10-19', '09:00'], ['2026-10-19', '09:00']]);
+    });
+
+    it('keeps the newest copy of an event and drops changed instances of a series', () => {
+        const ics = calendar(
+            ...event('UID:1', 'SEQUENCE:2', 'DTSTART;VALUE=DATE:20261020', 'SUMMARY:Moved'),
+            ...event('UID:1', 'SEQUENCE:1', 'DTSTART;VALUE=DATE:20261019', 'SUMMARY:Original'),
+            ...event('UID:1', 'RECURRENCE-ID;VALUE=DATE:20261027', 'DTSTART;VALUE=DATE:20261028', 'SUMMARY:One-off change'),
+        );
+
+        expect(parseICalendar(ics)).toMatchObject([{ text: 'Moved', dueDate: '2026-10-20' }]);
+    });
+
+    it('drops cancelled and undated events but keeps undated to-dos', () => {
+        const ics = calendar(
+            ...event('UID:1', 'STATUS:CANCELLED', 'DTSTART;VALUE=DATE:20261019', 'SUMMARY:Cancelled'),
+            ...event('UID:2', 'SUMMARY:No date'),
+            'BEGIN:VTODO', 'UID:3', 'SUMMARY:Someday', 'RRULE:FREQ=DAILY', 'STATUS:COMPLETED', 'END:VTODO',
+        );
+
+        expect(parseICalendar(ics)).toEqual([
+            { uid: '3', kind: 'todo', text: 'Someday', dueDate: '', time: undefined, recurrence: undefined, completed: true },
+        ]);
+    });
+
+    it('places to-dos on their due date and ignores alarm properties', () => {
+        const ics = calendar(
+            'BEGIN:VTODO', 'UID:1', 'DTSTART;VALUE=DATE:20261019', 'DUE;VALUE=DATE:20261021',
+            'BEGIN:VALARM', 'SUMMARY:Alarm text', 'END:VALARM',
+            'SUMMARY:Taxes', 'END:VTODO',
+        );
+
+        expect(parseICalendar(ics)).toMatchObject([{ kind: 'todo', text: 'Taxes', dueDate: '2026-10-21' }]);
+    });
+
+    it('keys items without a UID by kind, date and text', () => {
+        const ics = calendar(...event('DTSTART;VALUE=DATE:20261019', 'SUMMARY:Call Sam'), ...event('DTSTART;VALUE=DATE:20261019'));
+
+        expect(parseICalendar(ics).map(({ uid, text }) => [uid, text])).toEqual([
+            ['event-2026-10-19-Call Sam', 'Call Sam'],
+            ['event-2026-10-19-Untitled event', 'Untitled event'],
+        ]);
+    });
+});
@@ -0,0 +1,238 @@
+// A small IndexedDB wrapper holding an offline copy of the user's Supabase rows
+// plus the queue of writes that have not reached the server yet, and of files,
+// e.g. recordings, that have not been uploaded to Storage yet.
+// Rows are kept in their database (snake_case) shape so they can be replayed as-is.
+// It also records which reminders were shown, so open tabs do not repeat them,
+// and keeps the search index of note passage embeddings.
+
+const DB_NAME = 'vocalyn';
+const DB_VERSION = 5;
+const PENDING_STORE = 'pending_mutations';
+const UPLOADS_STORE = 'pending_uploads';
+const REMINDERS_STORE = 'delivered_reminders';
+const EMBEDDINGS_STORE = 'note_embeddings';
+
+export type CachedTable = 'notes' | 'chat_sessions' | 'tasks';
+
+const CACHED_TABLES: CachedTable[] = ['notes', 'chat_sessions', 'tasks'];
+
+// A local write waiting to be replayed against Supabase. There is at most one
+// per row: a newer write to the same row replaces the older one.
+export interface PendingMutation {
+    key: string; // `${table}:${rowId}`
+    mutationId: string;
+    table: CachedTable;
+    op: 'upsert' | 'delete';
+    rowId: string;
+    row?: any;
+    queuedAt: string;
+}
+
+// A file waiting to be uploaded to Storage. Rows may already reference its path.
+export interface PendingUpload {
+    key: string; // `${bucket}:${path}`
+    bucket: string;
+    path: string;
+    blob: Blob;
+    queuedAt: string;
+}
+
+// A reminder notification that has been shown, keyed by item, occurrence and time
+export interface DeliveredReminder {
+    key: string;
+    deliveredAt: number;
+    snoozedUntil?: number;
+}
+
+// A note's passages with their embeddings. contentHash identifies the text they
+// were computed from, so an edited note is re-embedded.
+export interface NoteEmbedding {
+    noteId: string;
+    model: string;
+    contentHash: string;
+    passages: { text: string; start: number; vector: number[] }[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                // Create whatever stores the previous version did not have yet
+                CACHED_TABLES
+                    .filter(table => !db.objectStoreNames.contains(table))
+                    .forEach(table => db.createObjectStore(table, { keyPath: 'id' }));
+                [PENDING_STORE, REMINDERS_STORE, UPLOADS_STORE]
+                    .filter(name => !db.objectStoreNames.contains(name))
+                    .forEach(name => db.createObjectStore(name, { keyPath: 'key' }));
+                if (!db.objectStoreNames.contains(EMBEDDINGS_STORE)) {
+                    db.createObjectStore(EMBEDDINGS_STORE, { keyPath: 'noteId' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+/**
+ * Runs work against one or more object stores in a single transaction.
+ * @param storeNames The stores the transaction covers.
+ * @param mode 'readonly' or 'readwrite'.
+ * @param run Issues the requests; its return value is resolved once the transaction commits.
+ */
+const transact = async <T>(
+    storeNames: string | string[],
+    mode: IDBTransactionMode,
+    run: (tx: IDBTransaction) => T | (() => T)
+): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(storeNames, mode);
+        const result = run(tx);
+        tx.oncomplete = () => resolve(typeof result === 'function' ? (result as () => T)() : result);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+};
+
+// Read the result of a request once its transaction has completed
+const resultOf = <T>(request: IDBRequest<T>) => () => request.result;
+
+export const getAllRows = (table: CachedTable): Promise<any[]> =>
+    transact(table, 'readonly', tx => resultOf(tx.objectStore(table).getAll()));
+
+export const getRow = (table: CachedTable, id: string): Promise<any | undefined> =>
+    transact(table, 'readonly', tx => resultOf(tx.objectStore(table).get(id)));
+
+export const putRow = (table: CachedTable, row: any): Promise<void> =>
+    transact(table, 'readwrite', tx => { tx.objectStore(table).put(row); });
+
+export const deleteRow = (table: CachedTable, id: string): Promise<void> =>
+    transact(table, 'readwrite', tx => { tx.objectStore(table).delete(id); });
+
+// Swap only the cached rows a predicate picks out, e.g. one page of a table, for the given rows
+export const replaceMatchingRows = (table: CachedTable, rows: any[], matches: (row: any) => boolean): Promise<void> =>
+    transact(table, 'readwrite', tx => {
+        const store = tx.objectStore(table);
+        const request = store.getAll();
+        request.onsuccess = () => {
+            (request.result as any[]).filter(matches).forEach(row => store.delete(row.id));
+            rows.forEach(row => store.put(row));
+        };
+    });
+
+export const getPendingMutations = (): Promise<PendingMutation[]> =>
+    transact(PENDING_STORE, 'readonly', tx => resultOf(tx.objectStore(PENDING_STORE).getAll()));
+
+// Apply a write to the offline copy and queue it for the server in one step
+export const recordMutation = (mutation: PendingMutation): Promise<void> =>
+    transact([mutation.table, PENDING_STORE], 'readwrite', tx => {
+        const store = tx.objectStore(mutation.table);
+        if (mutation.op === 'upsert') {
+            store.put(mutation.row);
+        } else {
+            store.delete(mutation.rowId);
+        }
+        tx.objectStore(PENDING_STORE).put(mutation);
+    });
+
+/**
+ * Removes a replayed mutation from the queue, unless a newer write to the same
+ * row replaced it while it was in flight.
+ * @returns Whether the mutation was removed.
+ */
+export const completeMutation = (mutation: PendingMutation): Promise<boolean> =>
+    transact(PENDING_STORE, 'readwrite', tx => {
+        const store = tx.objectStore(PENDING_STORE);
+        let removed = false;
+        const request = store.get(mutation.key);
+        request.onsuccess = () => {
+            if (request.result?.mutationId === mutation.mutationId) {
+                store.delete(mutation.key);
+                removed = true;
+            }
+        };
+        return () => removed;
+    });
+
+export const getPendingUploads = (): Promise<PendingUpload[]> =>
+    transact(UPLOADS_STORE, 'readonly', tx => resultOf(tx.objectStore(UPLOADS_STORE).getAll()));
+
+export const getPendingUpload = (key: string): Promise<PendingUpload | undefined> =>
+    transact(UPLOADS_STORE, 'readonly', tx => resultOf(tx.objectStore(UPLOADS_STORE).get(key)));
+
+export const putPendingUpload = (upload: PendingUpload): Promise<void> =>
+    transact(UPLOADS_STORE, 'readwrite', tx => { tx.objectStore(UPLOADS_STORE).put(upload); });
+
+export const deletePendingUpload = (key: string): Promise<void> =>
+    transact(UPLOADS_STORE, 'readwrite', tx => { tx.objectStore(UPLOADS_STORE).delete(key); });
+
+export const getDeliveredReminders = (): Promise<DeliveredReminder[]> =>
+    transact(REMINDERS_STORE, 'readonly', tx => resultOf(tx.objectStore(REMINDERS_STORE).getAll()));
+
+/**
+ * Records that a reminder is being shown, unless another tab already showed it.
+ * A snoozed reminder can be claimed again once its snooze has run out.
+ * The check and the write share one transaction, so only one tab wins.
+ * @returns Whether the caller should show the reminder.
+ */
+export const claimReminder = (key: string, now: number): Promise<boolean> =>
+    transact(REMINDERS_STORE, 'readwrite', tx => {
+        const store = tx.objectStore(REMINDERS_STORE);
+        let claimed = false;
+        const request = store.get(key);
+        request.onsuccess = () => {
+            const existing: DeliveredReminder | undefined = request.result;
+            if (!existing || (existing.snoozedUntil !== undefined && existing.snoozedUntil <= now)) {
+                store.put({ key, deliveredAt: now });
+                claimed = true;
+            }
+        };
+        return () => claimed;
+    });
+
+export const snoozeReminder = (key: string, until: number): Promise<void> =>
+    transact(REMINDERS_STORE, 'readwrite', tx => {
+        tx.objectStore(REMINDERS_STORE).put({ key, deliveredAt: Date.now(), snoozedUntil: until });
+    });
+
+// Forget reminders delivered before the given time
+export const pruneReminders = (before: number): Promise<void> =>
+    transact(REMINDERS_STORE, 'readwrite', tx => {
+        const store = tx.objectStore(REMINDERS_STORE);
+        const request = store.getAll();
+        request.onsuccess = () => {
+            (request.result as DeliveredReminder[])
+                .filter(reminder => reminder.deliveredAt < before && (reminder.snoozedUntil ?? 0) < before)
+                .forEach(reminder => store.delete(reminder.key));
+        };
+    });
+
+export const getNoteEmbeddings = (): Promise<NoteEmbedding[]> =>
+    transact(EMBEDDINGS_STORE, 'readonly', tx => resultOf(tx.objectStore(EMBEDDINGS_STORE).getAll()));
+
+export const putNoteEmbeddings = (entries: NoteEmbedding[]): Promise<void> =>
+    transact(EMBEDDINGS_STORE, 'readwrite', tx => {
+        const store = tx.objectStore(EMBEDDINGS_STORE);
+        entries.forEach(entry => store.put(entry));
+    });
+
+export const deleteNoteEmbeddings = (noteIds: string[]): Promise<void> =>
+    transact(EMBEDDINGS_STORE, 'readwrite', tx => {
+        const store = tx.objectStore(EMBEDDINGS_STORE);
+        noteIds.forEach(id => store.delete(id));
+    });
+
+// Forget everything stored for the current user, e.g. on sign out
+export const clearAll = (): Promise<void> =>
+    transact([...CACHED_TABLES, PENDING_STORE, UPLOADS_STORE, REMINDERS_STORE, EMBEDDINGS_STORE], 'readwrite', tx => {
+        [...CACHED_TABLES, PENDING_STORE, UPLOADS_STORE, REMINDERS_STORE, EMBEDDINGS_STORE].forEach(name => tx.objectStore(name).clear());
+    });
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mockAIProvider } from './mockAIProvider';
+import { HASHING_MODEL } from './hashingEmbedder';
+import type { ChatStreamChunk, ContextChunk } from './aiProvider';
+
+const collect = async (stream: AsyncGenerator<ChatStreamChunk>): Promise<ChatStreamChunk[]> => {
+    const chunks: ChatStreamChunk[] = [];
+    for await (const chunk of stream) chunks.push(chunk);
+    return chunks;
+};
+
+const answerText = (chunks: ChatStreamChunk[]): string => chunks.map(chunk => chunk.text ?? '').join('');
+
+describe('mockAIProvider.processTranscript', () => {
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        // A Monday
+        vi.setSystemTime(new Date(2026, 9, 19, 12));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('refines sentences and titles the note with its first words', async () => {
+        const result = await mockAIProvider.processTranscript('i went to the market today\nit was busy');
+
+        expect(result.refinedNote).toBe('# I went to the market today\n\nI went to the market today. It was busy.');
+    });
+
+    it('extracts action items with due dates, recurrence and priority', async () => {
+        const result = await mockAIProvider.processTranscript(
+            'I need to call the bank tomorrow. Remember to water the plants every Wednesday. I must fix the leak, it is urgent.'
+        );
+
+        expect(result.actionItems).toEqual([
+            { text: 'Call the bank tomorrow', dueDate: '2026-10-20', recurrence: '', priority: '' },
+            { text: 'Water the plants every Wednesday', dueDate: '2026-10-21', recurrence: 'FREQ=WEEKLY;BYDAY=WE', priority: '' },
+            { text: 'Fix the leak, it is urgent', dueDate: '', recurrence: '', priority: 'P1' },
+        ]);
+    });
+
+    it('names the emotions the wording suggests', async () => {
+        const result = await mockAIProvider.processTranscript('I am so frustrated and annoyed with this. At least the weekend was great.');
+
+        expect(result.emotionAnalysis.emotions.map(e => e.emotion)).toEqual(['Frustration', 'Joy']);
+        expect(result.emotionAnalysis.summary).toBe('The note mostly conveys frustration and joy.');
+    });
+
+    it('reports a neutral tone when no emotion words appear', async () => {
+        const result = await mockAIProvider.processTranscript('The report has four sections.');
+
+        expect(result.emotionAnalysis).toEqual({ summary: 'The note has a neutral, matter-of-fact tone.', emotions: [] });
+        expect(result.actionItems).toEqual([]);
+    });
+});
+
+describe('mockAIProvider.suggestSubtasks', () => {
+    it('splits a list of things into one step each', async () => {
+        expect(await mockAIProvider.suggestSubtasks('Book flights, hotel and car.')).toEqual([
+            'Book flights',
+            'Book hotel',
+            'Book car',
+        ]);
+    });
+
+    it('falls back to a plan, do, review breakdown', async () => {
+        expect(await mockAIProvider.suggestSubtasks('Write the quarterly report')).toEqual([
+            'Work out what is needed to write the quarterly report',
+            'Get started: write the quarterly report',
+            'Review and finish: write the quarterly report',
+        ]);
+    });
+});
+
+describe('mockAIProvider.embedTexts', () => {
+    it('returns one word-hashing vector per text, the same each time', async () => {
+        const first = await mockAIProvider.embedTexts(['budget meeting', 'garden'], 'document');
+        const second = await mockAIProvider.embedTexts(['budget meeting', 'garden'], 'query');
+
+        expect(first.model).toBe(HASHING_MODEL);
+        expect(first.vectors).toHaveLength(2);
+        expect(second.vectors).toEqual(first.vectors);
+    });
+});
+
+describe('mockAIProvider chat', () => {
+    const notes = [
+        { id: 'note-1', refinedNote: '# Weekly plans\n\nThe budget meeting moved to Friday. Lunch was good.' },
+        { id: 'note-2', refinedNote: 'The garden needs weeding.' },
+    ];
+
+    it('answers with the note sentences that share words with the question', async () => {
+        const chunks = await collect(mockAIProvider.continueChatStream(notes, 'When is the budget meeting?', [], false));
+
+        expect(answerText(chunks)).toBe('Here is what your notes say:\n* The budget meeting moved to Friday.\n');
+        expect(chunks[chunks.length - 1].sources).toEqual([{ noteId: 'note-1', snippet: 'The budget meeting moved to Friday.' }]);
+    });
+
+    it('says so when the notes do not cover the question', async () => {
+        const chunks = await collect(mockAIProvider.continueChatStream(notes, 'Where are my keys?', [], false));
+
+        expect(chunks).toEqual([{ text: 'I could not find an answer in the selected notes.' }]);
+    });
+
+    it('cites each retrieved chunk that supplied a sentence', async () => {
+        const chunks: ContextChunk[] = [
+            { noteId: 'note-1', noteTitle: 'Budget', text: 'The budget meeting moved to Friday.', start: 10, score: 0.8 },
+            { noteId: 'note-2', noteTitle: 'Garden', text: 'The garden needs weeding.', start: 0, score: 0.2 },
+        ];
+        const answer = await collect(mockAIProvider.continueChunkChatStream(chunks, 'budget meeting day', [], false));
+
+        expect(answer[answer.length - 1].sources).toEqual([
+            { noteId: 'note-1', snippet: 'The budget meeting moved to Friday.', start: 10, score: 0.8 },
+        ]);
+    });
+});
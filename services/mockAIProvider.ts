@@ -0,0 +1,203 @@
+import type { ProcessedNote, AIActionItem, Emotion, SourceSnippet } from '../types';
+import type { AIProvider, ChatStreamChunk } from './aiProvider';
+import { embedText, HASHING_MODEL } from './hashingEmbedder';
+import { toLocalDateString } from './dates';
+
+// A deterministic, offline stand-in for the real model. It applies simple rules
+// so the app can be used and tested without a network connection or API key.
+
+const EMOTION_KEYWORDS: Record<string, string[]> = {
+    Joy: ['happy', 'glad', 'excited', 'great', 'love', 'wonderful', 'awesome', 'grateful'],
+    Frustration: ['frustrated', 'annoyed', 'annoying', 'stuck', 'angry', 'irritated', 'fed up'],
+    Anxiety: ['worried', 'anxious', 'nervous', 'stressed', 'afraid', 'scared', 'deadline'],
+    Sadness: ['sad', 'disappointed', 'lonely', 'tired', 'miss', 'upset'],
+    Contemplation: ['think', 'wonder', 'maybe', 'consider', 'idea', 'reflect'],
+};
+
+const ACTION_PATTERN = /\b(need to|needs to|have to|has to|must|should|remember to|don't forget to|to-do|todo)\b/i;
+
+const STOP_WORDS = new Set(['the', 'a', 'an', 'and', 'or', 'of', 'to', 'in', 'on', 'is', 'it', 'i', 'my', 'me', 'what', 'did', 'do', 'does', 'about', 'for', 'was', 'were', 'are', 'with', 'that', 'this']);
+
+const splitSentences = (text: string): string[] =>
+    text.split(/(?<=[.!?])\s+|\n+/).map(sentence => sentence.trim()).filter(Boolean);
+
+const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
+
+// Fix spacing and capitalization, and end each sentence with punctuation
+const refineSentence = (sentence: string): string => {
+    let refined = sentence.replace(/\s+/g, ' ').replace(/\s+([,.!?])/g, '$1').replace(/\bi\b/g, 'I');
+    refined = capitalize(refined);
+    return /[.!?]$/.test(refined) ? refined : `${refined}.`;
+};
+
+const extractDueDate = (sentence: string): string => {
+    const today = new Date();
+    if (/\btomorrow\b/i.test(sentence)) {
+        today.setDate(today.getDate() + 1);
+        return toLocalDateString(today);
+    }
+    if (/\b(today|tonight)\b/i.test(sentence)) {
+        return toLocalDateString(today);
+    }
+    return '';
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const WEEKDAY_PATTERN = new RegExp(`\\b(?:every|each) ((?:${WEEKDAYS.join('|')})(?:(?:,| and| or) (?:${WEEKDAYS.join('|')}))*)`, 'i');
+
+// Recognize a few common phrasings; the real model handles the rest
+const extractRecurrence = (sentence: string): string => {
+    const weekdays = sentence.match(WEEKDAY_PATTERN);
+    if (weekdays) {
+        const days = WEEKDAYS.filter(day => weekdays[1].toLowerCase().includes(day));
+        return `FREQ=WEEKLY;BYDAY=${days.map(day => day.slice(0, 2).toUpperCase()).join(',')}`;
+    }
+    if (/\b(every day|daily)\b/i.test(sentence)) return 'FREQ=DAILY';
+    if (/\b(every week|weekly)\b/i.test(sentence)) return 'FREQ=WEEKLY';
+    const monthDay = sentence.match(/\bon the (\d{1,2})(?:st|nd|rd|th)\b/i);
+    if (monthDay || /\b(every month|monthly)\b/i.test(sentence)) {
+        return monthDay ? `FREQ=MONTHLY;BYMONTHDAY=${Number(monthDay[1])}` : 'FREQ=MONTHLY';
+    }
+    return '';
+};
+
+const extractPriority = (sentence: string): string => {
+    if (/\b(urgent|urgently|asap|critical|immediately)\b/i.test(sentence)) return 'P1';
+    if (/\b(important|high priority)\b/i.test(sentence)) return 'P2';
+    if (/\b(low priority|when i get a chance|no rush|someday)\b/i.test(sentence)) return 'P4';
+    return '';
+};
+
+// A repeating task starts on its first occurrence from today on
+const firstOccurrence = (recurrence: string): string => {
+    const date = new Date();
+    const weekdays = recurrence.match(/BYDAY=([A-Z,]+)/)?.[1].split(',');
+    const monthDay = Number(recurrence.match(/BYMONTHDAY=(\d+)/)?.[1]);
+    for (let i = 0; i < 62; i++) {
+        const matchesDay = weekdays
+            ? weekdays.includes(WEEKDAYS[date.getDay()].slice(0, 2).toUpperCase())
+            : !monthDay || date.getDate() === monthDay;
+        if (matchesDay) break;
+        date.setDate(date.getDate() + 1);
+    }
+    return toLocalDateString(date);
+};
+
+const analyzeEmotions = (text: string): Emotion[] => {
+    const lower = text.toLowerCase();
+    return Object.entries(EMOTION_KEYWORDS)
+        .map(([emotion, keywords]) => ({ emotion, matches: keywords.filter(keyword => lower.includes(keyword)) }))
+        .filter(({ matches }) => matches.length > 0)
+        .sort((a, b) => b.matches.length - a.matches.length)
+        .slice(0, 3)
+        .map(({ emotion, matches }) => ({
+            emotion,
+            justification: `The note mentions ${matches.map(match => `"${match}"`).join(', ')}.`,
+        }));
+};
+
+const tokenize = (text: string): string[] =>
+    text.toLowerCase().split(/[^a-z0-9']+/).filter(word => word.length > 1 && !STOP_WORDS.has(word));
+
+const processTranscript = async (transcript: string): Promise<ProcessedNote> => {
+    const sentences = splitSentences(transcript).map(refineSentence);
+    const title = sentences[0]?.replace(/[.!?]$/, '').split(' ').slice(0, 6).join(' ') || 'Untitled Note';
+
+    const actionItems: AIActionItem[] = sentences
+        .filter(sentence => ACTION_PATTERN.test(sentence))
+        .map(sentence => {
+            const recurrence = extractRecurrence(sentence);
+            return {
+                text: capitalize(sentence.replace(/^.*?\b(need to|needs to|have to|has to|must|should|remember to|don't forget to)\b\s*/i, '').replace(/[.!?]$/, '')),
+                dueDate: extractDueDate(sentence) || (recurrence ? firstOccurrence(recurrence) : ''),
+                recurrence,
+                priority: extractPriority(sentence),
+            };
+        });
+
+    const emotions = analyzeEmotions(transcript);
+    const summary = emotions.length > 0
+        ? `The note mostly conveys ${emotions.map(e => e.emotion.toLowerCase()).join(' and ')}.`
+        : 'The note has a neutral, matter-of-fact tone.';
+
+    return {
+        refinedNote: `# ${title}\n\n${sentences.join(' ')}`,
+        emotionAnalysis: { summary, emotions },
+        actionItems,
+    };
+};
+
+// Split "book flights, hotel and car" style items into their parts; otherwise
+// fall back to a generic plan, do, review breakdown
+const suggestSubtasks = async (itemText: string): Promise<string[]> => {
+    const text = itemText.trim().replace(/[.!?]$/, '');
+    const match = text.match(/^(\w+)\s+(.*)$/);
+    if (match) {
+        const [, verb, rest] = match;
+        const parts = rest.split(/,\s*(?:and\s+)?|\s+and\s+/i).map(part => part.trim()).filter(Boolean);
+        if (parts.length > 1) return parts.map(part => `${capitalize(verb.toLowerCase())} ${part}`);
+    }
+    const lower = text.charAt(0).toLowerCase() + text.slice(1);
+    return [`Work out what is needed to ${lower}`, `Get started: ${lower}`, `Review and finish: ${lower}`];
+};
+
+// The three sentences sharing the most words with the question, best first
+const rankSentences = <T extends { sentence: string }>(candidates: T[], question: string): T[] => {
+    const questionWords = new Set(tokenize(question));
+    return candidates
+        .map(candidate => ({
+            candidate,
+            score: tokenize(candidate.sentence).filter(word => questionWords.has(word)).length,
+        }))
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, 3)
+        .map(({ candidate }) => candidate);
+};
+
+async function* answerWith(ranked: { sentence: string }[]): AsyncGenerator<ChatStreamChunk> {
+    yield { text: 'Here is what your notes say:\n' };
+    for (const { sentence } of ranked) {
+        yield { text: `* ${sentence}\n` };
+    }
+}
+
+export const mockAIProvider: AIProvider = {
+    processTranscript,
+    suggestSubtasks,
+
+    embedTexts: async (texts) => ({ model: HASHING_MODEL, vectors: texts.map(embedText) }),
+
+    // Answers with the note sentences that share the most words with the question
+    async *continueChatStream(notes, question) {
+        const candidates = notes.flatMap(note =>
+            splitSentences(note.refinedNote.replace(/^#+\s*/gm, '')).map(sentence => ({ noteId: note.id, sentence })));
+        const ranked = rankSentences(candidates, question);
+
+        if (ranked.length === 0) {
+            yield { text: 'I could not find an answer in the selected notes.' };
+            return;
+        }
+
+        yield* answerWith(ranked);
+        const sources: SourceSnippet[] = ranked.map(({ noteId, sentence }) => ({ noteId, snippet: sentence }));
+        yield { sources };
+    },
+
+    // The same, over retrieved chunks; each chunk that supplied a sentence is a source
+    async *continueChunkChatStream(chunks, question) {
+        const candidates = chunks.flatMap(chunk =>
+            splitSentences(chunk.text).map(sentence => ({ noteId: chunk.noteId, sentence, chunk })));
+        const ranked = rankSentences(candidates, question);
+
+        if (ranked.length === 0) {
+            yield { text: 'I could not find an answer in your notes.' };
+            return;
+        }
+
+        yield* answerWith(ranked);
+        const sources: SourceSnippet[] = Array.from(new Set(ranked.map(({ chunk }) => chunk)))
+            .map(({ noteId, text, start, score }) => ({ noteId, snippet: text, start, score }));
+        yield { sources };
+    },
+};
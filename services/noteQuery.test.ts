@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import type { ProcessedNoteWithId } from '../types';
+import { applyNoteQueryFilters, EMPTY_NOTE_QUERY, formatNoteQuery, hasFilters, matchesNoteQuery, parseNoteQuery } from './noteQuery';
+import type { NoteFilterBuilder, NoteQuery } from './noteQuery';
+
+// Created on a Monday afternoon, local time
+const note = (fields: Partial<ProcessedNoteWithId> = {}): ProcessedNoteWithId => ({
+    id: 'note',
+    createdAt: new Date(2026, 9, 19, 15).toISOString(),
+    refinedNote: '# Budget\nWe went over budget again.',
+    emotionAnalysis: { summary: 'Stressed', emotions: [{ emotion: 'Frustration', justification: 'over budget' }] },
+    actionItems: [
+        { id: 'a', text: 'Cut costs', completed: false, dueDate: '', tags: ['work'] },
+        { id: 'b', text: 'Send report', completed: true, dueDate: '', tags: ['finance'] },
+    ],
+    processingStatus: 'processed',
+    ...fields,
+});
+
+const query = (fields: Partial<NoteQuery>): NoteQuery => ({ ...EMPTY_NOTE_QUERY, ...fields });
+
+describe('parseNoteQuery', () => {
+    it('reads the example from the syntax description', () => {
+        expect(parseNoteQuery('budget emotion:frustration after:2026-01-01 has:tasks -has:audio tag:work')).toEqual({
+            text: 'budget',
+            emotions: ['frustration'],
+            tags: ['work'],
+            after: '2026-01-01',
+            hasTasks: true,
+            hasAudio: false,
+        });
+    });
+
+    it('reads quoted values, lowercases names and drops repeats', () => {
+        expect(parseNoteQuery('emotion:"Quiet Joy" tag:#Work tag:work emotion:"quiet joy"')).toEqual({
+            text: '',
+            emotions: ['quiet joy'],
+            tags: ['work'],
+        });
+    });
+
+    it.each([
+        ['after:2026-1-5'],
+        ['before:yesterday'],
+        ['tag:work,home'],
+        ['emotion:""'],
+        ['-emotion:sad'],
+        ['-tag:work'],
+        ['has:pictures'],
+        ['https://example.com'],
+        ['"meeting notes"'],
+    ])('keeps %s in the free text', (input) => {
+        expect(parseNoteQuery(input)).toEqual({ text: input, emotions: [], tags: [] });
+    });
+
+    it('gives back the same query from its formatted text', () => {
+        const parsed = query({
+            text: 'budget "next year"',
+            emotions: ['quiet joy', 'anger'],
+            tags: ['work'],
+            after: '2026-01-01',
+            before: '2026-12-31',
+            hasTasks: false,
+            hasAudio: true,
+        });
+
+        expect(formatNoteQuery(parsed)).toBe('budget "next year" emotion:"quiet joy" emotion:anger tag:work after:2026-01-01 before:2026-12-31 -has:tasks has:audio');
+        expect(parseNoteQuery(formatNoteQuery(parsed))).toEqual(parsed);
+    });
+
+    it('tells filters apart from free text alone', () => {
+        expect(hasFilters(parseNoteQuery('budget "next year"'))).toBe(false);
+        expect(hasFilters(parseNoteQuery('-has:audio'))).toBe(true);
+    });
+});
+
+describe('matchesNoteQuery', () => {
+    it('ignores the free text', () => {
+        expect(matchesNoteQuery(note(), query({ text: 'holiday' }))).toBe(true);
+    });
+
+    it('counts after: from the start of the day and before: up to it, in local time', () => {
+        expect(matchesNoteQuery(note(), query({ after: '2026-10-19' }))).toBe(true);
+        expect(matchesNoteQuery(note(), query({ after: '2026-10-20' }))).toBe(false);
+        expect(matchesNoteQuery(note(), query({ before: '2026-10-20' }))).toBe(true);
+        expect(matchesNoteQuery(note(), query({ before: '2026-10-19' }))).toBe(false);
+    });
+
+    it('needs every emotion and tag, matching emotions in any case', () => {
+        expect(matchesNoteQuery(note(), query({ emotions: ['frustration'], tags: ['work', 'finance'] }))).toBe(true);
+        expect(matchesNoteQuery(note(), query({ emotions: ['frustration', 'joy'] }))).toBe(false);
+        expect(matchesNoteQuery(note(), query({ tags: ['work', 'home'] }))).toBe(false);
+    });
+
+    it('counts only open action items as tasks', () => {
+        const allDone = note({ actionItems: [{ id: 'b', text: 'Send report', completed: true, dueDate: '' }] });
+
+        expect(matchesNoteQuery(note(), query({ hasTasks: true }))).toBe(true);
+        expect(matchesNoteQuery(allDone, query({ hasTasks: true }))).toBe(false);
+        expect(matchesNoteQuery(allDone, query({ hasTasks: false }))).toBe(true);
+    });
+
+    it('checks for a recording', () => {
+        expect(matchesNoteQuery(note(), query({ hasAudio: false }))).toBe(true);
+        expect(matchesNoteQuery(note({ audioPath: 'user/recording.webm' }), query({ hasAudio: false }))).toBe(false);
+    });
+});
+
+describe('applyNoteQueryFilters', () => {
+    // Records the filters applied, in order
+    class RecordingBuilder implements NoteFilterBuilder<RecordingBuilder> {
+        calls: unknown[][] = [];
+        private record(...call: unknown[]) {
+            this.calls.push(call);
+            return this;
+        }
+        gte(column: string, value: string) { return this.record('gte', column, value); }
+        lt(column: string, value: string) { return this.record('lt', column, value); }
+        is(column: string, value: null) { return this.record('is', column, value); }
+        not(column: string, operator: string, value: unknown) { return this.record('not', column, operator, value); }
+        contains(column: string, value: unknown) { return this.record('contains', column, value); }
+    }
+
+    it('adds nothing for free text alone', () => {
+        expect(applyNoteQueryFilters(new RecordingBuilder(), parseNoteQuery('budget')).calls).toEqual([]);
+    });
+
+    it('translates every filter', () => {
+        const builder = applyNoteQueryFilters(new RecordingBuilder(), parseNoteQuery('emotion:Joy tag:work after:2026-10-01 before:2026-10-19 has:tasks -has:audio'));
+
+        expect(builder.calls).toEqual([
+            ['gte', 'created_at', new Date(2026, 9, 1).toISOString()],
+            ['lt', 'created_at', new Date(2026, 9, 19).toISOString()],
+            ['contains', 'emotion_names', ['joy']],
+            ['contains', 'action_items', [{ tags: ['work'] }]],
+            ['contains', 'action_items', [{ completed: false }]],
+            ['is', 'audio_url', null],
+        ]);
+    });
+
+    it('excludes notes with any open item for -has:tasks', () => {
+        const builder = applyNoteQueryFilters(new RecordingBuilder(), parseNoteQuery('-has:tasks has:audio'));
+
+        expect(builder.calls).toEqual([
+            ['not', 'action_items', 'cs', '[{"completed":false}]'],
+            ['not', 'audio_url', 'is', null],
+        ]);
+    });
+});
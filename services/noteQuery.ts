@@ -0,0 +1,149 @@
+import { normalizeTags } from './actionItemFields';
+import { toLocalDateString } from './dates';
+import type { ProcessedNoteWithId } from '../types';
+
+// The notes search syntax: free text plus optional filters, e.g.
+//
+//   budget emotion:frustration after:2026-01-01 has:tasks -has:audio tag:work
+//
+//   emotion:NAME      one of the note's analysed emotions (case-insensitive)
+//   tag:NAME          an action item in the note carries the tag
+//   after:YYYY-MM-DD  created on or after the day
+//   before:YYYY-MM-DD created before the day
+//   has:tasks         the note has open action items; -has:tasks for none
+//   has:audio         the note has a recording; -has:audio for none
+//
+// Repeated emotion: and tag: filters must all match. Anything else, including
+// unknown key:value words and "quoted phrases", stays in the free text.
+
+export interface NoteQuery {
+    text: string;
+    emotions: string[];
+    tags: string[];
+    after?: string;
+    before?: string;
+    hasTasks?: boolean; // undefined means either
+    hasAudio?: boolean;
+}
+
+export const EMPTY_NOTE_QUERY: NoteQuery = { text: '', emotions: [], tags: [] };
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Local midnight at the start of a YYYY-MM-DD day, as an ISO timestamp
+const startOfDay = (date: string): string => {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(year, month - 1, day).toISOString();
+};
+
+/**
+ * Parses the search box text into free text and filters.
+ * @returns The query; filters with malformed values are kept as free text.
+ */
+export const parseNoteQuery = (input: string): NoteQuery => {
+    const query: NoteQuery = { text: '', emotions: [], tags: [] };
+    const text: string[] = [];
+
+    for (const token of input.match(/-?[\w-]+:"[^"]*"|"[^"]*"|\S+/g) ?? []) {
+        const match = token.match(/^(-?)(\w+):"?([^"]*)"?$/);
+        if (!match) {
+            text.push(token);
+            continue;
+        }
+        const [, negated, key, rawValue] = match;
+        const value = rawValue.trim();
+        const lowerValue = value.toLowerCase();
+
+        if (!negated && key === 'emotion' && value) {
+            query.emotions.push(lowerValue);
+        } else if (!negated && key === 'tag' && normalizeTags(value).length === 1) {
+            query.tags.push(...normalizeTags(value));
+        } else if (!negated && (key === 'after' || key === 'before') && DATE_PATTERN.test(value)) {
+            query[key] = value;
+        } else if (key === 'has' && (lowerValue === 'tasks' || lowerValue === 'audio')) {
+            query[lowerValue === 'tasks' ? 'hasTasks' : 'hasAudio'] = !negated;
+        } else {
+            text.push(token);
+        }
+    }
+
+    query.text = text.join(' ');
+    query.emotions = Array.from(new Set(query.emotions));
+    query.tags = Array.from(new Set(query.tags));
+    return query;
+};
+
+/**
+ * Writes a query back as search box text, so the filter bar and the box stay in step.
+ * parseNoteQuery(formatNoteQuery(query)) gives back the same query.
+ */
+export const formatNoteQuery = (query: NoteQuery): string => {
+    const quote = (value: string) => (/[\s"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value);
+    const parts = [query.text.trim()];
+    query.emotions.forEach(emotion => parts.push(`emotion:${quote(emotion)}`));
+    query.tags.forEach(tag => parts.push(`tag:${tag}`));
+    if (query.after) parts.push(`after:${query.after}`);
+    if (query.before) parts.push(`before:${query.before}`);
+    if (query.hasTasks !== undefined) parts.push(`${query.hasTasks ? '' : '-'}has:tasks`);
+    if (query.hasAudio !== undefined) parts.push(`${query.hasAudio ? '' : '-'}has:audio`);
+    return parts.filter(Boolean).join(' ');
+};
+
+export const hasFilters = (query: NoteQuery): boolean =>
+    query.emotions.length > 0 || query.tags.length > 0 || !!query.after || !!query.before ||
+    query.hasTasks !== undefined || query.hasAudio !== undefined;
+
+/**
+ * Checks a note against the query's filters. The free text is left to the
+ * caller, which ranks it with semantic search.
+ */
+export const matchesNoteQuery = (note: ProcessedNoteWithId, query: NoteQuery): boolean => {
+    const created = toLocalDateString(new Date(note.createdAt));
+    if (query.after && created < query.after) return false;
+    if (query.before && created >= query.before) return false;
+
+    const emotions = (note.emotionAnalysis?.emotions ?? []).map(e => e.emotion.toLowerCase());
+    if (!query.emotions.every(emotion => emotions.includes(emotion))) return false;
+
+    const items = note.actionItems ?? [];
+    const tags = new Set(items.flatMap(item => item.tags ?? []));
+    if (!query.tags.every(tag => tags.has(tag))) return false;
+
+    if (query.hasTasks !== undefined && items.some(item => !item.completed) !== query.hasTasks) return false;
+    if (query.hasAudio !== undefined && !!note.audioPath !== query.hasAudio) return false;
+    return true;
+};
+
+// The parts of the supabase-js filter builder the translation needs
+export interface NoteFilterBuilder<T> {
+    gte(column: string, value: string): T;
+    lt(column: string, value: string): T;
+    is(column: string, value: null): T;
+    not(column: string, operator: string, value: unknown): T;
+    contains(column: string, value: unknown): T;
+}
+
+/**
+ * Adds the query's filters to a Supabase query on the notes table, matching
+ * what matchesNoteQuery does client-side. The free text is not translated.
+ * Emotions are matched against the lowercased emotion_names column.
+ */
+export const applyNoteQueryFilters = <T extends NoteFilterBuilder<T>>(builder: T, query: NoteQuery): T => {
+    let filtered = builder;
+    if (query.after) filtered = filtered.gte('created_at', startOfDay(query.after));
+    if (query.before) filtered = filtered.lt('created_at', startOfDay(query.before));
+
+    for (const emotion of query.emotions) {
+        filtered = filtered.contains('emotion_names', [emotion.toLowerCase()]);
+    }
+    for (const tag of query.tags) {
+        filtered = filtered.contains('action_items', [{ tags: [tag] }]);
+    }
+
+    const openItem = JSON.stringify([{ completed: false }]);
+    if (query.hasTasks === true) filtered = filtered.contains('action_items', [{ completed: false }]);
+    if (query.hasTasks === false) filtered = filtered.not('action_items', 'cs', openItem);
+    if (query.hasAudio === true) filtered = filtered.not('audio_url', 'is', null);
+    if (query.hasAudio === false) filtered = filtered.is('audio_url', null);
+    return filtered;
+};
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { getNoteTitle, UNTITLED_NOTE } from './noteTitle';
+
+describe('getNoteTitle', () => {
+    it.each([
+        ['# Weekly sync\nNotes', 'Weekly sync'],
+        ['## Weekly sync\r\nNotes', 'Weekly sync'],
+        ['#\tWeekly sync\t\nNotes', 'Weekly sync'],
+        ['  Plain first line  ', 'Plain first line'],
+    ])('titles %j as %j', (refinedNote, title) => {
+        expect(getNoteTitle(refinedNote)).toBe(title);
+    });
+
+    it.each(['', '#', '# \r\nBody', '\nBody'])('falls back when the first line of %j is empty', (refinedNote) => {
+        expect(getNoteTitle(refinedNote)).toBe(UNTITLED_NOTE);
+    });
+
+    it('keeps whitespace the stored column does not trim', () => {
+        // Non-breaking spaces are part of the title in the database too
+        expect(getNoteTitle(' Title')).toBe(' Title');
+    });
+});
@@ -0,0 +1,10 @@
+// A note is titled by its first line without the heading marker. The notes table
+// stores the same in its generated title column, so the two must agree: both
+// treat only spaces, tabs and line breaks as padding.
+
+export const UNTITLED_NOTE = 'Untitled Note';
+
+const PADDING = /^[ \t\r\n]+|[ \t\r\n]+$/g;
+
+export const getNoteTitle = (refinedNote: string): string =>
+    refinedNote.split('\n')[0].replace(/^#+[ \t\r\n]*/, '').replace(PADDING, '') || UNTITLED_NOTE;
@@ -1,216 +1,647 @@
 import { supabase } from './supabaseClient';
-import type { ProcessedNote, ProcessedNoteWithId, ActionItem, AIActionItem } from '../types';
+import * as syncService from './syncService';
+import { deleteNoteAudio } from './audioService';
+import { reconcileActionItems } from './actionItemReconciliation';
+import { applyDetails, normalizePriority } from './actionItemFields';
+import type { ActionItemDetails } from './actionItemFields';
+import { toggleSubtask, withSubtasks } from './subtasks';
+import { applyNoteQueryFilters, matchesNoteQuery } from './noteQuery';
+import type { NoteQuery } from './noteQuery';
+import { toLocalDateString } from './dates';
+import { getNoteTitle, UNTITLED_NOTE } from './noteTitle';
+import { normalizeRecurrence, occursOn, toggleOccurrence, firstOccurrenceInRange, isRecurring } from './recurrence';
+import type { ProcessedNote, ProcessedNoteWithId, ActionItem, AIActionItem, TranscriptSegment, Task, Subtask } from '../types';
 
+// A dated to-do shown in the calendar and reminders: either an action item
+// inside a note or a row from the tasks table
 export interface TodaysActionItem {
-    noteId: string;
-    itemIndex: number;
+    source: 'note' | 'task';
+    noteId: string | null; // The note the item lives in or is linked to
+    itemId: string; // The action item id, or the task id
     item: ActionItem;
-    noteTitle: string;
+    noteTitle: string | null;
+}
+
+// Which items queryActionItems returns; dates are YYYY-MM-DD and inclusive
+export interface ActionItemQuery {
+    from?: string; // Omit for no lower bound
+    to?: string; // Omit for no upper bound
+    undated?: boolean; // Match items without a due date instead of filtering by date
+    includeCompleted?: boolean;
+}
+
+// One occurrence of an action item inside a note
+export interface ActionItemRef {
+    noteId: string;
+    itemId: string;
+    occurrenceDate: string;
+}
+
+// A note's action items with just enough of the note to label them. The calendar,
+// agenda, board and reminders cover notes on every page of the list, so they load
+// these narrow rows instead of whole notes.
+export interface ScheduledNote {
+    id: string;
+    title: string;
+    actionItems: ActionItem[];
+}
+
+// What an action item change needs of its note: a whole note or a scheduled one
+type NoteActionItems = Pick<ProcessedNoteWithId, 'id' | 'actionItems'>;
+
+// What the note was created from, stored alongside the AI output
+export interface NoteSource {
+    rawTranscript?: string;
+    audioPath?: string;
+    transcriptSegments?: TranscriptSegment[];
 }
 
-// Fetch all notes for the current user
-export const getNotes = async (): Promise<ProcessedNoteWithId[]> => {
+// Rows written before action items had IDs get a deterministic one, which is
+// persisted the next time the note is saved
+const withItemIds = (noteId: string, items: any[] | null): ActionItem[] =>
+    (items || []).map((item, index) => item.id ? item : { ...item, id: `${noteId}:${index}` });
+
+const toActionItem = (item: AIActionItem): ActionItem => ({
+    id: crypto.randomUUID(),
+    text: item.text,
+    dueDate: item.dueDate,
+    recurrence: normalizeRecurrence(item.recurrence),
+    priority: normalizePriority(item.priority),
+    completed: false
+});
+
+// Map a row from the notes table to the client-side shape
+const toNote = (note: any): ProcessedNoteWithId => ({
+    id: note.id,
+    createdAt: note.created_at,
+    refinedNote: note.refined_note,
+    emotionAnalysis: note.emotion_analysis,
+    actionItems: withItemIds(note.id, note.action_items),
+    rawTranscript: note.raw_transcript || undefined,
+    audioPath: note.audio_url || undefined,
+    transcriptSegments: note.transcript_segments || undefined,
+    processingStatus: note.processing_status || 'processed',
+    actionItemChanges: note.action_item_changes || undefined
+});
+
+const PENDING_ANALYSIS = {
+    summary: 'Waiting for AI analysis.',
+    emotions: [],
+};
+
+const newestFirst = (a: any, b: any) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+
+// Build a new notes row client-side so it can be saved while offline
+const createNoteRow = async (fields: Record<string, any>) => {
+    // getSession reads the stored session, so this works without a connection
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error("User not authenticated");
+
+    const now = new Date().toISOString();
+    return {
+        id: crypto.randomUUID(),
+        user_id: session.user.id,
+        created_at: now,
+        updated_at: now,
+        ...fields
+    };
+};
+
+// A note's offline copy. Notes on pages not loaded yet, e.g. changed from the
+// calendar, are fetched and cached first.
+const getNoteRow = async (id: string): Promise<any | undefined> => {
+    const cached = await syncService.getCachedRow('notes', id);
+    if (cached) return cached;
+    await getNotesByIds([id]);
+    return syncService.getCachedRow('notes', id);
+};
+
+// Apply changes to a note's offline copy and queue them for upload
+const updateNoteRow = async (id: string, changes: Record<string, any>): Promise<ProcessedNoteWithId> => {
+    const existing = await getNoteRow(id);
+    if (!existing) throw new Error("Note not found");
+
+    const row = { ...existing, ...changes, updated_at: new Date().toISOString() };
+    await syncService.saveRow('notes', row);
+    return toNote(row);
+};
+
+// How many notes the list loads at a time
+export const NOTES_PAGE_SIZE = 50;
+
+// Where a page of notes ends: its oldest note. The next page starts right after
+// it, so notes added or deleted meanwhile cannot shift pages the way offsets would.
+export interface NotesCursor {
+    createdAt: string;
+    id: string;
+}
+
+export interface NotesPage {
+    notes: ProcessedNoteWithId[];
+    nextCursor: NotesCursor | null; // null on the last page
+}
+
+// A note found by full-text search on the server, with the matching words marked
+export interface FullTextMatch {
+    note: ProcessedNoteWithId;
+    rank: number;
+    snippet: string; // Note text excerpts with matches wrapped in <mark></mark>
+}
+
+/**
+ * Orders notes rows or cursors the way the list shows them: newest first, with
+ * the id breaking ties between notes created at the same moment.
+ * @returns A negative number when a comes first.
+ */
+const compareListOrder = (a: { created_at: string, id: string }, b: { created_at: string, id: string }): number =>
+    (new Date(b.created_at).getTime() - new Date(a.created_at).getTime()) || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+const cursorRow = (cursor: NotesCursor) => ({ created_at: cursor.createdAt, id: cursor.id });
+
+const cursorOf = (row: any): NotesCursor => ({ createdAt: row.created_at, id: row.id });
+
+/**
+ * Whether a note comes at or before a cursor in list order, i.e. is on a page
+ * up to and including the cursor's.
+ */
+export const isBeforeCursor = (note: ProcessedNoteWithId, cursor: NotesCursor): boolean =>
+    compareListOrder({ created_at: note.createdAt, id: note.id }, cursorRow(cursor)) <= 0;
+
+// One page of the notes, or of the notes matching a query's filters
+const getNotesPage = async (after: NotesCursor | undefined, limit: number, filters: NoteQuery | null): Promise<NotesPage> => {
+    let query = supabase.from('notes').select('*');
+    if (filters) query = applyNoteQueryFilters(query, filters);
+    const matches = (row: any) => !filters || matchesNoteQuery(toNote(row), filters);
+    if (after) {
+        // Quoted, since timestamps contain characters the filter syntax reserves
+        query = query.or(`created_at.lt."${after.createdAt}",and(created_at.eq."${after.createdAt}",id.lt.${after.id})`);
+    }
+    // One extra row tells whether another page follows
+    const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(limit + 1);
+
+    if (error) {
+        console.error("Error fetching notes, using offline copy:", error);
+        const cachedRows = (await syncService.getCachedRows('notes'))
+            .sort(compareListOrder)
+            .filter(row => (!after || compareListOrder(row, cursorRow(after)) > 0) && matches(row));
+        const pageRows = cachedRows.slice(0, limit);
+        return {
+            notes: pageRows.map(toNote),
+            nextCursor: cachedRows.length > limit ? cursorOf(pageRows[pageRows.length - 1]) : null,
+        };
+    }
+
+    const hasMore = data.length > limit;
+    const pageRows = data.slice(0, limit);
+    // The page spans the list from the previous cursor to its own last row,
+    // unbounded at either end of the list
+    const last = pageRows[pageRows.length - 1];
+    const inPage = (row: any) =>
+        (!after || compareListOrder(row, cursorRow(after)) > 0) && (!hasMore || compareListOrder(row, last) <= 0) && matches(row);
+    const rows = await syncService.mergeRemoteRowsWhere('notes', pageRows, inPage);
+    return {
+        notes: rows.sort(compareListOrder).map(toNote),
+        nextCursor: hasMore ? cursorOf(last) : null,
+    };
+};
+
+/**
+ * Fetches one page of the current user's notes, newest first, falling back to
+ * the offline copy. Only the fetched range of the offline copy is refreshed.
+ * @param after The previous page's cursor; omit for the first page.
+ * @param limit The page size.
+ */
+export const getNotes = (after?: NotesCursor, limit = NOTES_PAGE_SIZE): Promise<NotesPage> =>
+    getNotesPage(after, limit, null);
+
+/**
+ * Fetches one page of the notes matching a query's filters, across every page
+ * of the list, filtering the offline copy when the server is unreachable.
+ * The free text is not applied; rank it with searchService.searchNotes.
+ * @param after The previous page's cursor; omit for the first page.
+ */
+export const getNotesMatching = (query: NoteQuery, after?: NotesCursor, limit = NOTES_PAGE_SIZE): Promise<NotesPage> =>
+    getNotesPage(after, limit, query);
+
+const hasActionItems = (row: any) => Array.isArray(row.action_items) && row.action_items.length > 0;
+
+// Narrow rows carry a stored title; cached rows are whole notes and work it out
+const toScheduledNote = (row: any): ScheduledNote => ({
+    id: row.id,
+    title: row.title !== undefined ? row.title || UNTITLED_NOTE : getNoteTitle(toNote(row).refinedNote),
+    actionItems: withItemIds(row.id, row.action_items),
+});
+
+/**
+ * Fetches every note with action items, whichever page it is on, for the
+ * calendar, agenda, board and reminders. Only the id, title and items are
+ * downloaded, so they do not go into the offline copy; offline, the cached
+ * notes are used instead.
+ */
+export const getScheduledNotes = async (): Promise<ScheduledNote[]> => {
     const { data, error } = await supabase
         .from('notes')
-        .select('*')
-        .order('created_at', { ascending: false });
+        .select('id, title, action_items')
+        .not('action_items', 'is', null)
+        .neq('action_items', '[]');
+
+    if (error) {
+        console.error("Error fetching notes with action items, using offline copy:", error);
+        const cachedRows = await syncService.getCachedRows('notes');
+        return cachedRows.filter(hasActionItems).map(toScheduledNote);
+    }
+
+    const rows = await syncService.withPendingRows('notes', data, hasActionItems);
+    return rows.filter(hasActionItems).map(toScheduledNote);
+};
+
+/**
+ * Brings scheduled notes up to date with a saved note: it replaces its old
+ * entry, is added if it gained action items, or dropped if it has none left.
+ */
+export const withScheduledNote = (scheduledNotes: ScheduledNote[], note: ProcessedNoteWithId): ScheduledNote[] => {
+    const others = scheduledNotes.filter(n => n.id !== note.id);
+    return note.actionItems.length > 0
+        ? [...others, { id: note.id, title: getNoteTitle(note.refinedNote), actionItems: note.actionItems }]
+        : others;
+};
+
+// Fetch particular notes, e.g. the ones a chat is about, which may be on pages not loaded yet
+export const getNotesByIds = async (ids: string[]): Promise<ProcessedNoteWithId[]> => {
+    if (ids.length === 0) return [];
+    const wanted = new Set(ids);
+    const { data, error } = await supabase.from('notes').select('*').in('id', ids);
 
     if (error) {
-        console.error("Error fetching notes:", error);
+        console.error("Error fetching notes, using offline copy:", error);
+        const cachedRows = await syncService.getCachedRows('notes');
+        return cachedRows.filter(row => wanted.has(row.id)).sort(newestFirst).map(toNote);
+    }
+
+    const rows = await syncService.mergeRemoteRowsWhere('notes', data, row => wanted.has(row.id));
+    return rows.sort(newestFirst).map(toNote);
+};
+
+// The ids of every note on the server, e.g. to find notes the search index is missing;
+// null when the server is unreachable
+export const getNoteIds = async (): Promise<string[] | null> => {
+    const { data, error } = await supabase.from('notes').select('id');
+
+    if (error) {
+        console.error("Error fetching note ids:", error);
+        return null;
+    }
+    return data.map(row => row.id);
+};
+
+/**
+ * Ranked full-text search over all of the user's notes on the server. Accepts
+ * web-search syntax: "quoted phrases", -excluded words and or.
+ * @param matchAny Match notes containing any of the words rather than all of them, for questions in plain language.
+ * @returns The matches, best first; none when the server is unreachable.
+ */
+export const searchNotesFullText = async (query: string, matchAny = false, limit = 20, offset = 0): Promise<FullTextMatch[]> => {
+    if (!query.trim()) return [];
+    const { data, error } = await supabase.rpc('search_notes', {
+        search_query: query,
+        match_any: matchAny,
+        match_limit: limit,
+        match_offset: offset,
+    });
+
+    if (error) {
+        console.error("Error searching notes:", error);
         return [];
     }
 
-    return data.map((note: any) => ({
-        id: note.id,
-        createdAt: note.created_at,
-        refinedNote: note.refined_note,
-        emotionAnalysis: note.emotion_analysis,
-        actionItems: note.action_items || []
+    // Cache the found notes, so they can be opened and edited like loaded ones
+    const found: any[] = data ?? [];
+    const ids = new Set(found.map(match => match.note.id));
+    const rows = new Map((await syncService.mergeRemoteRowsWhere('notes', found.map(match => match.note), row => ids.has(row.id)))
+        .map(row => [row.id, row]));
+    return found.map(match => ({
+        note: toNote(rows.get(match.note.id) ?? match.note),
+        rank: match.rank,
+        snippet: match.snippet,
     }));
 };
 
-// Helper for Today's Actions
-const isActionItemForToday = (dueDate: string): boolean => {
-    if (!dueDate) return false;
-    const today = new Date();
-    const year = today.getFullYear();
-    const month = (today.getMonth() + 1).toString().padStart(2, '0');
-    const day = today.getDate().toString().padStart(2, '0');
-    const localTodayStr = `${year}-${month}-${day}`;
-    return dueDate === localTodayStr;
+/**
+ * Combines note lists, e.g. a newly loaded page with the notes already shown.
+ * Earlier lists win when a note appears twice, so fresh local edits are kept.
+ * @returns The notes, newest first.
+ */
+export const mergeNoteLists = (...lists: ProcessedNoteWithId[][]): ProcessedNoteWithId[] => {
+    const byId = new Map<string, ProcessedNoteWithId>();
+    lists.flat().forEach(note => { if (!byId.has(note.id)) byId.set(note.id, note); });
+    return Array.from(byId.values()).sort((a, b) =>
+        compareListOrder({ created_at: a.createdAt, id: a.id }, { created_at: b.createdAt, id: b.id }));
 };
 
-// Calculate today's actions from fetched notes
-export const getTodaysActionItemsFromNotes = (notes: ProcessedNoteWithId[]): TodaysActionItem[] => {
-    const todaysItems: TodaysActionItem[] = [];
+/**
+ * Finds note action items and tasks by due date.
+ * A recurring item appears once, dated to its first occurrence in the range.
+ * @param notes The user's notes.
+ * @param tasks The user's tasks from the tasks table.
+ * @param query The date range and filters; by default every open, dated item.
+ * @returns The matching items in no particular order.
+ */
+export const queryActionItems = (notes: ScheduledNote[], tasks: Task[], query: ActionItemQuery = {}): TodaysActionItem[] => {
+    const matchDate = (item: ActionItem): string | null => {
+        if (item.completed && !query.includeCompleted) return null;
+        if (query.undated) return item.dueDate ? null : '';
+        return firstOccurrenceInRange(item, query.from, query.to);
+    };
+
+    const items: TodaysActionItem[] = [];
     notes.forEach(note => {
-        if (note.actionItems) {
-            note.actionItems.forEach((item, index) => {
-                if (isActionItemForToday(item.dueDate) && !item.completed) {
-                    todaysItems.push({
-                        noteId: note.id,
-                        itemIndex: index,
-                        item: item,
-                        noteTitle: note.refinedNote.split('\n')[0].replace(/^#\s*/, '') || 'Untitled Note',
-                    });
-                }
+        note.actionItems?.forEach(item => {
+            const dueDate = matchDate(item);
+            if (dueDate !== null) {
+                items.push({ source: 'note', noteId: note.id, itemId: item.id, item: { ...item, dueDate }, noteTitle: note.title });
+            }
+        });
+    });
+    tasks.forEach(task => {
+        const dueDate = matchDate(task);
+        if (dueDate !== null) {
+            // The linked note may have been deleted since
+            const note = task.noteId ? notes.find(n => n.id === task.noteId) : undefined;
+            items.push({
+                source: 'task',
+                noteId: note ? note.id : null,
+                itemId: task.id,
+                item: { ...task, dueDate },
+                noteTitle: note ? note.title : null,
             });
         }
     });
-    todaysItems.sort((a, b) => {
-        const aTime = a.item.time;
-        const bTime = b.item.time;
-        if (aTime && bTime) return aTime.localeCompare(bTime);
-        if (aTime) return -1;
-        if (bTime) return 1;
-        return 0;
-    });
-    return todaysItems;
+    return items;
 };
 
-export const saveNote = async (note: ProcessedNote): Promise<ProcessedNoteWithId> => {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) throw new Error("User not authenticated");
+// Collect everything due on one day, completed items included
+export const getScheduledItems = (notes: ScheduledNote[], tasks: Task[], dueDate: string): TodaysActionItem[] =>
+    queryActionItems(notes, tasks, { from: dueDate, to: dueDate, includeCompleted: true });
 
-    const actionItems = note.actionItems.map((item: AIActionItem) => ({ 
-        text: item.text, 
-        dueDate: item.dueDate,
-        completed: false 
-    }));
+// Earliest due date first; on the same day, timed items first and in time order
+export const compareByDueDate = (a: TodaysActionItem, b: TodaysActionItem): number => {
+    if (a.item.dueDate !== b.item.dueDate) return a.item.dueDate.localeCompare(b.item.dueDate);
+    const aTime = a.item.time;
+    const bTime = b.item.time;
+    if (aTime && bTime) return aTime.localeCompare(bTime);
+    if (aTime) return -1;
+    if (bTime) return 1;
+    return 0;
+};
 
-    const { data, error } = await supabase
-        .from('notes')
-        .insert({
-            user_id: user.id,
-            refined_note: note.refinedNote,
-            emotion_analysis: note.emotionAnalysis,
-            action_items: actionItems
-        })
-        .select()
-        .single();
+/**
+ * Whether a scheduled entry can be dragged to another day or time. Completed
+ * entries stay put, and only the next open occurrence of a recurring item
+ * moves; later occurrences follow the rule.
+ */
+export const canReschedule = (notes: ScheduledNote[], tasks: Task[], entry: TodaysActionItem): boolean => {
+    if (entry.item.completed) return false;
+    const stored: ActionItem | undefined = entry.source === 'task'
+        ? tasks.find(t => t.id === entry.itemId)
+        : notes.find(n => n.id === entry.noteId)?.actionItems.find(i => i.id === entry.itemId);
+    return !!stored && (!isRecurring(stored) || stored.dueDate === entry.item.dueDate);
+};
 
-    if (error) throw new Error(error.message);
+// Calculate today's open actions from fetched notes and tasks
+export const getTodaysActionItemsFromNotes = (notes: ScheduledNote[], tasks: Task[] = []): TodaysActionItem[] => {
+    const today = toLocalDateString(new Date());
+    return queryActionItems(notes, tasks, { from: today, to: today }).sort(compareByDueDate);
+};
 
-    return {
-        id: data.id,
-        createdAt: data.created_at,
-        refinedNote: data.refined_note,
-        emotionAnalysis: data.emotion_analysis,
-        actionItems: data.action_items
-    };
+export const saveNote = async (note: ProcessedNote, source: NoteSource = {}): Promise<ProcessedNoteWithId> => {
+    const actionItems = note.actionItems.map(toActionItem);
+
+    const row = await createNoteRow({
+        refined_note: note.refinedNote,
+        emotion_analysis: note.emotionAnalysis,
+        action_items: actionItems,
+        raw_transcript: source.rawTranscript ?? null,
+        audio_url: source.audioPath ?? null,
+        transcript_segments: source.transcriptSegments ?? null,
+        processing_status: 'processed'
+    });
+    await syncService.saveRow('notes', row);
+
+    return toNote(row);
 };
 
-export const updateNote = async (id: string, updatedData: ProcessedNote): Promise<ProcessedNoteWithId> => {
-    const actionItems = updatedData.actionItems.map((item: AIActionItem) => ({ 
-        text: item.text, 
-        dueDate: item.dueDate,
-        completed: false 
-    }));
+// Keep a transcript the AI could not process yet. The raw text stands in for
+// the refined note until the processing queue fills in the analysis.
+export const saveUnprocessedNote = async (rawTranscript: string, source: NoteSource = {}): Promise<ProcessedNoteWithId> => {
+    const row = await createNoteRow({
+        refined_note: rawTranscript,
+        emotion_analysis: PENDING_ANALYSIS,
+        action_items: [],
+        raw_transcript: rawTranscript,
+        audio_url: source.audioPath ?? null,
+        transcript_segments: source.transcriptSegments ?? null,
+        processing_status: 'unprocessed'
+    });
+    await syncService.saveRow('notes', row);
 
-    const { data, error } = await supabase
-        .from('notes')
-        .update({
-            refined_note: updatedData.refinedNote,
-            emotion_analysis: updatedData.emotionAnalysis,
-            action_items: actionItems
-        })
-        .eq('id', id)
-        .select()
-        .single();
+    return toNote(row);
+};
 
-    if (error) throw new Error(error.message);
+// Flag an edited note for re-processing when the AI call for the edit failed
+export const markNoteUnprocessed = async (id: string, rawTranscript: string): Promise<ProcessedNoteWithId> => {
+    return updateNoteRow(id, {
+        raw_transcript: rawTranscript,
+        processing_status: 'unprocessed'
+    });
+};
 
-    return {
-        id: data.id,
-        createdAt: data.created_at,
-        refinedNote: data.refined_note,
-        emotionAnalysis: data.emotion_analysis,
-        actionItems: data.action_items
-    };
+// Notes still waiting for AI processing, read from the offline copy
+export const getUnprocessedNotes = async (): Promise<ProcessedNoteWithId[]> => {
+    const rows = await syncService.getCachedRows('notes');
+    return rows.filter(row => row.processing_status === 'unprocessed').map(toNote);
 };
 
-export const saveManualTaskAsNote = async (task: { text: string; dueDate: string; time?: string; }): Promise<ProcessedNoteWithId> => {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) throw new Error("User not authenticated");
+// Save a fresh AI analysis of an existing note. Action items are reconciled
+// with the current ones so completion, times and hand-picked dates survive.
+export const updateNote = async (id: string, updatedData: ProcessedNote, rawTranscript?: string): Promise<ProcessedNoteWithId> => {
+    const existing = await getNoteRow(id);
+    if (!existing) throw new Error("Note not found");
+    const { items, changes } = reconcileActionItems(withItemIds(id, existing.action_items), updatedData.actionItems);
 
-    const noteContent = `# To-Do: ${task.text}`;
-    const emotionAnalysis = {
-        summary: 'Task added manually from calendar.',
-        emotions: [],
-    };
-    const actionItems = [{
-        text: task.text,
-        dueDate: task.dueDate,
-        time: task.time,
-        completed: false,
-    }];
+    return updateNoteRow(id, {
+        refined_note: updatedData.refinedNote,
+        emotion_analysis: updatedData.emotionAnalysis,
+        action_items: items,
+        action_item_changes: changes,
+        processing_status: 'processed',
+        // Only replace the stored transcript when the caller edited it
+        ...(rawTranscript !== undefined && { raw_transcript: rawTranscript })
+    });
+};
 
-    const { data, error } = await supabase
-        .from('notes')
-        .insert({
-            user_id: user.id,
-            refined_note: noteContent,
-            emotion_analysis: emotionAnalysis,
-            action_items: actionItems
-        })
-        .select()
-        .single();
 
-    if (error) throw new Error(error.message);
+export const deleteNote = async (id: string): Promise<void> => {
+    const existing = await getNoteRow(id);
+    await syncService.removeRow('notes', id);
 
-    return {
-        id: data.id,
-        createdAt: data.created_at,
-        refinedNote: data.refined_note,
-        emotionAnalysis: data.emotion_analysis,
-        actionItems: data.action_items
-    };
+    // The recording must not outlive its note
+    if (existing?.audio_url) {
+        try {
+            await deleteNoteAudio(existing.audio_url);
+        } catch (e) {
+            console.error("Failed to delete the note's recording", e);
+        }
+    }
 };
 
+// For recurring items, occurrenceDate says which occurrence was completed
+export const toggleActionItemCompletion = async (note: NoteActionItems, itemId: string, occurrenceDate?: string): Promise<ProcessedNoteWithId | undefined> => {
+    const updatedItems = note.actionItems.map(item =>
+        item.id === itemId ? toggleOccurrence(item, occurrenceDate) : item
+    );
 
-export const deleteNote = async (id: string): Promise<void> => {
-    const { error } = await supabase.from('notes').delete().eq('id', id);
-    if (error) throw new Error(error.message);
+    try {
+        return await updateNoteRow(note.id, { action_items: updatedItems });
+    } catch (e) {
+        console.error("Error updating action item:", e);
+        return undefined;
+    }
 };
 
-export const toggleActionItemCompletion = async (note: ProcessedNoteWithId, itemIndex: number): Promise<ProcessedNoteWithId | undefined> => {
-    const updatedItems = [...note.actionItems];
-    if (updatedItems[itemIndex]) {
-        updatedItems[itemIndex].completed = !updatedItems[itemIndex].completed;
+// For recurring items, occurrenceDate says which occurrence the subtask belongs to
+export const toggleActionItemSubtask = async (note: NoteActionItems, itemId: string, subtaskId: string, occurrenceDate?: string): Promise<ProcessedNoteWithId | undefined> => {
+    const updatedItems = note.actionItems.map(item =>
+        item.id === itemId ? toggleSubtask(item, subtaskId, occurrenceDate) : item
+    );
+
+    try {
+        return await updateNoteRow(note.id, { action_items: updatedItems });
+    } catch (e) {
+        console.error("Error updating subtask:", e);
+        return undefined;
     }
+};
 
-    const { data, error } = await supabase
-        .from('notes')
-        .update({ action_items: updatedItems })
-        .eq('id', note.id)
-        .select()
-        .single();
+// Save an edited subtask list, e.g. after adding, removing or accepting AI suggestions
+export const updateActionItemSubtasks = async (note: NoteActionItems, itemId: string, subtasks: Subtask[]): Promise<ProcessedNoteWithId | undefined> => {
+    const updatedItems = note.actionItems.map(item =>
+        item.id === itemId ? withSubtasks(item, subtasks) : item
+    );
 
-    if (error || !data) return undefined;
+    try {
+        return await updateNoteRow(note.id, { action_items: updatedItems });
+    } catch (e) {
+        console.error("Error updating subtasks:", e);
+        return undefined;
+    }
+};
 
-    return {
-        ...note,
-        actionItems: data.action_items
-    };
+// Pass newTime to move the item to another time as well, or null to make it untimed
+export const updateActionItemDate = async (note: NoteActionItems, itemId: string, newDueDate: string, newTime?: string | null): Promise<ProcessedNoteWithId | undefined> => {
+    const updatedItems = note.actionItems.map(item => {
+        if (item.id !== itemId) return item;
+        const updated = { ...item, dueDate: newDueDate, dueDateOverridden: true };
+        if (newTime !== undefined) updated.time = newTime ?? undefined;
+        return updated;
+    });
+
+    try {
+        return await updateNoteRow(note.id, { action_items: updatedItems });
+    } catch (e) {
+        console.error("Error updating action item:", e);
+        return undefined;
+    }
+};
+
+/**
+ * Applies a change to several action items, writing each affected note once.
+ * Notes are read from the offline copy, so changes made moments ago are kept.
+ * @param refs The items to change; an item listed twice gets its latest occurrence.
+ * @param change Returns the updated item, or the same object to leave it alone.
+ * @returns The notes that changed.
+ */
+const updateActionItemsByRef = async (
+    refs: ActionItemRef[],
+    change: (item: ActionItem, ref: ActionItemRef) => ActionItem
+): Promise<ProcessedNoteWithId[]> => {
+    const refsByNote = new Map<string, ActionItemRef[]>();
+    refs.forEach(ref => refsByNote.set(ref.noteId, [...(refsByNote.get(ref.noteId) ?? []), ref]));
+
+    const updatedNotes: ProcessedNoteWithId[] = [];
+    for (const [noteId, noteRefs] of refsByNote) {
+        const existing = await getNoteRow(noteId);
+        if (!existing) continue;
+
+        let changed = false;
+        const items = withItemIds(noteId, existing.action_items).map(item => {
+            const ref = noteRefs
+                .filter(r => r.itemId === item.id)
+                .sort((a, b) => a.occurrenceDate.localeCompare(b.occurrenceDate))
+                .pop();
+            if (!ref) return item;
+            const updated = change(item, ref);
+            changed = changed || updated !== item;
+            return updated;
+        });
+        if (changed) {
+            updatedNotes.push(await updateNoteRow(noteId, { action_items: items }));
+        }
+    }
+    return updatedNotes;
 };
 
-export const updateActionItemDate = async (note: ProcessedNoteWithId, itemIndex: number, newDueDate: string): Promise<ProcessedNoteWithId | undefined> => {
-    const updatedItems = [...note.actionItems];
-    if (updatedItems[itemIndex]) {
-        updatedItems[itemIndex].dueDate = newDueDate;
+/**
+ * Completes the given occurrences of action items, e.g. from the agenda or a
+ * reminder. Unlike toggling, occurrences that are already done are left alone,
+ * so a repeated "mark done" cannot undo one.
+ * @returns The notes that changed.
+ */
+export const completeActionItems = (refs: ActionItemRef[]): Promise<ProcessedNoteWithId[]> =>
+    updateActionItemsByRef(refs, (item, ref) =>
+        !item.completed && occursOn(item, ref.occurrenceDate) ? toggleOccurrence(item, ref.occurrenceDate) : item
+    );
+
+// Move action items to a new date; a recurring item's series moves with it
+export const rescheduleActionItems = (refs: ActionItemRef[], newDueDate: string): Promise<ProcessedNoteWithId[]> =>
+    updateActionItemsByRef(refs, item =>
+        item.dueDate === newDueDate ? item : { ...item, dueDate: newDueDate, dueDateOverridden: true }
+    );
+
+// Complete one occurrence of an action item; undefined if it was already done
+export const completeActionItemOccurrence = async (noteId: string, itemId: string, occurrenceDate: string): Promise<ProcessedNoteWithId | undefined> => {
+    const [updatedNote] = await completeActionItems([{ noteId, itemId, occurrenceDate }]);
+    return updatedNote;
+};
+
+// Priority, tags and board status
+export const updateActionItemDetails = async (note: NoteActionItems, itemId: string, details: ActionItemDetails): Promise<ProcessedNoteWithId | undefined> => {
+    const updatedItems = note.actionItems.map(item => item.id === itemId ? applyDetails(item, details) : item);
+
+    try {
+        return await updateNoteRow(note.id, { action_items: updatedItems });
+    } catch (e) {
+        console.error("Error updating action item:", e);
+        return undefined;
     }
+};
 
-    const { data, error } = await supabase
-        .from('notes')
-        .update({ action_items: updatedItems })
-        .eq('id', note.id)
-        .select()
-        .single();
-        
-    if (error || !data) return undefined;
+export const updateActionItemRecurrence = async (note: NoteActionItems, itemId: string, recurrence: string | undefined): Promise<ProcessedNoteWithId | undefined> => {
+    const updatedItems = note.actionItems.map(item =>
+        item.id === itemId ? { ...item, recurrence: normalizeRecurrence(recurrence) } : item
+    );
 
-    return {
-        ...note,
-        actionItems: data.action_items
-    };
+    try {
+        return await updateNoteRow(note.id, { action_items: updatedItems });
+    } catch (e) {
+        console.error("Error updating action item:", e);
+        return undefined;
+    }
+};
+
+// Hide the added/removed markers from the last re-analysis
+export const clearActionItemChanges = async (id: string): Promise<ProcessedNoteWithId> => {
+    return updateNoteRow(id, { action_item_changes: null });
 };
@@ -0,0 +1,105 @@
+import type { ProcessedNoteWithId } from '../types';
+import { processTranscript } from './geminiService';
+import * as notesService from './notesService';
+
+// Retries AI processing for notes saved as 'unprocessed' (the model call failed
+// or we were offline). Each failure doubles the wait before the next attempt.
+
+const BASE_RETRY_DELAY_MS = 10_000;
+const MAX_RETRY_DELAY_MS = 15 * 60_000;
+
+interface RetryState {
+    attempts: number;
+    nextAttemptAt: number;
+}
+
+type ProcessedListener = (note: ProcessedNoteWithId) => void;
+
+const retries = new Map<string, RetryState>();
+let listener: ProcessedListener | null = null;
+let timer: number | undefined;
+let running = false;
+
+// 10s, 20s, 40s, ... capped at 15 minutes
+export const getRetryDelay = (attempts: number): number =>
+    Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+
+const recordFailure = (noteId: string) => {
+    const attempts = (retries.get(noteId)?.attempts ?? 0) + 1;
+    retries.set(noteId, { attempts, nextAttemptAt: Date.now() + getRetryDelay(attempts) });
+};
+
+const scheduleNext = async () => {
+    window.clearTimeout(timer);
+    if (!listener) return;
+
+    const pending = await notesService.getUnprocessedNotes();
+    if (pending.length === 0) return;
+
+    const nextAttemptAt = Math.min(...pending.map(note => retries.get(note.id)?.nextAttemptAt ?? Date.now()));
+    timer = window.setTimeout(runDueJobs, Math.max(0, nextAttemptAt - Date.now()));
+};
+
+const runDueJobs = async () => {
+    if (running) return;
+    running = true;
+
+    try {
+        const pending = await notesService.getUnprocessedNotes();
+        for (const note of pending) {
+            const state = retries.get(note.id);
+            if (state && state.nextAttemptAt > Date.now()) continue;
+
+            try {
+                const result = await processTranscript(note.rawTranscript ?? note.refinedNote);
+                const processed = await notesService.updateNote(note.id, result);
+                retries.delete(note.id);
+                listener?.(processed);
+            } catch (e) {
+                recordFailure(note.id);
+                console.warn(`AI processing for note ${note.id} failed, will retry in ${getRetryDelay(retries.get(note.id)!.attempts) / 1000}s.`, e);
+            }
+        }
+    } catch (e) {
+        console.error("Processing queue failed", e);
+    } finally {
+        running = false;
+        scheduleNext();
+    }
+};
+
+// Queue a note whose first AI attempt just failed; it is retried after the first backoff
+export const enqueueNote = (noteId: string): void => {
+    recordFailure(noteId);
+    scheduleNext();
+};
+
+// Skip the backoff and try a note again right away
+export const retryNow = (noteId: string): void => {
+    const state = retries.get(noteId);
+    retries.set(noteId, { attempts: state?.attempts ?? 0, nextAttemptAt: Date.now() });
+    scheduleNext();
+};
+
+/**
+ * Starts working through unprocessed notes, including ones left over from earlier sessions.
+ * @param onProcessed Called with each note once its AI analysis has been saved.
+ * @returns A function that stops the queue.
+ */
+export const startProcessingQueue = (onProcessed: ProcessedListener): (() => void) => {
+    listener = onProcessed;
+
+    // Coming back online is the most likely moment for a retry to succeed
+    const handleOnline = () => {
+        retries.forEach(state => { state.nextAttemptAt = Date.now(); });
+        scheduleNext();
+    };
+    window.addEventListener('online', handleOnline);
+    scheduleNext();
+
+    return () => {
+        listener = null;
+        window.clearTimeout(timer);
+        window.removeEventListener('online', handleOnline);
+    };
+};
@@ -0,0 +1,88 @@
+import { supabase, supabaseUrl, supabaseKey } from './supabaseClient';
+import type { ProcessedNote } from '../types';
+import type { AIProvider, ChatStreamChunk, Embeddings } from './aiProvider';
+
+// Talks to the ai-proxy Edge Function, which holds the Gemini API key and
+// checks the caller's Supabase session before forwarding to the model.
+
+const PROXY_FUNCTION = 'ai-proxy';
+
+const callProxy = async (route: string, body: unknown): Promise<Response> => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error("User not authenticated");
+
+    const response = await fetch(`${supabaseUrl}/functions/v1/${PROXY_FUNCTION}/${route}`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${session.access_token}`,
+            'apikey': supabaseKey,
+        },
+        body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(payload?.error || `AI proxy request failed with status ${response.status}`);
+    }
+    return response;
+};
+
+// The proxy streams newline-delimited JSON, one ChatStreamChunk per line
+async function* readChatStream(response: Response): AsyncGenerator<ChatStreamChunk> {
+    if (!response.body) throw new Error("The AI proxy returned an empty response.");
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+
+    const parseLine = (line: string): ChatStreamChunk | null => {
+        if (!line.trim()) return null;
+        const chunk = JSON.parse(line);
+        if (chunk.error) throw new Error(chunk.error);
+        return chunk;
+    };
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffered += decoder.decode(value, { stream: true });
+        const lines = buffered.split('\n');
+        buffered = lines.pop() ?? '';
+        for (const line of lines) {
+            const chunk = parseLine(line);
+            if (chunk) yield chunk;
+        }
+    }
+
+    const last = parseLine(buffered + decoder.decode());
+    if (last) yield last;
+}
+
+export const proxyAIProvider: AIProvider = {
+    processTranscript: async (transcript: string): Promise<ProcessedNote> => {
+        const response = await callProxy('process-transcript', { transcript });
+        return response.json();
+    },
+
+    suggestSubtasks: async (itemText: string, context?: string): Promise<string[]> => {
+        const response = await callProxy('suggest-subtasks', { text: itemText, context });
+        const { subtasks } = await response.json();
+        return subtasks;
+    },
+
+    embedTexts: async (texts, purpose): Promise<Embeddings> => {
+        const response = await callProxy('embed', { texts, purpose });
+        return response.json();
+    },
+
+    async *continueChatStream(notes, question, history, useGoogleSearch) {
+        const response = await callProxy('chat-stream', { notes, question, history, useGoogleSearch });
+        yield* readChatStream(response);
+    },
+
+    async *continueChunkChatStream(chunks, question, history, useGoogleSearch) {
+        const response = await callProxy('chunk-chat-stream', { chunks, question, history, useGoogleSearch });
+        yield* readChatStream(response);
+    },
+};
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { parseQuickAdd } from './quickAdd';
+
+// A Monday
+const NOW = new Date(2026, 9, 19, 12);
+
+const parse = (input: string) => parseQuickAdd(input, NOW);
+
+describe('parseQuickAdd', () => {
+    it('reads the example line into all its fields', () => {
+        expect(parse('call Sam tomorrow at 3pm every week #work !high')).toEqual({
+            text: 'call Sam',
+            dueDate: '2026-10-20',
+            dateMatched: true,
+            time: '15:00',
+            recurrence: 'FREQ=WEEKLY',
+            tags: ['work'],
+            priority: 'P2',
+        });
+    });
+
+    it('falls back to today without a date', () => {
+        const result = parse('water the plants');
+
+        expect(result.dueDate).toBe('2026-10-19');
+        expect(result.dateMatched).toBe(false);
+        expect(result.time).toBeUndefined();
+    });
+
+    it('starts a weekday rule on its first occurrence', () => {
+        const result = parse('team sync every wednesday and friday');
+
+        expect(result.recurrence).toBe('FREQ=WEEKLY;BYDAY=WE,FR');
+        expect(result.dueDate).toBe('2026-10-21');
+    });
+});
+
+describe('parseQuickAdd times', () => {
+    it.each([
+        ['call Sam at 3', '15:00', 'call Sam'],
+        ['gym at 8', '08:00', 'gym'],
+        ['lunch at 12', '12:00', 'lunch'],
+        ['flight at 3am', '03:00', 'flight'],
+        ['meeting at 15:00', '15:00', 'meeting'],
+        ['pick up cake at noon', '12:00', 'pick up cake'],
+    ])('reads "%s" as %s', (input, time, text) => {
+        const result = parse(input);
+
+        expect(result.time).toBe(time);
+        expect(result.text).toBe(text);
+    });
+
+    it.each([
+        ['dinner tonight at 8', '20:00', 'dinner'],
+        ['drinks at 8 this evening', '20:00', 'drinks'],
+        ['call mom tomorrow evening at 9', '21:00', 'call mom'],
+        ['movie at 9:30 tonight', '21:30', 'movie'],
+        ['run at 7 this morning', '07:00', 'run'],
+        ['dinner tonight at 20:00', '20:00', 'dinner'],
+    ])('lets the day part decide am or pm in "%s"', (input, time, text) => {
+        const result = parse(input);
+
+        expect(result.time).toBe(time);
+        expect(result.text).toBe(text);
+    });
+
+    it.each([
+        ['standup 11am-12pm', '11:00', 'standup'],
+        ['workshop 3 to 4pm', '15:00', 'workshop'],
+        ['review 11-1pm', '11:00', 'review'],
+        ['planning from 10:00 until 11:30', '10:00', 'planning'],
+    ])('keeps the start of the range in "%s"', (input, time, text) => {
+        const result = parse(input);
+
+        expect(result.time).toBe(time);
+        expect(result.text).toBe(text);
+    });
+
+    it('leaves counts that look like ranges in the text', () => {
+        const result = parse('buy 2-3 apples');
+
+        expect(result.time).toBeUndefined();
+        expect(result.text).toBe('buy 2-3 apples');
+    });
+
+    it('keeps a day part without a time in the text', () => {
+        const result = parse('call mom this evening');
+
+        expect(result.time).toBeUndefined();
+        expect(result.dueDate).toBe('2026-10-19');
+    });
+});
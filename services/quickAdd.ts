@@ -0,0 +1,245 @@
+import { normalizeTags } from './actionItemFields';
+import { formatRecurrence } from './recurrence';
+import { toLocalDateString } from './dates';
+import type { RecurrenceRule } from './recurrence';
+import type { Priority } from '../types';
+
+// Parses one-line quick-add input such as "call Sam tomorrow at 3pm every week #work !high"
+// with fixed rules, so the preview is instant and works offline. Each recognized
+// phrase is cut out of the text; whatever is left becomes the task text.
+//
+//   dates       today, tonight, this evening, tomorrow, day after tomorrow, next week,
+//               in 3 days, (next) friday, oct 25, 25 october, 2026-10-25
+//   times       at 3pm, 3:30 pm, at 15:00, at 3 (1 to 7 mean pm), noon, midnight,
+//               11am-12pm or 3 to 4pm (the start is kept); tonight, evening or
+//               morning elsewhere in the line say whether a bare hour is am or pm
+//   recurrence  daily, every day, every weekday, every 2 weeks, every other month,
+//               every monday and thursday, monthly on the 15th
+//   tags        #work
+//   priority    !p1 .. !p4, !urgent, !high, !medium, !low
+
+export interface QuickAddResult {
+    text: string;
+    dueDate: string; // YYYY-MM-DD
+    dateMatched: boolean; // false when dueDate fell back to today
+    time?: string; // HH:MM
+    recurrence?: string;
+    tags: string[];
+    priority?: Priority;
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const WEEKDAY = '(?:sun|mon|tue|tues|wed|thu|thur|thurs|fri|sat)(?:day|nesday|urday|sday)?';
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH = '(january|jan|february|feb|march|mar|april|apr|may|june|jun|july|jul|august|aug|september|sept|sep|october|oct|november|nov|december|dec)\\.?';
+const UNITS: Record<string, RecurrenceRule['freq']> = {
+    day: 'DAILY', daily: 'DAILY',
+    week: 'WEEKLY', weekly: 'WEEKLY',
+    month: 'MONTHLY', monthly: 'MONTHLY',
+};
+
+const PRIORITY_WORDS: Record<string, Priority> = {
+    p1: 'P1', urgent: 'P1', critical: 'P1',
+    p2: 'P2', high: 'P2',
+    p3: 'P3', medium: 'P3', med: 'P3',
+    p4: 'P4', low: 'P4',
+};
+
+const pad = (n: number): string => n.toString().padStart(2, '0');
+
+const addDays = (date: Date, days: number): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const weekdayIndex = (name: string): number => WEEKDAYS.findIndex(day => day.startsWith(name.slice(0, 3).toLowerCase()));
+
+// The first day on or after `from` that falls on the weekday
+const nextWeekday = (from: Date, weekday: number): Date => addDays(from, (weekday - from.getDay() + 7) % 7);
+
+// Picks the coming occurrence of a month and day, rolling into next year once it has passed
+const upcomingDate = (today: Date, month: number, day: number): Date | null => {
+    let date = new Date(today.getFullYear(), month, day);
+    if (date.getMonth() !== month) return null;
+    if (date < today) date = new Date(today.getFullYear() + 1, month, day);
+    return date;
+};
+
+const to24Hour = (hours: number, minutes: number, meridiem?: string): string | null => {
+    if (meridiem) {
+        if (hours < 1 || hours > 12) return null;
+        hours = hours % 12 + (meridiem.toLowerCase().startsWith('p') ? 12 : 0);
+    }
+    if (hours > 23 || minutes > 59) return null;
+    return `${pad(hours)}:${pad(minutes)}`;
+};
+
+type DayPart = 'am' | 'pm';
+
+// Which half of the day the line talks about, e.g. "tonight" or "this morning"
+const readDayPart = (text: string): DayPart | undefined =>
+    /\b(?:tonight|afternoon|evening|night)\b/i.test(text) ? 'pm'
+    : /\bmorning\b/i.test(text) ? 'am'
+    : undefined;
+
+// An hour written without am or pm, read in the day part when there is one
+const toDayPartHour = (hours: number, minutes: number, dayPart?: DayPart): string | null =>
+    to24Hour(hours, minutes, dayPart && hours >= 1 && hours <= 12 ? dayPart : undefined);
+
+// A clock time with optional minutes and am/pm, as three capture groups
+const CLOCK = '(\\d{1,2})(?::(\\d{2}))?\\s*(?:([ap])\\.?m\\.?)?';
+
+/**
+ * Finds the first match of a pattern that the reader accepts and removes it from the text.
+ * @param read Turns a match into a value, or returns null to skip it.
+ * @returns The reader's value, or undefined when no match was accepted.
+ */
+const take = <T>(state: { text: string }, pattern: RegExp, read: (match: RegExpMatchArray) => T | null): T | undefined => {
+    for (const match of state.text.matchAll(new RegExp(pattern.source, `${pattern.flags}g`))) {
+        const value = read(match);
+        if (value === null || match.index === undefined) continue;
+        state.text = `${state.text.slice(0, match.index)} ${state.text.slice(match.index + match[0].length)}`;
+        return value;
+    }
+    return undefined;
+};
+
+const readRecurrence = (state: { text: string }): RecurrenceRule | undefined =>
+    take(state, /\b(daily|weekly|monthly)\b/i, match => ({ freq: UNITS[match[1].toLowerCase()], interval: 1 }))
+    ?? take(state, /\bevery\s+(?:week)?day\b(?!s)/i, () => ({ freq: 'WEEKLY', interval: 1, byDay: [1, 2, 3, 4, 5] }))
+    ?? take(state, /\bevery\s+(other|\d+)?\s*(day|week|month)s?\b/i, match => ({
+        freq: UNITS[match[2].toLowerCase()],
+        interval: !match[1] ? 1 : match[1].toLowerCase() === 'other' ? 2 : Number(match[1]),
+    }))
+    ?? take(state, new RegExp(`\\b(?:every|each)\\s+(${WEEKDAY}(?:\\s*(?:,|and|&)\\s*${WEEKDAY})*)\\b`, 'i'), match => {
+        const days = match[1].split(/\s*(?:,|and|&)\s*/i).map(weekdayIndex);
+        return days.some(day => day < 0) ? null : { freq: 'WEEKLY', interval: 1, byDay: Array.from(new Set(days)) };
+    });
+
+// "on the 15th" only means something for a monthly rule
+const readMonthDay = (state: { text: string }): number | undefined =>
+    take(state, /\b(?:on\s+)?the\s+(\d{1,2})(?:st|nd|rd|th)\b/i, match => {
+        const day = Number(match[1]);
+        return day >= 1 && day <= 31 ? day : null;
+    });
+
+const readDate = (state: { text: string }, today: Date): Date | undefined =>
+    take(state, /\b(\d{4})-(\d{2})-(\d{2})\b/, match => {
+        const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+        return date.getDate() === Number(match[3]) ? date : null;
+    })
+    ?? take(state, /\b(?:the\s+)?day\s+after\s+tomorrow\b/i, () => addDays(today, 2))
+    ?? take(state, /\b(?:tomorrow|tmrw?)\b/i, () => addDays(today, 1))
+    ?? take(state, /\b(?:today|tonight|this\s+(?:morning|afternoon|evening))\b/i, () => today)
+    ?? take(state, /\bnext\s+week\b/i, () => addDays(nextWeekday(today, 1), today.getDay() === 1 ? 7 : 0))
+    ?? take(state, /\bin\s+(\d+|a|an|one|two|three)\s+(day|week|month)s?\b/i, match => {
+        const count = { a: 1, an: 1, one: 1, two: 2, three: 3 }[match[1].toLowerCase()] ?? Number(match[1]);
+        const unit = match[2].toLowerCase();
+        if (unit === 'month') return new Date(today.getFullYear(), today.getMonth() + count, today.getDate());
+        return addDays(today, unit === 'week' ? count * 7 : count);
+    })
+    ?? take(state, new RegExp(`\\b(?:on\\s+)?${MONTH}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b`, 'i'), match =>
+        upcomingDate(today, MONTHS.indexOf(match[1].slice(0, 3).toLowerCase()), Number(match[2])))
+    ?? take(state, new RegExp(`\\b(?:on\\s+)?(?:the\\s+)?(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH}`, 'i'), match =>
+        upcomingDate(today, MONTHS.indexOf(match[2].slice(0, 3).toLowerCase()), Number(match[1])))
+    ?? take(state, new RegExp(`\\b(next\\s+|this\\s+|on\\s+)?(${WEEKDAY})\\b`, 'i'), match => {
+        // Short names like "sun" or "wed" are ordinary words unless something marks them as a day
+        if (!match[1] && !WEEKDAYS.includes(match[2].toLowerCase())) return null;
+        const date = nextWeekday(today, weekdayIndex(match[2]));
+        // "next friday" never means today
+        return match[1]?.trim().toLowerCase() === 'next' && date.getTime() === today.getTime() ? addDays(date, 7) : date;
+    });
+
+const readTime = (state: { text: string }, dayPart?: DayPart): string | undefined =>
+    take(state, /\b(?:at\s+)?(noon|midday|midnight)\b/i, match => (match[1].toLowerCase() === 'midnight' ? '00:00' : '12:00'))
+    // A range such as "11am-12pm" or "3 to 4pm". Tasks have one time, so the start is kept.
+    ?? take(state, new RegExp(`(?:\\b(?:at|from)\\s+)?\\b${CLOCK}\\s*(?:-|–|\\bto\\b|\\buntil\\b|\\btill\\b)\\s*${CLOCK}(?![\\w:])`, 'i'), match => {
+        const [, startHours, startMinutes, startMeridiem, endHours, endMinutes, endMeridiem] = match;
+        // Without am/pm or minutes it is a count, e.g. "2-3 apples"
+        if (!startMeridiem && !endMeridiem && !startMinutes && !endMinutes) return null;
+        const end = endMeridiem
+            ? to24Hour(Number(endHours), Number(endMinutes ?? 0), endMeridiem)
+            : toDayPartHour(Number(endHours), Number(endMinutes ?? 0), dayPart);
+        if (!end) return null;
+        if (startMeridiem) return to24Hour(Number(startHours), Number(startMinutes ?? 0), startMeridiem);
+        if (!endMeridiem) return toDayPartHour(Number(startHours), Number(startMinutes ?? 0), dayPart);
+        // The start shares the end's am/pm unless that puts it after the end, as in "11-1pm"
+        const start = to24Hour(Number(startHours), Number(startMinutes ?? 0), endMeridiem);
+        return start && start > end ? to24Hour(Number(startHours), Number(startMinutes ?? 0), 'a') : start;
+    })
+    ?? take(state, /(?:\bat\s+)?\b(\d{1,2})(?::(\d{2}))?\s*([ap])\.?m\.?(?![a-z])/i, match =>
+        to24Hour(Number(match[1]), Number(match[2] ?? 0), match[3]))
+    ?? take(state, /(?:\bat\s+)?\b(\d{1,2}):(\d{2})\b/i, match => toDayPartHour(Number(match[1]), Number(match[2]), dayPart))
+    // Otherwise a bare hour from 1 to 7 means the afternoon or evening, e.g. "at 3" is 15:00
+    ?? take(state, /\bat\s+(\d{1,2})\b/i, match => {
+        const hours = Number(match[1]);
+        if (dayPart) return toDayPartHour(hours, 0, dayPart);
+        return to24Hour(hours >= 1 && hours <= 7 ? hours + 12 : hours, 0);
+    });
+
+// A repeating task starts on its first occurrence on or after the chosen day
+const firstOccurrence = (rule: RecurrenceRule, from: Date): Date => {
+    for (let i = 0; i < 62; i++) {
+        const date = addDays(from, i);
+        const matches = rule.byDay
+            ? rule.byDay.includes(date.getDay())
+            : !rule.byMonthDay || rule.byMonthDay.includes(date.getDate());
+        if (matches) return date;
+    }
+    return from;
+};
+
+/**
+ * Parses a quick-add line into task fields.
+ * @param input The line as typed.
+ * @param now The moment "today" and "tomorrow" are counted from.
+ * @returns The parsed fields. Without a date the task is due today.
+ */
+export const parseQuickAdd = (input: string, now: Date = new Date()): QuickAddResult => {
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const state = { text: ` ${input} ` };
+
+    const tags: string[] = [];
+    let priority: Priority | undefined;
+    state.text = state.text.replace(/(^|\s)#([\w-]+)(?=\s)/g, (_, space, tag) => {
+        tags.push(tag);
+        return space;
+    });
+    state.text = state.text.replace(/(^|\s)!(\w+)(?=\s)/g, (whole, space, word) => {
+        const value = PRIORITY_WORDS[word.toLowerCase()];
+        if (!value) return whole;
+        priority = priority ?? value;
+        return space;
+    });
+
+    const rule = readRecurrence(state);
+    if (rule?.freq === 'MONTHLY') {
+        const monthDay = readMonthDay(state);
+        if (monthDay) rule.byMonthDay = [monthDay];
+    }
+    const dayPart = readDayPart(state.text);
+    const date = readDate(state, today);
+    const time = readTime(state, dayPart);
+    // Once the time is set, "in the evening" and the like have nothing more to say
+    if (time) take(state, /\b(?:in\s+the\s+|this\s+)?(?:morning|afternoon|evening|night)\b/i, () => true);
+
+    let dueDate = date ?? today;
+    if (rule && (rule.byDay || rule.byMonthDay)) dueDate = firstOccurrence(rule, dueDate);
+    const recurrence = rule ? formatRecurrence(rule) : undefined;
+
+    const text = state.text
+        .replace(/\s+/g, ' ')
+        .replace(/\s+([,.!?])/g, '$1')
+        .trim()
+        // Connectives left dangling by a removed phrase, e.g. "pay rent on" or "at"
+        .replace(/(?:^|\s)(?:on|at|by|every|each|for)$/i, '')
+        .replace(/^(?:on|at|by)\s+/i, '')
+        .trim();
+
+    return {
+        text,
+        dueDate: toLocalDateString(dueDate),
+        dateMatched: !!date,
+        time,
+        recurrence,
+        tags: normalizeTags(tags),
+        priority,
+    };
+};
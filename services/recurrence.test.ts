@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import type { ActionItem } from '../types';
+import {
+    describeRecurrence,
+    firstOccurrenceInRange,
+    getNextOccurrence,
+    getOccurrencesBetween,
+    isOccurrence,
+    normalizeRecurrence,
+    parseRecurrence,
+    toggleOccurrence,
+} from './recurrence';
+
+// A Monday
+const MONDAY = '2026-10-19';
+
+const item = (fields: Partial<ActionItem>): ActionItem => ({ id: 'item', text: 'water the plants', completed: false, dueDate: MONDAY, ...fields });
+
+describe('parseRecurrence', () => {
+    it('reads a rule with or without the RRULE prefix, in any case', () => {
+        expect(parseRecurrence('rrule:freq=weekly;interval=2;byday=mo,th')).toEqual({ freq: 'WEEKLY', interval: 2, byDay: [1, 4] });
+    });
+
+    it.each([
+        ['FREQ=YEARLY'],
+        ['INTERVAL=2'],
+        ['FREQ=DAILY;INTERVAL=0'],
+        ['FREQ=DAILY;COUNT=3'],
+        ['FREQ=MONTHLY;BYDAY=MO'],
+        ['FREQ=WEEKLY;BYMONTHDAY=1'],
+        ['FREQ=MONTHLY;BYMONTHDAY=0'],
+        ['FREQ=DAILY;UNTIL=20260231'],
+    ])('rejects %s', (rrule) => {
+        expect(parseRecurrence(rrule)).toBeNull();
+    });
+
+    it('stores rules in canonical form and drops ones it cannot follow', () => {
+        expect(normalizeRecurrence('BYDAY=FR;FREQ=WEEKLY;INTERVAL=1;UNTIL=20261231T000000Z')).toBe('FREQ=WEEKLY;BYDAY=FR;UNTIL=20261231');
+        expect(normalizeRecurrence('FREQ=HOURLY')).toBeUndefined();
+    });
+});
+
+describe('describeRecurrence', () => {
+    it.each([
+        ['FREQ=DAILY', undefined, 'Every day'],
+        ['FREQ=WEEKLY;INTERVAL=2;BYDAY=SU,TH,MO', undefined, 'Every 2 weeks on Mon, Thu, Sun'],
+        ['FREQ=WEEKLY', MONDAY, 'Every week on Mon'],
+        ['FREQ=MONTHLY', '2026-10-22', 'Every month on the 22nd'],
+        ['FREQ=MONTHLY;BYMONTHDAY=11,-1,-2', undefined, 'Every month on the 11th, last day, 2nd to last day'],
+        ['FREQ=DAILY;INTERVAL=3;UNTIL=20261101', undefined, 'Every 3 days until 2026-11-01'],
+    ])('describes %s', (rrule, anchor, text) => {
+        expect(describeRecurrence(rrule, anchor)).toBe(text);
+    });
+});
+
+describe('occurrences', () => {
+    it('counts weekly intervals from the week of the anchor', () => {
+        expect(getOccurrencesBetween('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH', MONDAY, '2026-10-01', '2026-11-08'))
+            .toEqual(['2026-10-19', '2026-10-22', '2026-11-02', '2026-11-05']);
+    });
+
+    it('keeps the anchor as an occurrence even off the rule', () => {
+        expect(isOccurrence('FREQ=WEEKLY;BYDAY=FR', MONDAY, MONDAY)).toBe(true);
+        expect(getNextOccurrence('FREQ=WEEKLY;BYDAY=FR', MONDAY)).toBe('2026-10-23');
+    });
+
+    it('never matches days before the anchor', () => {
+        expect(isOccurrence('FREQ=DAILY', MONDAY, '2026-10-18')).toBe(false);
+        expect(getNextOccurrence('FREQ=DAILY', MONDAY, '2026-10-01')).toBe(MONDAY);
+    });
+
+    it('skips months too short for the day', () => {
+        expect(getOccurrencesBetween('FREQ=MONTHLY', '2026-01-31', '2026-01-01', '2026-05-31'))
+            .toEqual(['2026-01-31', '2026-03-31', '2026-05-31']);
+    });
+
+    it('counts negative month days from the end of each month', () => {
+        expect(getOccurrencesBetween('FREQ=MONTHLY;BYMONTHDAY=-1', '2026-01-31', '2026-01-01', '2026-04-30'))
+            .toEqual(['2026-01-31', '2026-02-28', '2026-03-31', '2026-04-30']);
+    });
+
+    it('includes the UNTIL day and nothing after it', () => {
+        expect(getNextOccurrence('FREQ=DAILY;UNTIL=20261021', MONDAY, '2026-10-20')).toBe('2026-10-21');
+        expect(getNextOccurrence('FREQ=DAILY;UNTIL=20261021', MONDAY, '2026-10-21')).toBeNull();
+    });
+
+    it('steps over the end of daylight saving time one day at a time', () => {
+        expect(getOccurrencesBetween('FREQ=DAILY', '2026-10-31', '2026-10-31', '2026-11-02'))
+            .toEqual(['2026-10-31', '2026-11-01', '2026-11-02']);
+    });
+
+    it('waits for the next month long enough for the day', () => {
+        expect(getNextOccurrence('FREQ=MONTHLY;BYMONTHDAY=31;INTERVAL=2', '2026-01-31', '2026-01-31')).toBe('2026-03-31');
+        expect(getNextOccurrence('FREQ=MONTHLY;BYMONTHDAY=30', '2026-02-01', '2026-02-01')).toBe('2026-03-30');
+    });
+});
+
+describe('firstOccurrenceInRange', () => {
+    it('finds the next occurrence of an open recurring item', () => {
+        expect(firstOccurrenceInRange(item({ recurrence: 'FREQ=WEEKLY' }), '2026-10-20', '2026-10-31')).toBe('2026-10-26');
+    });
+
+    it('does not repeat completed or one-off items after their due date', () => {
+        expect(firstOccurrenceInRange(item({ recurrence: 'FREQ=WEEKLY', completed: true }), '2026-10-20')).toBeNull();
+        expect(firstOccurrenceInRange(item({}), '2026-10-20')).toBeNull();
+    });
+});
+
+describe('toggleOccurrence', () => {
+    it('moves an open recurring item to its next occurrence and starts it over', () => {
+        const toggled = toggleOccurrence(item({
+            recurrence: 'FREQ=DAILY',
+            status: 'done',
+            subtasks: [{ id: 'sub', text: 'fill the can', completed: true }],
+        }));
+
+        expect(toggled).toMatchObject({ dueDate: '2026-10-20', dueDateOverridden: true, completed: false, status: 'todo' });
+        expect(toggled.subtasks?.[0].completed).toBe(false);
+    });
+
+    it('moves past a later occurrence completed from the calendar', () => {
+        expect(toggleOccurrence(item({ recurrence: 'FREQ=DAILY' }), '2026-10-22').dueDate).toBe('2026-10-23');
+    });
+
+    it('completes the item once the rule has ended', () => {
+        const toggled = toggleOccurrence(item({ recurrence: 'FREQ=DAILY;UNTIL=20261019' }));
+
+        expect(toggled.completed).toBe(true);
+        expect(toggled.dueDate).toBe(MONDAY);
+    });
+
+    it('reopens a completed recurring item without moving it', () => {
+        expect(toggleOccurrence(item({ recurrence: 'FREQ=DAILY', completed: true }))).toMatchObject({ completed: false, dueDate: MONDAY });
+    });
+});
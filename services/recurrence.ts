@@ -0,0 +1,279 @@
+// Recurring action items store their schedule as an iCalendar RRULE string,
+// limited to the parts below. The item's dueDate is the next open occurrence
+// and doubles as the anchor the INTERVAL is counted from.
+//
+//   FREQ=DAILY | WEEKLY | MONTHLY   (required)
+//   INTERVAL=n                      every n days / weeks / months
+//   BYDAY=MO,WE,FR                  weekly only; defaults to the anchor's weekday
+//   BYMONTHDAY=1,15,-1              monthly only; negative counts from month end
+//   UNTIL=YYYYMMDD                  last possible occurrence
+
+import type { ActionItem } from '../types';
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export interface RecurrenceRule {
+    freq: Frequency;
+    interval: number;
+    byDay?: number[]; // 0 = Sunday ... 6 = Saturday
+    byMonthDay?: number[];
+    until?: string; // YYYY-MM-DD
+}
+
+export const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far ahead getNextOccurrence looks before giving up on a rule that never matches
+const SEARCH_LIMIT_DAYS = 5 * 366;
+
+// Dates are handled as UTC midnights so daylight saving never shifts a day
+const toDate = (dateStr: string): Date => {
+    const [year, month, day] = dateStr.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day));
+};
+
+const toDateString = (date: Date): string => date.toISOString().slice(0, 10);
+
+const addDays = (dateStr: string, days: number): string => toDateString(new Date(toDate(dateStr).getTime() + days * DAY_MS));
+
+const daysBetween = (from: Date, to: Date): number => Math.round((to.getTime() - from.getTime()) / DAY_MS);
+
+// Weeks start on Monday, as in RRULE's default WKST
+const startOfWeek = (date: Date): Date => new Date(date.getTime() - ((date.getUTCDay() + 6) % 7) * DAY_MS);
+
+const isValidDateString = (dateStr: string): boolean =>
+    /^\d{4}-\d{2}-\d{2}$/.test(dateStr) && toDateString(toDate(dateStr)) === dateStr;
+
+/**
+ * Parses an RRULE string in the supported subset.
+ * @param rrule The rule, with or without a leading "RRULE:".
+ * @returns The parsed rule, or null if it is malformed or uses unsupported parts.
+ */
+export const parseRecurrence = (rrule: string | undefined): RecurrenceRule | null => {
+    if (!rrule) return null;
+    const parts = rrule.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean);
+    const rule: Partial<RecurrenceRule> = { interval: 1 };
+
+    for (const part of parts) {
+        const [key, value] = part.split('=').map(s => s?.trim().toUpperCase());
+        if (!value) return null;
+        switch (key) {
+            case 'FREQ':
+                if (value !== 'DAILY' && value !== 'WEEKLY' && value !== 'MONTHLY') return null;
+                rule.freq = value;
+                break;
+            case 'INTERVAL': {
+                const interval = Number(value);
+                if (!Number.isInteger(interval) || interval < 1) return null;
+                rule.interval = interval;
+                break;
+            }
+            case 'BYDAY': {
+                const days = value.split(',').map(code => WEEKDAY_CODES.indexOf(code));
+                if (days.some(day => day < 0)) return null;
+                rule.byDay = days;
+                break;
+            }
+            case 'BYMONTHDAY': {
+                const days = value.split(',').map(Number);
+                if (days.some(day => !Number.isInteger(day) || day === 0 || day < -31 || day > 31)) return null;
+                rule.byMonthDay = days;
+                break;
+            }
+            case 'UNTIL': {
+                const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+                if (!match) return null;
+                const until = `${match[1]}-${match[2]}-${match[3]}`;
+                if (!isValidDateString(until)) return null;
+                rule.until = until;
+                break;
+            }
+            default:
+                return null;
+        }
+    }
+
+    if (!rule.freq) return null;
+    if (rule.byDay && rule.freq !== 'WEEKLY') return null;
+    if (rule.byMonthDay && rule.freq !== 'MONTHLY') return null;
+    return rule as RecurrenceRule;
+};
+
+export const formatRecurrence = (rule: RecurrenceRule): string => {
+    const parts = [`FREQ=${rule.freq}`];
+    if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+    if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.map(day => WEEKDAY_CODES[day]).join(',')}`);
+    if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+    if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+    return parts.join(';');
+};
+
+const ordinal = (n: number): string => {
+    if (n === -1) return 'last day';
+    if (n < 0) return `${ordinal(-n)} to last day`;
+    const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+    return `${n}${suffix}`;
+};
+
+/**
+ * Describes a rule in plain English, e.g. "Every 2 weeks on Mon, Thu".
+ * @param anchor The item's due date, used for the defaults of BYDAY and BYMONTHDAY.
+ */
+export const describeRecurrence = (rrule: string | undefined, anchor?: string): string => {
+    const rule = parseRecurrence(rrule);
+    if (!rule) return '';
+
+    const anchorDate = anchor && isValidDateString(anchor) ? toDate(anchor) : null;
+    let text: string;
+    if (rule.freq === 'DAILY') {
+        text = rule.interval > 1 ? `Every ${rule.interval} days` : 'Every day';
+    } else if (rule.freq === 'WEEKLY') {
+        const days = rule.byDay ?? (anchorDate ? [anchorDate.getUTCDay()] : []);
+        text = rule.interval > 1 ? `Every ${rule.interval} weeks` : 'Every week';
+        if (days.length) text += ` on ${[...days].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7)).map(day => WEEKDAY_NAMES[day]).join(', ')}`;
+    } else {
+        const days = rule.byMonthDay ?? (anchorDate ? [anchorDate.getUTCDate()] : []);
+        text = rule.interval > 1 ? `Every ${rule.interval} months` : 'Every month';
+        if (days.length) text += ` on the ${days.map(ordinal).join(', ')}`;
+    }
+    if (rule.until) text += ` until ${rule.until}`;
+    return text;
+};
+
+const matchesRule = (rule: RecurrenceRule, anchor: Date, date: Date): boolean => {
+    if (rule.until && date.getTime() > toDate(rule.until).getTime()) return false;
+
+    switch (rule.freq) {
+        case 'DAILY':
+            return daysBetween(anchor, date) % rule.interval === 0;
+        case 'WEEKLY': {
+            const weeks = daysBetween(startOfWeek(anchor), startOfWeek(date)) / 7;
+            const days = rule.byDay ?? [anchor.getUTCDay()];
+            return weeks % rule.interval === 0 && days.includes(date.getUTCDay());
+        }
+        case 'MONTHLY': {
+            const months = (date.getUTCFullYear() - anchor.getUTCFullYear()) * 12 + date.getUTCMonth() - anchor.getUTCMonth();
+            if (months % rule.interval !== 0) return false;
+            const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+            const days = rule.byMonthDay ?? [anchor.getUTCDate()];
+            // A rule for the 31st skips shorter months, as in RRULE
+            return days.some(day => (day > 0 ? day : daysInMonth + day + 1) === date.getUTCDate());
+        }
+    }
+};
+
+/**
+ * Checks whether a recurring item falls on a given day.
+ * @param rrule The item's recurrence rule.
+ * @param anchor The item's due date; days before it never match.
+ * @param date The day to check, in YYYY-MM-DD format.
+ */
+export const isOccurrence = (rrule: string | undefined, anchor: string, date: string): boolean => {
+    const rule = parseRecurrence(rrule);
+    if (!rule || !isValidDateString(anchor) || !isValidDateString(date)) return false;
+    if (date === anchor) return true;
+    const day = toDate(date);
+    const anchorDate = toDate(anchor);
+    return day.getTime() > anchorDate.getTime() && matchesRule(rule, anchorDate, day);
+};
+
+/**
+ * Finds the first occurrence strictly after a given day.
+ * @param rrule The item's recurrence rule.
+ * @param anchor The item's due date.
+ * @param after The day to search from; defaults to the anchor.
+ * @returns The next occurrence in YYYY-MM-DD format, or null once the rule has ended.
+ */
+export const getNextOccurrence = (rrule: string | undefined, anchor: string, after: string = anchor): string | null => {
+    const rule = parseRecurrence(rrule);
+    if (!rule || !isValidDateString(anchor) || !isValidDateString(after)) return null;
+
+    const anchorDate = toDate(anchor);
+    let candidate = addDays(after < anchor ? addDays(anchor, -1) : after, 1);
+    for (let i = 0; i < SEARCH_LIMIT_DAYS; i++) {
+        const day = toDate(candidate);
+        if (rule.until && day.getTime() > toDate(rule.until).getTime()) return null;
+        if (candidate === anchor || matchesRule(rule, anchorDate, day)) return candidate;
+        candidate = addDays(candidate, 1);
+    }
+    return null;
+};
+
+/**
+ * Lists every occurrence within a date range.
+ * @param rrule The item's recurrence rule.
+ * @param anchor The item's due date, which is the first occurrence.
+ * @param from The first day of the range, in YYYY-MM-DD format.
+ * @param to The last day of the range, inclusive.
+ */
+export const getOccurrencesBetween = (rrule: string | undefined, anchor: string, from: string, to: string): string[] => {
+    const rule = parseRecurrence(rrule);
+    if (!rule || !isValidDateString(anchor) || !isValidDateString(from) || !isValidDateString(to)) return [];
+
+    const occurrences: string[] = [];
+    for (let day = from < anchor ? anchor : from; day <= to; day = addDays(day, 1)) {
+        if (isOccurrence(rrule, anchor, day)) occurrences.push(day);
+    }
+    return occurrences;
+};
+
+// Drop rules we cannot follow (e.g. from the AI) and store the rest in canonical form
+export const normalizeRecurrence = (rrule: string | undefined): string | undefined => {
+    const rule = parseRecurrence(rrule);
+    return rule ? formatRecurrence(rule) : undefined;
+};
+
+// Recurring items need a due date to anchor them
+export const isRecurring = (item: ActionItem): boolean => !!item.dueDate && !!parseRecurrence(item.recurrence);
+
+/**
+ * Checks whether an item is due on a given day, expanding recurring items.
+ * Completed recurring items no longer occur.
+ */
+export const occursOn = (item: ActionItem, date: string): boolean =>
+    isRecurring(item) ? !item.completed && isOccurrence(item.recurrence, item.dueDate, date) : item.dueDate === date;
+
+/**
+ * Finds the first day within a range on which an item is due.
+ * @param item The action item or task; must have a due date to match.
+ * @param from The first day of the range (YYYY-MM-DD), or undefined for no lower bound.
+ * @param to The last day of the range, inclusive, or undefined for no upper bound.
+ * @returns The day, or null if the item is not due within the range.
+ */
+export const firstOccurrenceInRange = (item: ActionItem, from?: string, to?: string): string | null => {
+    if (!item.dueDate) return null;
+
+    let day: string | null = item.dueDate;
+    if (from && from > item.dueDate) {
+        // Only open recurring items are due again after their due date
+        day = isRecurring(item) && !item.completed
+            ? (isOccurrence(item.recurrence, item.dueDate, from) ? from : getNextOccurrence(item.recurrence, item.dueDate, from))
+            : null;
+    }
+    return day && (!to || day <= to) ? day : null;
+};
+
+/**
+ * Toggles an item's completion. Completing an open recurring item instead moves
+ * it to its next occurrence, and only completes it once the rule has ended.
+ * @param item The action item or task being toggled.
+ * @param occurrenceDate The occurrence being completed; defaults to the current due date.
+ * @returns The updated item.
+ */
+export const toggleOccurrence = <T extends ActionItem>(item: T, occurrenceDate: string = item.dueDate): T => {
+    if (item.completed || !isRecurring(item)) {
+        return withSubtasksMatching({ ...item, completed: !item.completed });
+    }
+    const completedThrough = occurrenceDate > item.dueDate ? occurrenceDate : item.dueDate;
+    const next = getNextOccurrence(item.recurrence, item.dueDate, completedThrough);
+    // The rolled date was not chosen by the AI, so re-analysis must keep it.
+    // The next occurrence starts over on the board and with open subtasks.
+    return withSubtasksMatching(next
+        ? { ...item, dueDate: next, dueDateOverridden: true, ...(item.status && { status: 'todo' as const }) }
+        : { ...item, completed: true });
+};
+
+// Toggling a parent completes or reopens all of its subtasks with it
+const withSubtasksMatching = <T extends ActionItem>(item: T): T =>
+    item.subtasks ? { ...item, subtasks: item.subtasks.map(subtask => ({ ...subtask, completed: item.completed })) } : item;
@@ -0,0 +1,254 @@
+import type { ProcessedNoteWithId, Task } from '../types';
+import * as localStore from './localStore';
+import { toLocalDateString } from './dates';
+import * as notesService from './notesService';
+import * as tasksService from './tasksService';
+
+// Shows a browser notification when a timed action item or task comes due,
+// optionally some minutes early. Timers run in the page; the service worker in
+// public/reminder-sw.js displays the notification and relays its buttons back.
+
+const SERVICE_WORKER_URL = '/reminder-sw.js';
+const LEAD_TIME_STORAGE_KEY = 'vocalyn.reminderLeadMinutes';
+const SNOOZE_MS = 10 * 60_000;
+// Re-check at least this often, so a sleeping laptop or a clock change is noticed
+const CHECK_INTERVAL_MS = 60_000;
+// Reminders missed by more than this (e.g. the app was closed) are skipped
+const MISSED_GRACE_MS = 15 * 60_000;
+const DELIVERED_RETENTION_MS = 7 * 24 * 60 * 60_000;
+
+export const LEAD_TIME_OPTIONS = [0, 5, 10, 15, 30, 60];
+
+// What a notification carries, so its buttons can act on the right occurrence
+export interface Reminder {
+    key: string;
+    source: 'note' | 'task';
+    itemId: string;
+    noteId: string | null;
+    occurrenceDate: string; // YYYY-MM-DD
+    time: string; // HH:MM
+    text: string;
+    noteTitle: string | null;
+}
+
+interface ScheduledReminder extends Reminder {
+    fireAt: number;
+    dueAt: number;
+}
+
+export type ReminderAction = 'open' | 'done' | 'snooze';
+
+// Notification buttons, which only service workers can show and lib.dom leaves out
+interface ReminderNotificationOptions extends NotificationOptions {
+    actions: { action: ReminderAction; title: string }[];
+}
+
+export interface ReminderHandlers {
+    onNoteUpdated: (note: ProcessedNoteWithId) => void;
+    onTaskUpdated: (task: Task) => void;
+    onOpen: (reminder: Reminder) => void;
+}
+
+let notes: notesService.ScheduledNote[] = [];
+let tasks: Task[] = [];
+let handlers: ReminderHandlers | null = null;
+let timer: number | undefined;
+
+export const isReminderSupported = (): boolean => 'Notification' in window;
+
+export const getPermission = (): NotificationPermission =>
+    isReminderSupported() ? Notification.permission : 'denied';
+
+export const requestPermission = async (): Promise<NotificationPermission> => {
+    if (!isReminderSupported()) return 'denied';
+    const permission = await Notification.requestPermission();
+    scheduleNext();
+    return permission;
+};
+
+export const getLeadMinutes = (): number => {
+    const stored = Number(localStorage.getItem(LEAD_TIME_STORAGE_KEY));
+    return LEAD_TIME_OPTIONS.includes(stored) ? stored : 0;
+};
+
+export const setLeadMinutes = (minutes: number): void => {
+    localStorage.setItem(LEAD_TIME_STORAGE_KEY, String(minutes));
+    scheduleNext();
+};
+
+// Timed, open items due today or tomorrow, which covers any lead time we offer
+const getUpcomingReminders = (now: Date): ScheduledReminder[] => {
+    const tomorrow = new Date(now);
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    const leadMs = getLeadMinutes() * 60_000;
+
+    return [toLocalDateString(now), toLocalDateString(tomorrow)].flatMap(day =>
+        notesService.getScheduledItems(notes, tasks, day)
+            .filter(({ item }) => item.time && !item.completed)
+            .map(({ source, itemId, noteId, noteTitle, item }): ScheduledReminder => {
+                const dueAt = new Date(`${day}T${item.time}:00`).getTime();
+                return {
+                    key: `${source}:${itemId}:${day}T${item.time}`,
+                    source,
+                    itemId,
+                    noteId,
+                    occurrenceDate: day,
+                    time: item.time!,
+                    text: item.text,
+                    noteTitle,
+                    fireAt: dueAt - leadMs,
+                    dueAt,
+                };
+            })
+    );
+};
+
+const showNotification = async (reminder: Reminder, now: number, dueAt: number) => {
+    const minutesLeft = Math.round((dueAt - now) / 60_000);
+    const when = minutesLeft > 0 ? `Due in ${minutesLeft} min, at ${reminder.time}` : `Due at ${reminder.time}`;
+    const body = reminder.noteTitle ? `${when} · from "${reminder.noteTitle}"` : when;
+
+    const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL) : undefined;
+    if (registration) {
+        const options: ReminderNotificationOptions = {
+            body,
+            tag: reminder.key,
+            data: reminder,
+            requireInteraction: true,
+            actions: [
+                { action: 'done', title: 'Mark done' },
+                { action: 'snooze', title: 'Snooze 10 min' },
+            ],
+        };
+        await registration.showNotification(reminder.text, options);
+    } else {
+        // Without a service worker there are no buttons; clicking just opens the note
+        const notification = new Notification(reminder.text, { body, tag: reminder.key });
+        notification.onclick = () => {
+            window.focus();
+            handleReminderAction('open', reminder);
+        };
+    }
+};
+
+/**
+ * Shows every reminder that is due and sets a timer for the next one.
+ * Snoozed reminders come back when their snooze runs out.
+ */
+const scheduleNext = async () => {
+    window.clearTimeout(timer);
+    if (!handlers || getPermission() !== 'granted') return;
+
+    try {
+        const now = Date.now();
+        const delivered = new Map((await localStore.getDeliveredReminders()).map(r => [r.key, r]));
+        let nextCheck = now + CHECK_INTERVAL_MS;
+
+        for (const reminder of getUpcomingReminders(new Date(now))) {
+            const record = delivered.get(reminder.key);
+            if (record && record.snoozedUntil === undefined) continue;
+
+            const fireAt = record?.snoozedUntil ?? reminder.fireAt;
+            if (fireAt > now) {
+                nextCheck = Math.min(nextCheck, fireAt);
+                continue;
+            }
+            if (now - Math.max(fireAt, reminder.dueAt) > MISSED_GRACE_MS) continue;
+
+            if (await localStore.claimReminder(reminder.key, now)) {
+                const { fireAt: _fireAt, dueAt, ...data } = reminder;
+                await showNotification(data, now, dueAt);
+            }
+        }
+
+        // Another call may have set a timer while this one was awaiting
+        window.clearTimeout(timer);
+        timer = window.setTimeout(scheduleNext, Math.max(0, nextCheck - Date.now()));
+    } catch (e) {
+        console.error("Failed to schedule reminders", e);
+        window.clearTimeout(timer);
+        timer = window.setTimeout(scheduleNext, CHECK_INTERVAL_MS);
+    }
+};
+
+const handleReminderAction = async (action: ReminderAction, reminder: Reminder) => {
+    try {
+        if (action === 'snooze') {
+            await localStore.snoozeReminder(reminder.key, Date.now() + SNOOZE_MS);
+            scheduleNext();
+        } else if (action === 'done') {
+            if (reminder.source === 'task') {
+                const task = await tasksService.completeTaskOccurrence(reminder.itemId, reminder.occurrenceDate);
+                if (task) handlers?.onTaskUpdated(task);
+            } else if (reminder.noteId) {
+                const note = await notesService.completeActionItemOccurrence(reminder.noteId, reminder.itemId, reminder.occurrenceDate);
+                if (note) handlers?.onNoteUpdated(note);
+            }
+        } else {
+            handlers?.onOpen(reminder);
+        }
+    } catch (e) {
+        console.error(`Failed to ${action} reminder`, e);
+    }
+};
+
+// Pick up an action passed in the URL by the service worker when no tab was open
+const takeActionFromUrl = (): { action: ReminderAction; reminder: Reminder } | null => {
+    const params = new URLSearchParams(window.location.search);
+    const action = params.get('reminderAction') as ReminderAction | null;
+    const reminder = params.get('reminder');
+    if (!action || !reminder) return null;
+
+    params.delete('reminderAction');
+    params.delete('reminder');
+    const query = params.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+
+    try {
+        return { action, reminder: JSON.parse(reminder) };
+    } catch {
+        return null;
+    }
+};
+
+// Give the scheduler the latest notes and tasks; call whenever they change
+export const updateReminderSources = (latestNotes: notesService.ScheduledNote[], latestTasks: Task[]): void => {
+    notes = latestNotes;
+    tasks = latestTasks;
+    scheduleNext();
+};
+
+/**
+ * Registers the service worker and starts watching for due reminders.
+ * @param reminderHandlers Called when a notification button changed an item or asked to open it.
+ * @returns A function that stops the scheduler.
+ */
+export const startReminderScheduler = (reminderHandlers: ReminderHandlers): (() => void) => {
+    handlers = reminderHandlers;
+
+    const handleMessage = (event: MessageEvent) => {
+        if (event.data?.type === 'reminder-action') {
+            handleReminderAction(event.data.action, event.data.reminder);
+        }
+    };
+
+    if ('serviceWorker' in navigator) {
+        navigator.serviceWorker.register(SERVICE_WORKER_URL).catch(e => console.error("Reminder service worker failed to register", e));
+        navigator.serviceWorker.addEventListener('message', handleMessage);
+    }
+
+    localStore.pruneReminders(Date.now() - DELIVERED_RETENTION_MS).catch(e => console.error("Failed to prune reminders", e));
+
+    const pending = takeActionFromUrl();
+    if (pending) handleReminderAction(pending.action, pending.reminder);
+
+    scheduleNext();
+
+    return () => {
+        handlers = null;
+        window.clearTimeout(timer);
+        if ('serviceWorker' in navigator) {
+            navigator.serviceWorker.removeEventListener('message', handleMessage);
+        }
+    };
+};
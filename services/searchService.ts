@@ -0,0 +1,315 @@
+import { embedTexts } from './geminiService';
+import { embedText, hashString, HASHING_MODEL, stem, tokenize } from './hashingEmbedder';
+import * as localStore from './localStore';
+import { getNoteTitle } from './noteTitle';
+import { getNoteIds, getNotesByIds, NOTES_PAGE_SIZE } from './notesService';
+import type { NoteEmbedding } from './localStore';
+import { MAX_EMBED_TEXTS } from './aiProvider';
+import type { ContextChunk, Embeddings, EmbeddingPurpose } from './aiProvider';
+import type { ProcessedNoteWithId } from '../types';
+
+// Semantic search over notes. Each note is split into passages that are embedded
+// and kept in a local index (IndexedDB), so searching only embeds the query.
+// Notes on pages the app has not loaded are indexed in the background too.
+// Results rank notes by their best passage, blended with a keyword bonus so
+// exact words still count when the embedding model misses them. The same
+// passages are retrieved as context for chat questions.
+
+export interface SearchPassage {
+    text: string;
+    score: number;
+    highlights: [number, number][]; // [start, end) of words matching the query
+}
+
+export interface NoteSearchResult {
+    note: ProcessedNoteWithId;
+    score: number;
+    passages: SearchPassage[];
+}
+
+// Passages stay short enough to point at one idea but long enough to embed well
+const PASSAGE_LENGTH = 400;
+const KEYWORD_WEIGHT = 0.3;
+const MAX_PASSAGES_PER_RESULT = 2;
+
+// How much note text a chat question may carry, and in how many passages at most
+export const CHAT_CONTEXT_TOKEN_BUDGET = 6000;
+const RETRIEVAL_TOP_K = 12;
+
+// Similarity below which a passage is noise. Word hashing scores much lower
+// than a real embedding model for the same relatedness.
+const MIN_SIMILARITY: Record<string, number> = { [HASHING_MODEL]: 0.15 };
+const DEFAULT_MIN_SIMILARITY = 0.45;
+
+// Only one indexing run at a time, so a search and a save never embed the same note twice
+let indexing: Promise<unknown> = Promise.resolve();
+
+// What a note is searched by: its text without markdown markers, and its emotional tone
+const searchableText = (note: ProcessedNoteWithId): string =>
+    `${note.refinedNote.replace(/^\s*(?:#+|[*-])\s+/gm, '')}\n${note.emotionAnalysis?.summary ?? ''}`.trim();
+
+const contentHash = (text: string): string => `${text.length}:${hashString(text).toString(36)}`;
+
+/**
+ * Splits text into passages of whole sentences, each up to PASSAGE_LENGTH characters.
+ * @returns The passages with their offsets in the text.
+ */
+export const splitPassages = (text: string): { text: string; start: number }[] => {
+    const passages: { text: string; start: number }[] = [];
+    let current: { text: string; start: number } | null = null;
+
+    for (const match of text.matchAll(/[^.!?\n]+(?:[.!?]+|\n|$)/g)) {
+        const sentence = match[0].trim();
+        if (!sentence) continue;
+        const start = (match.index ?? 0) + match[0].indexOf(sentence);
+        if (current && current.text.length + sentence.length + 1 <= PASSAGE_LENGTH) {
+            current.text += ` ${sentence}`;
+        } else {
+            if (current) passages.push(current);
+            current = { text: sentence, start };
+        }
+    }
+    if (current) passages.push(current);
+    return passages;
+};
+
+// Embeds with the configured provider, or with word hashing when it is unreachable
+const embed = async (texts: string[], purpose: EmbeddingPurpose): Promise<Embeddings> => {
+    try {
+        if (texts.length <= MAX_EMBED_TEXTS) return await embedTexts(texts, purpose);
+        // Only a single huge note gets here; ensureIndexed batches the rest
+        const batches: Embeddings[] = [];
+        for (let i = 0; i < texts.length; i += MAX_EMBED_TEXTS) {
+            batches.push(await embedTexts(texts.slice(i, i + MAX_EMBED_TEXTS), purpose));
+        }
+        if (batches.some(batch => batch.model !== batches[0].model)) throw new Error("Embedding model changed between batches");
+        return { model: batches[0].model, vectors: batches.flatMap(batch => batch.vectors) };
+    } catch (e) {
+        console.warn("Embedding service unavailable, using local word hashing instead.", e);
+        return { model: HASHING_MODEL, vectors: texts.map(embedText) };
+    }
+};
+
+const cosine = (a: number[], b: number[]): number => {
+    if (a.length !== b.length) return 0;
+    let dot = 0, normA = 0, normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+/**
+ * Brings the index up to date for the given notes, embedding only notes that
+ * are new, were edited, or were indexed with a different model.
+ * @param model The model the entries must come from; any model will do when omitted.
+ * @returns The index entries for the notes.
+ */
+const ensureIndexed = (notes: ProcessedNoteWithId[], model?: string): Promise<Map<string, NoteEmbedding>> => {
+    const run = indexing.then(async () => {
+        const entries = new Map((await localStore.getNoteEmbeddings()).map(entry => [entry.noteId, entry]));
+        const stale = notes
+            .map(note => ({ note, text: searchableText(note) }))
+            .filter(({ note, text }) => {
+                const entry = entries.get(note.id);
+                return !entry || entry.contentHash !== contentHash(text) || (!!model && entry.model !== model);
+            });
+        if (stale.length === 0) return entries;
+
+        // Whole notes go into requests of up to MAX_EMBED_TEXTS passages, and each
+        // batch is saved as it completes, so a big backlog is never lost to one failure
+        const batches: { note: ProcessedNoteWithId; text: string; passages: { text: string; start: number }[] }[][] = [[]];
+        let batchSize = 0;
+        for (const { note, text } of stale) {
+            const passages = splitPassages(text);
+            if (batchSize > 0 && batchSize + passages.length > MAX_EMBED_TEXTS) {
+                batches.push([]);
+                batchSize = 0;
+            }
+            batches[batches.length - 1].push({ note, text, passages });
+            batchSize += passages.length;
+        }
+
+        for (const batch of batches) {
+            const texts = batch.flatMap(({ passages }) => passages.map(passage => passage.text));
+            const embeddings = texts.length > 0 ? await embed(texts, 'document') : { model: model ?? HASHING_MODEL, vectors: [] };
+
+            let offset = 0;
+            const updated: NoteEmbedding[] = batch.map(({ note, text, passages }) => ({
+                noteId: note.id,
+                model: embeddings.model,
+                contentHash: contentHash(text),
+                passages: passages.map(passage => ({ ...passage, vector: embeddings.vectors[offset++] })),
+            }));
+            // A word-hashing fallback is good for this search but must not replace
+            // an up-to-date entry from the real model while offline
+            await localStore.putNoteEmbeddings(updated.filter(entry => {
+                const previous = entries.get(entry.noteId);
+                return entry.model !== HASHING_MODEL || !previous || previous.contentHash !== entry.contentHash;
+            }));
+            updated.forEach(entry => entries.set(entry.noteId, entry));
+        }
+        return entries;
+    });
+    indexing = run.catch(() => undefined);
+    return run;
+};
+
+/**
+ * Embeds new and edited notes so later searches only need to embed the query.
+ * Failures are logged; the notes are picked up again by the next search.
+ */
+export const indexNotes = async (notes: ProcessedNoteWithId[]): Promise<void> => {
+    try {
+        await ensureIndexed(notes);
+    } catch (e) {
+        console.error("Failed to index notes for search", e);
+    }
+};
+
+/**
+ * Indexes the notes that have no index entry yet, fetching them a page at a time,
+ * so searches also find notes on pages the app has not loaded. Notes edited on
+ * another device are re-embedded once they are loaded. Skipped while offline.
+ */
+export const indexAllNotes = async (): Promise<void> => {
+    try {
+        const noteIds = await getNoteIds();
+        if (!noteIds) return;
+        const indexed = new Set((await localStore.getNoteEmbeddings()).map(entry => entry.noteId));
+        const missing = noteIds.filter(id => !indexed.has(id));
+        for (let i = 0; i < missing.length; i += NOTES_PAGE_SIZE) {
+            await ensureIndexed(await getNotesByIds(missing.slice(i, i + NOTES_PAGE_SIZE)));
+        }
+    } catch (e) {
+        console.error("Failed to index notes for search", e);
+    }
+};
+
+export const removeFromIndex = async (noteIds: string[]): Promise<void> => {
+    try {
+        await localStore.deleteNoteEmbeddings(noteIds);
+    } catch (e) {
+        console.error("Failed to remove notes from the search index", e);
+    }
+};
+
+// Word ranges in the text whose stems appear in the query
+const findHighlights = (text: string, queryStems: Set<string>): [number, number][] =>
+    Array.from(text.matchAll(/[\p{L}\p{N}']+/gu))
+        .filter(match => queryStems.has(stem(match[0].toLowerCase().replace(/'/g, ''))))
+        .map(match => [match.index ?? 0, (match.index ?? 0) + match[0].length]);
+
+interface RankedPassage {
+    noteId: string;
+    text: string;
+    start: number;
+    score: number;
+    highlights: [number, number][];
+}
+
+/**
+ * Scores every indexed passage of the notes against a query.
+ * @param includeUnlisted Also score indexed notes that are not among the given ones.
+ * @returns The passages that are similar enough or share a word with the query, best first.
+ */
+const rankPassages = async (query: string, notes: ProcessedNoteWithId[], includeUnlisted = false): Promise<RankedPassage[]> => {
+    const queryEmbedding = await embed([query], 'query');
+    const queryVector = queryEmbedding.vectors[0];
+    const entries = await ensureIndexed(notes, queryEmbedding.model);
+
+    const queryStems = new Set(tokenize(query));
+    const minSimilarity = MIN_SIMILARITY[queryEmbedding.model] ?? DEFAULT_MIN_SIMILARITY;
+    const listed = new Set(notes.map(note => note.id));
+
+    return Array.from(entries.values())
+        .filter(entry => entry.model === queryEmbedding.model && (includeUnlisted || listed.has(entry.noteId)))
+        .flatMap(entry => entry.passages.map(passage => {
+            const highlights = findHighlights(passage.text, queryStems);
+            const matchedStems = new Set(highlights.map(([start, end]) => stem(passage.text.slice(start, end).toLowerCase().replace(/'/g, ''))));
+            const keywordScore = queryStems.size > 0 ? matchedStems.size / queryStems.size : 0;
+            const similarity = cosine(queryVector, passage.vector);
+            return { noteId: entry.noteId, text: passage.text, start: passage.start, similarity, score: similarity + KEYWORD_WEIGHT * keywordScore, highlights };
+        }))
+        .filter(passage => passage.similarity >= minSimilarity || passage.highlights.length > 0)
+        .sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Searches notes by meaning, ranking the best matches first.
+ * @param query What the user typed.
+ * @param notes The notes to search, e.g. the loaded ones. Other indexed notes are
+ * searched as well, and fetched when they make the results.
+ * @param limit The most results to return.
+ * @returns The matching notes, each with its best passages and the query words in them highlighted.
+ */
+export const searchNotes = async (query: string, notes: ProcessedNoteWithId[], limit = 20): Promise<NoteSearchResult[]> => {
+    if (!query.trim()) return [];
+
+    // Passages arrive best first, so each note's first passage sets its score
+    const results = new Map<string, Omit<NoteSearchResult, 'note'>>();
+    for (const { noteId, text, score, highlights } of await rankPassages(query, notes, true)) {
+        const result = results.get(noteId) ?? { score, passages: [] };
+        if (result.passages.length < MAX_PASSAGES_PER_RESULT) result.passages.push({ text, score, highlights });
+        results.set(noteId, result);
+    }
+    const best = Array.from(results.entries()).slice(0, limit);
+
+    const notesById = new Map(notes.map(note => [note.id, note]));
+    const unlisted = await getNotesByIds(best.map(([noteId]) => noteId).filter(noteId => !notesById.has(noteId)));
+    unlisted.forEach(note => notesById.set(note.id, note));
+    // A note deleted on another device is not found and drops out
+    return best.flatMap(([noteId, result]) => {
+        const note = notesById.get(noteId);
+        return note ? [{ note, ...result }] : [];
+    });
+};
+
+/**
+ * Turns a snippet from full-text search on the server, with matches wrapped in
+ * <mark></mark>, into a passage with highlight ranges.
+ */
+export const passageFromSnippet = (snippet: string, score: number): SearchPassage => {
+    const highlights: [number, number][] = [];
+    let text = '';
+    // Splitting on the capture group puts the marked words at odd indexes
+    snippet.split(/<mark>([\s\S]*?)<\/mark>/).forEach((part, index) => {
+        if (index % 2 === 1) highlights.push([text.length, text.length + part.length]);
+        text += part;
+    });
+    return { text, score, highlights };
+};
+
+// A rough count of model tokens, at about four characters per token for English
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+/**
+ * Picks the note passages most relevant to a question as chat context.
+ * Passages are taken best first until topK are chosen; one that would overflow
+ * the token budget is skipped in favour of shorter, lower-ranked ones.
+ * @param query The question, optionally with earlier questions for follow-ups.
+ * @param notes The notes to retrieve from.
+ * @returns The chosen passages, best first.
+ */
+export const retrieveChunks = async (
+    query: string,
+    notes: ProcessedNoteWithId[],
+    topK = RETRIEVAL_TOP_K,
+    tokenBudget = CHAT_CONTEXT_TOKEN_BUDGET
+): Promise<ContextChunk[]> => {
+    if (!query.trim() || notes.length === 0) return [];
+
+    const notesById = new Map(notes.map(note => [note.id, note]));
+    const chunks: ContextChunk[] = [];
+    let tokens = 0;
+    for (const { noteId, text, start, score } of await rankPassages(query, notes)) {
+        if (chunks.length >= topK) break;
+        const size = estimateTokens(text);
+        if (tokens + size > tokenBudget) continue;
+        tokens += size;
+        chunks.push({ noteId, noteTitle: getNoteTitle(notesById.get(noteId)!.refinedNote), text, start, score });
+    }
+    return chunks;
+};
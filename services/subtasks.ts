@@ -0,0 +1,40 @@
+import { toggleOccurrence } from './recurrence';
+import type { ActionItem, Subtask } from '../types';
+
+// Subtasks break an action item or task into steps. A parent with subtasks is
+// complete exactly when all of them are; toggleOccurrence carries a parent's
+// own toggle down to its subtasks.
+
+export const createSubtask = (text: string): Subtask => ({ id: crypto.randomUUID(), text: text.trim(), completed: false });
+
+// How many subtasks are done, or null if the item has none
+export const getSubtaskProgress = (item: ActionItem): { done: number; total: number } | null =>
+    item.subtasks?.length
+        ? { done: item.subtasks.filter(subtask => subtask.completed).length, total: item.subtasks.length }
+        : null;
+
+/**
+ * Replaces an item's subtasks and re-derives its completion: finishing the
+ * last open subtask completes the item (or rolls a recurring one forward),
+ * and an open subtask reopens a completed item.
+ * @param item The action item or task.
+ * @param subtasks The new list; blank ones are dropped.
+ * @param occurrenceDate The occurrence being worked on, for recurring items.
+ * @returns The updated item.
+ */
+export const withSubtasks = <T extends ActionItem>(item: T, subtasks: Subtask[], occurrenceDate?: string): T => {
+    const cleaned = subtasks.filter(subtask => subtask.text.trim());
+    if (cleaned.length === 0) return { ...item, subtasks: undefined };
+
+    const allDone = cleaned.every(subtask => subtask.completed);
+    if (allDone && !item.completed) return toggleOccurrence({ ...item, subtasks: cleaned }, occurrenceDate);
+    if (!allDone && item.completed) return { ...item, subtasks: cleaned, completed: false };
+    return { ...item, subtasks: cleaned };
+};
+
+export const toggleSubtask = <T extends ActionItem>(item: T, subtaskId: string, occurrenceDate?: string): T =>
+    withSubtasks(
+        item,
+        (item.subtasks ?? []).map(subtask => subtask.id === subtaskId ? { ...subtask, completed: !subtask.completed } : subtask),
+        occurrenceDate
+    );
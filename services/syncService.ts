@@ -0,0 +1,280 @@
+import { supabase } from './supabaseClient';
+import * as localStore from './localStore';
+import type { CachedTable, PendingMutation, PendingUpload } from './localStore';
+
+// Offline-first persistence: every write lands in IndexedDB first and is queued,
+// then replayed against Supabase whenever we are online. Conflicts are resolved
+// by updated_at, so the most recent edit of a row wins. Files for Storage are
+// queued the same way and uploaded before the row writes.
+
+const RETRY_INTERVAL_MS = 30_000;
+
+type SyncListener = () => void;
+
+const listeners = new Set<SyncListener>();
+let flushing: Promise<void> | null = null;
+let flushRequested = false;
+
+// supabase-js reports failed fetches as errors without a Postgres error code
+const isNetworkError = (error: any): boolean => !error?.code;
+
+const isNewer = (a?: string, b?: string): boolean => !!a && !!b && new Date(a).getTime() > new Date(b).getTime();
+
+const queue = (table: CachedTable, op: PendingMutation['op'], rowId: string, row?: any): PendingMutation => ({
+    key: `${table}:${rowId}`,
+    mutationId: crypto.randomUUID(),
+    table,
+    op,
+    rowId,
+    row,
+    queuedAt: new Date().toISOString(),
+});
+
+// Save a row locally and schedule it for upload
+export const saveRow = async (table: CachedTable, row: any): Promise<void> => {
+    await localStore.recordMutation(queue(table, 'upsert', row.id, row));
+    flushPendingMutations();
+};
+
+// Delete a row locally and schedule the delete for upload
+export const removeRow = async (table: CachedTable, id: string): Promise<void> => {
+    await localStore.recordMutation(queue(table, 'delete', id));
+    flushPendingMutations();
+};
+
+// Keep a file locally and schedule it for upload to a Storage bucket
+export const saveFile = async (bucket: string, path: string, blob: Blob): Promise<void> => {
+    await localStore.putPendingUpload({ key: `${bucket}:${path}`, bucket, path, blob, queuedAt: new Date().toISOString() });
+    flushPendingMutations();
+};
+
+// A file that has not been uploaded yet, e.g. to play a recording made offline
+export const getPendingFile = async (bucket: string, path: string): Promise<Blob | undefined> => {
+    try {
+        return (await localStore.getPendingUpload(`${bucket}:${path}`))?.blob;
+    } catch (e) {
+        console.error("Failed to read offline files", e);
+        return undefined;
+    }
+};
+
+// Stop a file's upload, e.g. when the row that referenced it is deleted
+export const discardPendingFile = (bucket: string, path: string): Promise<void> =>
+    localStore.deletePendingUpload(`${bucket}:${path}`);
+
+export const getCachedRow = (table: CachedTable, id: string): Promise<any | undefined> => localStore.getRow(table, id);
+
+export const getCachedRows = async (table: CachedTable): Promise<any[]> => {
+    try {
+        return await localStore.getAllRows(table);
+    } catch (e) {
+        console.error(`Failed to read offline ${table}`, e);
+        return [];
+    }
+};
+
+// Columns Postgres computes itself, e.g. search vectors. They are never cached,
+// since writing a cached row back with them would be rejected.
+const GENERATED_COLUMNS = ['search_vector', 'title', 'emotion_names'];
+
+const withoutGeneratedColumns = (row: any): any => {
+    const copy = { ...row };
+    GENERATED_COLUMNS.forEach(column => delete copy[column]);
+    return copy;
+};
+
+/**
+ * Refreshes part of the offline copy of a table from freshly fetched rows.
+ * Cached rows in scope that the server no longer returned are dropped; rows
+ * with writes still waiting to be uploaded keep their local version.
+ * @param inScope Picks out the cached rows the fetch covered, e.g. one page.
+ * @returns The merged rows in scope, which is what the app should display.
+ */
+export const mergeRemoteRowsWhere = async (table: CachedTable, remoteRows: any[], inScope: (row: any) => boolean): Promise<any[]> => {
+    const rows = remoteRows.map(withoutGeneratedColumns);
+    try {
+        const pending = await localStore.getPendingMutations();
+        const pendingIds = new Set(pending.filter(m => m.table === table).map(m => m.rowId));
+        const localRows = await localStore.getAllRows(table);
+        const fresh = rows.filter(row => !pendingIds.has(row.id));
+        await localStore.replaceMatchingRows(table, fresh, row => inScope(row) && !pendingIds.has(row.id));
+        return [
+            ...fresh,
+            ...localRows.filter(row => pendingIds.has(row.id) && inScope(row)),
+        ];
+    } catch (e) {
+        console.error(`Failed to update offline ${table}`, e);
+        return rows;
+    }
+};
+
+/**
+ * Lays rows with writes still waiting to be uploaded over freshly fetched ones,
+ * without touching the offline copy. For partial rows, e.g. a few columns, that
+ * must not replace the cached ones.
+ * @param inScope Picks out the cached rows the fetch covered.
+ * @returns The fetched rows, with local versions where writes are pending.
+ */
+export const withPendingRows = async (table: CachedTable, remoteRows: any[], inScope: (row: any) => boolean): Promise<any[]> => {
+    try {
+        const pending = await localStore.getPendingMutations();
+        const pendingIds = new Set(pending.filter(m => m.table === table).map(m => m.rowId));
+        if (pendingIds.size === 0) return remoteRows;
+        const localRows = (await localStore.getAllRows(table)).filter(row => pendingIds.has(row.id) && inScope(row));
+        return [...remoteRows.filter(row => !pendingIds.has(row.id)), ...localRows];
+    } catch (e) {
+        console.error(`Failed to read offline ${table}`, e);
+        return remoteRows;
+    }
+};
+
+/**
+ * Refreshes the whole offline copy of a table from freshly fetched rows.
+ * @returns The merged rows, which is what the app should display.
+ */
+export const mergeRemoteRows = (table: CachedTable, remoteRows: any[]): Promise<any[]> =>
+    mergeRemoteRowsWhere(table, remoteRows, () => true);
+
+/**
+ * Pushes a single queued write to Supabase.
+ * @returns True if the server copy was newer and replaced the local one.
+ */
+const applyMutation = async (mutation: PendingMutation): Promise<boolean> => {
+    const { table, rowId } = mutation;
+
+    if (mutation.op === 'delete') {
+        const { error } = await supabase.from(table).delete().eq('id', rowId);
+        if (error) throw error;
+        await localStore.completeMutation(mutation);
+        return false;
+    }
+
+    const { data: remote, error: fetchError } = await supabase.from(table).select('*').eq('id', rowId).maybeSingle();
+    if (fetchError) throw fetchError;
+
+    if (remote && isNewer(remote.updated_at, mutation.row.updated_at)) {
+        // Someone edited this row on another device after our change: theirs wins
+        if (await localStore.completeMutation(mutation)) {
+            await localStore.putRow(table, withoutGeneratedColumns(remote));
+            return true;
+        }
+        return false;
+    }
+
+    const { error } = await supabase.from(table).upsert(withoutGeneratedColumns(mutation.row));
+    if (error) throw error;
+    await localStore.completeMutation(mutation);
+    return false;
+};
+
+// Storage reports failed fetches as errors without an HTTP status
+const isStorageNetworkError = (error: any): boolean => !error?.status;
+
+/**
+ * Uploads a single queued file to Storage. A file that is already there, e.g.
+ * from an upload whose response was lost, counts as uploaded.
+ */
+const applyUpload = async (upload: PendingUpload): Promise<void> => {
+    const { error } = await supabase.storage
+        .from(upload.bucket)
+        .upload(upload.path, upload.blob, { contentType: upload.blob.type || undefined });
+    if (error && String((error as any).statusCode) !== '409') throw error;
+    await localStore.deletePendingUpload(upload.key);
+};
+
+// Files go up first, so rows referencing them never point at nothing for long
+const replayPendingUploads = async (): Promise<boolean> => {
+    const pending = (await localStore.getPendingUploads()).sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+    for (const upload of pending) {
+        try {
+            await applyUpload(upload);
+        } catch (error) {
+            // Still offline: keep the rest for the next attempt
+            if (isStorageNetworkError(error)) return false;
+            console.error(`Dropping rejected upload of ${upload.key}:`, error);
+            await localStore.deletePendingUpload(upload.key);
+        }
+    }
+    return true;
+};
+
+const replayPendingMutations = async (): Promise<void> => {
+    if (!navigator.onLine) return;
+    if (!(await replayPendingUploads())) return;
+
+    const pending = (await localStore.getPendingMutations()).sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+    let localDataChanged = false;
+
+    for (const mutation of pending) {
+        try {
+            localDataChanged = (await applyMutation(mutation)) || localDataChanged;
+        } catch (error) {
+            if (isNetworkError(error)) {
+                // Still offline: keep the rest of the queue for the next attempt
+                break;
+            }
+            // The server rejected the write; retrying will not help
+            console.error(`Dropping rejected ${mutation.op} on ${mutation.key}:`, error);
+            await localStore.completeMutation(mutation);
+        }
+    }
+
+    if (localDataChanged) {
+        listeners.forEach(listener => listener());
+    }
+};
+
+// Replay the queue now. A call made during a replay schedules one more pass,
+// so writes queued meanwhile are not left waiting for the next retry.
+export const flushPendingMutations = (): Promise<void> => {
+    if (flushing) {
+        flushRequested = true;
+        return flushing;
+    }
+    flushing = (async () => {
+        do {
+            flushRequested = false;
+            await replayPendingMutations().catch(e => console.error("Background sync failed", e));
+        } while (flushRequested);
+    })().finally(() => { flushing = null; });
+    return flushing;
+};
+
+/**
+ * Replays queued writes now, whenever the browser comes back online, and periodically.
+ * @param onRemoteChange Called when newer server data replaced local rows during sync.
+ * @returns A function that stops background sync.
+ */
+export const startBackgroundSync = (onRemoteChange: SyncListener): (() => void) => {
+    listeners.add(onRemoteChange);
+    const handleOnline = () => { flushPendingMutations(); };
+    window.addEventListener('online', handleOnline);
+    const interval = window.setInterval(handleOnline, RETRY_INTERVAL_MS);
+    flushPendingMutations();
+
+    return () => {
+        listeners.delete(onRemoteChange);
+        window.removeEventListener('online', handleOnline);
+        window.clearInterval(interval);
+    };
+};
+
+/**
+ * Uploads what we can, then drops the offline copy (used on sign out). Writes
+ * that could not be uploaded, e.g. while offline, are kept unless discarded.
+ * @param discardPending Drop the offline copy even if writes are still waiting.
+ * @returns How many writes are still waiting; when there are any and
+ *          discardPending is false, nothing was cleared.
+ */
+export const clearLocalData = async (discardPending = false): Promise<number> => {
+    await flushPendingMutations();
+    try {
+        const pending = (await localStore.getPendingMutations()).length + (await localStore.getPendingUploads()).length;
+        if (pending > 0 && !discardPending) return pending;
+        await localStore.clearAll();
+        return pending;
+    } catch (e) {
+        console.error("Failed to clear offline data", e);
+        return 0;
+    }
+};
@@ -0,0 +1,199 @@
+import { supabase } from './supabaseClient';
+import * as syncService from './syncService';
+import { normalizeRecurrence, occursOn, toggleOccurrence } from './recurrence';
+import { applyDetails, normalizePriority, normalizeTags } from './actionItemFields';
+import type { ActionItemDetails } from './actionItemFields';
+import { toggleSubtask, withSubtasks } from './subtasks';
+import type { Task, Priority, Subtask } from '../types';
+
+export interface NewTask {
+    text: string;
+    dueDate: string;
+    time?: string;
+    recurrence?: string;
+    noteId?: string | null;
+    completed?: boolean;
+    sourceUid?: string;
+    priority?: Priority;
+    tags?: string[];
+}
+
+export type TaskChanges = Partial<Pick<Task, 'text' | 'dueDate' | 'time' | 'recurrence' | 'completed' | 'noteId' | 'priority' | 'tags' | 'status' | 'subtasks'>>;
+
+// Map a row from the tasks table to the client-side shape
+const toTask = (task: any): Task => ({
+    id: task.id,
+    noteId: task.note_id || null,
+    text: task.text,
+    dueDate: task.due_date || '',
+    // Postgres returns time columns as HH:MM:SS
+    time: task.due_time ? task.due_time.slice(0, 5) : undefined,
+    recurrence: task.recurrence || undefined,
+    completed: !!task.completed,
+    priority: normalizePriority(task.priority ?? undefined),
+    tags: task.tags?.length ? task.tags : undefined,
+    status: task.status || undefined,
+    subtasks: task.subtasks?.length ? task.subtasks : undefined,
+    createdAt: task.created_at,
+    sourceUid: task.source_uid || undefined
+});
+
+const toColumns = (changes: TaskChanges): Record<string, any> => ({
+    ...(changes.text !== undefined && { text: changes.text }),
+    ...(changes.dueDate !== undefined && { due_date: changes.dueDate || null }),
+    ...('time' in changes && { due_time: changes.time || null }),
+    ...('recurrence' in changes && { recurrence: normalizeRecurrence(changes.recurrence) ?? null }),
+    ...(changes.completed !== undefined && { completed: changes.completed }),
+    ...(changes.noteId !== undefined && { note_id: changes.noteId }),
+    ...('priority' in changes && { priority: changes.priority ?? null }),
+    ...('tags' in changes && { tags: normalizeTags(changes.tags) }),
+    ...(changes.status !== undefined && { status: changes.status }),
+    ...('subtasks' in changes && { subtasks: changes.subtasks ?? [] }),
+});
+
+const newestFirst = (a: any, b: any) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+
+export const getTasks = async (): Promise<Task[]> => {
+    const { data, error } = await supabase
+        .from('tasks')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        console.error("Error fetching tasks, using offline copy:", error);
+        const cachedRows = await syncService.getCachedRows('tasks');
+        return cachedRows.sort(newestFirst).map(toTask);
+    }
+
+    const rows = await syncService.mergeRemoteRows('tasks', data);
+    return rows.sort(newestFirst).map(toTask);
+};
+
+export const createTask = async (task: NewTask): Promise<Task> => {
+    // getSession reads the stored session, so this works without a connection
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error("User not authenticated");
+
+    const now = new Date().toISOString();
+    const row = {
+        id: crypto.randomUUID(),
+        user_id: session.user.id,
+        note_id: task.noteId ?? null,
+        text: task.text,
+        due_date: task.dueDate || null,
+        due_time: task.time || null,
+        recurrence: normalizeRecurrence(task.recurrence) ?? null,
+        completed: task.completed ?? false,
+        priority: task.priority ?? null,
+        tags: normalizeTags(task.tags),
+        status: task.completed ? 'done' : 'todo',
+        source_uid: task.sourceUid ?? null,
+        created_at: now,
+        updated_at: now
+    };
+    await syncService.saveRow('tasks', row);
+
+    return toTask(row);
+};
+
+export const updateTask = async (id: string, changes: TaskChanges): Promise<Task> => {
+    const existing = await syncService.getCachedRow('tasks', id);
+    if (!existing) throw new Error("Task not found");
+
+    const row = { ...existing, ...toColumns(changes), updated_at: new Date().toISOString() };
+    await syncService.saveRow('tasks', row);
+    return toTask(row);
+};
+
+// For recurring tasks, occurrenceDate says which occurrence was completed
+export const toggleTaskCompletion = async (task: Task, occurrenceDate?: string): Promise<Task | undefined> => {
+    const { completed, dueDate, status, subtasks } = toggleOccurrence(task, occurrenceDate);
+    try {
+        return await updateTask(task.id, { completed, dueDate, status, subtasks });
+    } catch (e) {
+        console.error("Error updating task:", e);
+        return undefined;
+    }
+};
+
+// Complete one occurrence of a task; a no-op if it is already done
+export const completeTaskOccurrence = async (taskId: string, occurrenceDate: string): Promise<Task | undefined> => {
+    const existing = await syncService.getCachedRow('tasks', taskId);
+    if (!existing) return undefined;
+
+    const task = toTask(existing);
+    if (task.completed || !occursOn(task, occurrenceDate)) return undefined;
+
+    return toggleTaskCompletion(task, occurrenceDate);
+};
+
+// Complete several task occurrences, skipping any already done
+export const completeTasks = async (refs: { taskId: string; occurrenceDate: string }[]): Promise<Task[]> => {
+    const updatedTasks: Task[] = [];
+    for (const { taskId, occurrenceDate } of refs) {
+        const updated = await completeTaskOccurrence(taskId, occurrenceDate);
+        if (updated) updatedTasks.push(updated);
+    }
+    return updatedTasks;
+};
+
+export const rescheduleTasks = async (taskIds: string[], newDueDate: string): Promise<Task[]> => {
+    const updatedTasks: Task[] = [];
+    for (const taskId of new Set(taskIds)) {
+        updatedTasks.push(await updateTask(taskId, { dueDate: newDueDate }));
+    }
+    return updatedTasks;
+};
+
+// Pass newTime to move the item to another time as well, or null to make it untimed
+export const updateTaskDate = async (task: Task, newDueDate: string, newTime?: string | null): Promise<Task | undefined> => {
+    try {
+        return await updateTask(task.id, newTime === undefined ? { dueDate: newDueDate } : { dueDate: newDueDate, time: newTime ?? undefined });
+    } catch (e) {
+        console.error("Error updating task:", e);
+        return undefined;
+    }
+};
+
+// Saves the task's subtasks along with the completion they imply
+const saveSubtaskChange = async (task: Task, updated: Task): Promise<Task | undefined> => {
+    const { subtasks, completed, dueDate, status } = updated;
+    try {
+        return await updateTask(task.id, { subtasks, completed, dueDate, status });
+    } catch (e) {
+        console.error("Error updating subtasks:", e);
+        return undefined;
+    }
+};
+
+// For recurring tasks, occurrenceDate says which occurrence the subtask belongs to
+export const toggleTaskSubtask = (task: Task, subtaskId: string, occurrenceDate?: string): Promise<Task | undefined> =>
+    saveSubtaskChange(task, toggleSubtask(task, subtaskId, occurrenceDate));
+
+export const updateTaskSubtasks = (task: Task, subtasks: Subtask[]): Promise<Task | undefined> =>
+    saveSubtaskChange(task, withSubtasks(task, subtasks));
+
+// Text, time and repeat rule, as edited in the task editor
+export const editTask = async (task: Task, changes: Pick<TaskChanges, 'text' | 'time' | 'recurrence'>): Promise<Task | undefined> => {
+    try {
+        return await updateTask(task.id, changes);
+    } catch (e) {
+        console.error("Error updating task:", e);
+        return undefined;
+    }
+};
+
+// Priority, tags and board status
+export const updateTaskDetails = async (task: Task, details: ActionItemDetails): Promise<Task | undefined> => {
+    const { priority, tags, status, completed, dueDate, subtasks } = applyDetails(task, details);
+    try {
+        return await updateTask(task.id, { priority, tags, status, completed, dueDate, subtasks });
+    } catch (e) {
+        console.error("Error updating task:", e);
+        return undefined;
+    }
+};
+
+export const deleteTask = async (id: string): Promise<void> => {
+    await syncService.removeRow('tasks', id);
+};
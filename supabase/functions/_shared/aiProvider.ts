@@ -0,0 +1,56 @@
+import type { ProcessedNote, ProcessedNoteWithId, ChatMessage, WebSource, SourceSnippet } from './types.ts';
+
+// A piece of a streamed chat answer. Text arrives incrementally, sources once at the end.
+export interface ChatStreamChunk {
+    text?: string;
+    sources?: SourceSnippet[];
+    webSources?: WebSource[];
+}
+
+// What a chat answer reads of each note it is asked about
+export type ChatNote = Pick<ProcessedNoteWithId, 'id' | 'refinedNote'>;
+
+// A passage of a note retrieved as context for a question
+export interface ContextChunk {
+    noteId: string;
+    noteTitle: string;
+    text: string;
+    start: number; // Offset of the passage in the note's text
+    score: number;
+}
+
+// 'document' texts are stored in the search index, 'query' texts are searched for
+export type EmbeddingPurpose = 'document' | 'query';
+
+// Vectors from different models cannot be compared, so each batch names its model
+export interface Embeddings {
+    model: string;
+    vectors: number[][];
+}
+
+// The most texts one embedTexts call may carry; the ai-proxy rejects bigger requests
+export const MAX_EMBED_TEXTS = 500;
+
+// The AI operations the app relies on. Each backend (Gemini, the offline mock, ...)
+// implements this so the rest of the app never talks to a model SDK directly.
+// Gemini itself only runs server-side; the browser reaches it through the proxy.
+export interface AIProvider {
+    processTranscript: (transcript: string) => Promise<ProcessedNote>;
+    continueChatStream: (
+        notes: ChatNote[],
+        question: string,
+        history: ChatMessage[],
+        useGoogleSearch: boolean
+    ) => AsyncGenerator<ChatStreamChunk>;
+    // Like continueChatStream, but answers from retrieved chunks; the sources are the chunks the answer used
+    continueChunkChatStream: (
+        chunks: ContextChunk[],
+        question: string,
+        history: ChatMessage[],
+        useGoogleSearch: boolean
+    ) => AsyncGenerator<ChatStreamChunk>;
+    // Proposes the steps for a large action item; context is the note it came from
+    suggestSubtasks: (itemText: string, context?: string) => Promise<string[]>;
+    // One vector per text, in the same order
+    embedTexts: (texts: string[], purpose: EmbeddingPurpose) => Promise<Embeddings>;
+}
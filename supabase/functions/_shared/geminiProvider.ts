@@ -0,0 +1,413 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import type { ProcessedNote, ChatMessage, WebSource, SourceSnippet } from './types.ts';
+import type { AIProvider, ChatNote, ChatStreamChunk, ContextChunk, Embeddings, EmbeddingPurpose } from './aiProvider.ts';
+
+// Runs on the server only (see supabase/functions/ai-proxy), where the API key lives.
+
+const promptTemplate = (transcript: string, currentDate: string) => `
+You are an intelligent note-processing assistant for an app called Vocalyn.
+Your task is to analyze a raw text transcript from a user's voice note or text input.
+Perform the following three actions:
+1.  Correct and Refine the Note: First and foremost, meticulously correct all grammar and spelling errors. This includes fixing common transcription or typing errors like improperly joined words (e.g., "wordword" should be "word word"), missing spaces after punctuation (e.g., "end.Start" should be "end. Start"), and incorrect capitalization. Then, improve sentence structure for clarity and flow. Format the final, grammatically-perfect text using simple markdown for readability (e.g., use '#' for headings, '*' for bullet points). The goal is a polished, professional, and easy-to-read note.
+2.  Analyze Emotions: Identify up to three dominant emotions in the text. For each emotion, provide a brief justification based on specific words or phrases. Also, write a one-sentence summary of the overall emotional tone.
+3.  Extract Action Items: Identify any concrete tasks, to-do items, or follow-ups. For each item, extract the task description and its due date. The due date must be in 'YYYY-MM-DD' format. If a relative day is mentioned (e.g., 'today', 'tomorrow', 'next Tuesday'), calculate the date based on the current date: ${currentDate}. If no date is mentioned, the dueDate should be an empty string. If the task repeats (e.g., 'every Monday', 'daily', 'pay rent on the 1st'), give its recurrence as an iCalendar RRULE using only FREQ (DAILY, WEEKLY or MONTHLY), INTERVAL, BYDAY, BYMONTHDAY and UNTIL (e.g., 'FREQ=WEEKLY;BYDAY=MO' or 'FREQ=MONTHLY;BYMONTHDAY=1'), and set the dueDate to its first occurrence on or after ${currentDate}. If the task does not repeat, the recurrence should be an empty string. Infer a priority from P1 (most urgent) to P4 (least) only when the wording suggests one: 'urgent', 'ASAP' or 'critical' mean P1, 'important' or 'high priority' mean P2, 'when I get a chance' or 'low priority' mean P4. Otherwise the priority should be an empty string.
+
+Here is the raw transcript:
+---
+${transcript}
+---
+
+Provide your response strictly in the specified JSON format. Do not include any text, markdown formatting, or code fences before or after the JSON object.
+`;
+
+const responseSchema = {
+  type: Type.OBJECT,
+  properties: {
+    refinedNote: {
+      type: Type.STRING,
+      description: "The markdown-formatted, cleaned-up version of the note.",
+    },
+    emotionAnalysis: {
+      type: Type.OBJECT,
+      properties: {
+        summary: {
+          type: Type.STRING,
+          description: "A single sentence summarizing the overall emotional tone of the note.",
+        },
+        emotions: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              emotion: {
+                type: Type.STRING,
+                description: "The identified dominant emotion (e.g., Joy, Frustration, Contemplation).",
+              },
+              justification: {
+                type: Type.STRING,
+                description: "A brief explanation for why this emotion was identified, citing parts of the text.",
+              },
+            },
+            required: ["emotion", "justification"],
+          },
+        },
+      },
+      required: ["summary", "emotions"],
+    },
+    actionItems: {
+        type: Type.ARRAY,
+        description: "A list of action items or to-do tasks extracted from the note.",
+        items: {
+            type: Type.OBJECT,
+            properties: {
+                text: { 
+                    type: Type.STRING,
+                    description: "The description of the action item."
+                },
+                dueDate: { 
+                    type: Type.STRING,
+                    description: "The due date in YYYY-MM-DD format, or an empty string if no date is specified."
+                },
+                recurrence: {
+                    type: Type.STRING,
+                    description: "An RRULE such as FREQ=WEEKLY;BYDAY=MO for repeating tasks, or an empty string if the task does not repeat."
+                },
+                priority: {
+                    type: Type.STRING,
+                    enum: ["P1", "P2", "P3", "P4", ""],
+                    description: "P1 (most urgent) to P4, inferred from words like 'urgent' or 'important', or an empty string if nothing suggests a priority."
+                }
+            },
+            required: ["text", "dueDate", "recurrence", "priority"],
+        }
+    }
+  },
+  required: ["refinedNote", "emotionAnalysis", "actionItems"],
+};
+
+
+const processTranscript = async (ai: GoogleGenAI, transcript: string): Promise<ProcessedNote> => {
+    try {
+        const today = new Date();
+        const year = today.getFullYear();
+        const month = (today.getMonth() + 1).toString().padStart(2, '0');
+        const day = today.getDate().toString().padStart(2, '0');
+        const localTodayStr = `${year}-${month}-${day}`;
+        
+        const response = await ai.models.generateContent({
+            model: "gemini-2.5-flash",
+            contents: promptTemplate(transcript, localTodayStr),
+            config: {
+                responseMimeType: "application/json",
+                responseSchema: responseSchema,
+                temperature: 0.3,
+            },
+        });
+
+        const jsonString = (response.text ?? '').trim();
+        const result = JSON.parse(jsonString);
+        return result as ProcessedNote;
+
+    } catch (error) {
+        console.error("Error processing transcript with Gemini API:", error);
+        throw new Error("Failed to get a valid response from the AI service.");
+    }
+};
+
+const subtasksSchema = {
+    type: Type.OBJECT,
+    properties: {
+        subtasks: {
+            type: Type.ARRAY,
+            description: "The steps, in the order to do them.",
+            items: { type: Type.STRING },
+        },
+    },
+    required: ["subtasks"],
+};
+
+const suggestSubtasks = async (ai: GoogleGenAI, itemText: string, context?: string): Promise<string[]> => {
+    const prompt = `Break the following to-do item into 2 to 6 concrete, actionable subtasks, in the order they should be done. Each subtask should be a short imperative phrase (e.g. 'Collect the sales figures'). Do not repeat the item itself as a subtask.
+
+To-do item: "${itemText}"
+${context ? `
+The note the item comes from, for context:
+---
+${context}
+---
+` : ''}`;
+
+    try {
+        const response = await ai.models.generateContent({
+            model: "gemini-2.5-flash",
+            contents: prompt,
+            config: {
+                responseMimeType: "application/json",
+                responseSchema: subtasksSchema,
+                temperature: 0.4,
+            },
+        });
+
+        const result = JSON.parse((response.text ?? '').trim());
+        return (result.subtasks as string[]).map(text => text.trim()).filter(Boolean);
+    } catch (error) {
+        console.error("Error suggesting subtasks with Gemini API:", error);
+        throw new Error("Failed to get subtask suggestions from the AI service.");
+    }
+};
+
+const EMBEDDING_MODEL = "text-embedding-004";
+
+// The API accepts at most 100 texts per call
+const EMBEDDING_BATCH_SIZE = 100;
+
+const embedTexts = async (ai: GoogleGenAI, texts: string[], purpose: EmbeddingPurpose): Promise<Embeddings> => {
+    try {
+        const vectors: number[][] = [];
+        for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+            const response = await ai.models.embedContent({
+                model: EMBEDDING_MODEL,
+                contents: texts.slice(i, i + EMBEDDING_BATCH_SIZE),
+                config: { taskType: purpose === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT' },
+            });
+            vectors.push(...(response.embeddings ?? []).map(embedding => embedding.values ?? []));
+        }
+        if (vectors.length !== texts.length) throw new Error("The embedding count does not match the input.");
+        return { model: EMBEDDING_MODEL, vectors };
+    } catch (error) {
+        console.error("Error embedding texts with Gemini API:", error);
+        throw new Error("Failed to get embeddings from the AI service.");
+    }
+};
+
+const formatHistory = (history: ChatMessage[]): string =>
+    history.map(message => {
+        if (message.role === 'user') {
+            return `User: ${message.content}`;
+        } else {
+            // Ensure content is not a string before accessing 'answer'
+            const modelContent = typeof message.content === 'object' ? message.content.answer : message.content;
+            return `Assistant: ${modelContent}`;
+        }
+    }).join('\n');
+
+// Answers with Google Search grounding, using the notes only as personal context
+async function* googleSearchChatStream(ai: GoogleGenAI, notesContext: string, historyContext: string, question: string): AsyncGenerator<ChatStreamChunk> {
+    const prompt = `You are a helpful assistant. Your primary goal is to answer the user's question. Use the provided conversation history and context from the user's notes for context if relevant.
+    However, for the main answer, you are equipped with Google Search to find the most current and relevant information from the web.
+    Prioritize real-time web search results for accuracy when the question seems to be about current events or facts.
+    
+    Conversation History:
+    ${historyContext}
+
+    Context from Notes (use for personal context, not for general knowledge):
+    ${notesContext}
+
+    Based on all available information, answer the user's question comprehensively.
+    Question: "${question}"
+    `;
+
+    try {
+        const result = await ai.models.generateContentStream({
+            model: "gemini-2.5-flash",
+            contents: prompt,
+            config: {
+                tools: [{googleSearch: {}}],
+                temperature: 0.5,
+            },
+        });
+
+        const allChunks = [];
+        for await (const chunk of result) {
+            if (chunk.text) {
+                yield { text: chunk.text };
+            }
+            allChunks.push(chunk);
+        }
+        
+        const webSources: WebSource[] = [];
+        for (const chunk of allChunks) {
+            const groundingChunks = chunk.candidates?.[0]?.groundingMetadata?.groundingChunks;
+            if (groundingChunks) {
+                for (const grounding of groundingChunks) {
+                    if (grounding.web?.uri) {
+                        webSources.push({
+                            uri: grounding.web.uri,
+                            title: grounding.web.title || grounding.web.uri, // Fallback for title
+                        });
+                    }
+                }
+            }
+        }
+
+        // Deduplicate web sources based on URI
+        const uniqueWebSources = Array.from(new Map(webSources.map(item => [item.uri, item])).values());
+        if (uniqueWebSources.length > 0) {
+          yield { webSources: uniqueWebSources };
+        }
+
+    } catch (error) {
+        console.error("Error questioning with Google Search and Gemini API:", error);
+        throw new Error("Failed to get a valid response from the AI service with Google Search.");
+    }
+}
+
+async function* continueChatStream(ai: GoogleGenAI, notes: ChatNote[], question: string, history: ChatMessage[], useGoogleSearch: boolean): AsyncGenerator<ChatStreamChunk> {
+    const notesContext = notes.map((note) => {
+        return `--- NOTE START ---
+noteId: "${note.id}"
+Content:
+${note.refinedNote}
+--- NOTE END ---
+`;
+    }).join('\n\n');
+
+    const historyContext = formatHistory(history);
+
+    if (useGoogleSearch) {
+        yield* googleSearchChatStream(ai, notesContext, historyContext, question);
+        return;
+    }
+
+    const prompt = `You are a helpful assistant that answers questions based ONLY on the provided context from a user's notes and the history of the current conversation.
+    Your task is to answer the user's latest question in markdown. Do not use any external knowledge. 
+    
+    After your complete answer, on a new line, write the exact separator "%%SOURCES_JSON%%".
+
+    After the separator, provide a valid JSON array of the exact source snippets from the notes that justify your answer. The JSON array should be in this format: [{"noteId": "string", "snippet": "string"}].
+    
+    If the answer cannot be found within the provided notes, your answer must be "I could not find an answer in the selected notes." and you must not include the separator or the JSON block.
+
+    Here is the context from the notes:
+    ${notesContext}
+
+    Here is the conversation history so far:
+    ${historyContext}
+
+    Based ONLY on the notes and conversation history above, answer the following question:
+    Question: "${question}"
+    `;
+
+    try {
+        const resultStream = await ai.models.generateContentStream({
+            model: "gemini-2.5-flash",
+            contents: prompt,
+            config: {
+                temperature: 0.1,
+            },
+        });
+        
+        let fullText = '';
+        for await (const chunk of resultStream) {
+             if (chunk.text) {
+                fullText += chunk.text;
+            }
+        }
+
+        const separator = '%%SOURCES_JSON%%';
+        if (fullText.includes(separator)) {
+            const parts = fullText.split(separator);
+            const answerText = parts[0];
+            const jsonPart = parts[1];
+            
+            // Yield the text part first
+            yield { text: answerText };
+            
+            try {
+                const sources = JSON.parse(jsonPart);
+                // Then yield the sources
+                yield { sources };
+            } catch (e) {
+                console.error("Failed to parse sources JSON from stream:", e);
+                // If parsing fails, the text is already streamed, so we fail silently.
+            }
+        } else {
+            // If separator is not present, yield the full text as the answer.
+            yield { text: fullText };
+        }
+    } catch (error) {
+        console.error("Error questioning notes with Gemini API:", error);
+        throw new Error("Failed to get a valid response from the AI service for your question.");
+    }
+}
+
+// Excerpts are numbered so the model can cite them compactly instead of copying text
+async function* continueChunkChatStream(ai: GoogleGenAI, chunks: ContextChunk[], question: string, history: ChatMessage[], useGoogleSearch: boolean): AsyncGenerator<ChatStreamChunk> {
+    const excerptsContext = chunks.map((chunk, index) => `[${index + 1}] From the note "${chunk.noteTitle}":
+${chunk.text}`).join('\n\n');
+
+    const historyContext = formatHistory(history);
+
+    if (useGoogleSearch) {
+        yield* googleSearchChatStream(ai, excerptsContext, historyContext, question);
+        return;
+    }
+
+    const prompt = `You are a helpful assistant that answers questions based ONLY on the excerpts from a user's notes below and the history of the current conversation.
+    The excerpts were retrieved automatically for this question, so some of them may be irrelevant; ignore those.
+    Your task is to answer the user's latest question in markdown. Do not use any external knowledge.
+
+    After your complete answer, on a new line, write the exact separator "%%SOURCES_JSON%%".
+
+    After the separator, provide a valid JSON array of the numbers of the excerpts that justify your answer, e.g. [1, 3].
+
+    If the answer cannot be found within the excerpts, your answer must be "I could not find an answer in your notes." and you must not include the separator or the JSON block.
+
+    Here are the excerpts:
+    ${excerptsContext}
+
+    Here is the conversation history so far:
+    ${historyContext}
+
+    Based ONLY on the excerpts and conversation history above, answer the following question:
+    Question: "${question}"
+    `;
+
+    try {
+        const resultStream = await ai.models.generateContentStream({
+            model: "gemini-2.5-flash",
+            contents: prompt,
+            config: {
+                temperature: 0.1,
+            },
+        });
+
+        let fullText = '';
+        for await (const chunk of resultStream) {
+            if (chunk.text) {
+                fullText += chunk.text;
+            }
+        }
+
+        const [answerText, jsonPart] = fullText.split('%%SOURCES_JSON%%');
+        yield { text: answerText };
+        if (jsonPart === undefined) return;
+
+        try {
+            const cited: number[] = JSON.parse(jsonPart);
+            const sources: SourceSnippet[] = Array.from(new Set(cited))
+                .map(number => chunks[number - 1])
+                .filter(Boolean)
+                .map(({ noteId, text, start, score }) => ({ noteId, snippet: text, start, score }));
+            yield { sources };
+        } catch (e) {
+            console.error("Failed to parse cited excerpts from stream:", e);
+        }
+    } catch (error) {
+        console.error("Error questioning note excerpts with Gemini API:", error);
+        throw new Error("Failed to get a valid response from the AI service for your question.");
+    }
+}
+
+export const createGeminiProvider = (apiKey: string): AIProvider => {
+    const ai = new GoogleGenAI({ apiKey });
+    return {
+        processTranscript: (transcript) => processTranscript(ai, transcript),
+        suggestSubtasks: (itemText, context) => suggestSubtasks(ai, itemText, context),
+        embedTexts: (texts, purpose) => embedTexts(ai, texts, purpose),
+        continueChatStream: (notes, question, history, useGoogleSearch) =>
+            continueChatStream(ai, notes, question, history, useGoogleSearch),
+        continueChunkChatStream: (chunks, question, history, useGoogleSearch) =>
+            continueChunkChatStream(ai, chunks, question, history, useGoogleSearch),
+    };
+};
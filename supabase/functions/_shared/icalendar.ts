@@ -0,0 +1,279 @@
+import type { ActionItem } from './types.ts';
+
+// Builds iCalendar (RFC 5545) files from dated action items and tasks, and reads
+// events and to-dos back out of files from other calendars. Shared by the app
+// and the calendar-feed Edge Function, so it must stay free of browser and
+// Supabase dependencies.
+
+// Timed items become events of this length
+const TIMED_EVENT_DURATION = 'PT30M';
+const MAX_LINE_OCTETS = 75;
+
+// The minimal note shape needed to list its action items
+export interface CalendarNote {
+    id: string;
+    title: string;
+    actionItems: ActionItem[];
+}
+
+export interface CalendarEntry {
+    uid: string;
+    item: ActionItem;
+    description?: string;
+}
+
+const escapeText = (text: string): string =>
+    text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Split lines longer than 75 octets; continuation lines start with a space
+const foldLine = (line: string): string => {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let current = '';
+    let currentOctets = 0;
+    for (const char of line) {
+        const octets = encoder.encode(char).length;
+        // Continuation lines lose one octet to the leading space
+        const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+        if (currentOctets + octets > limit) {
+            parts.push(current);
+            current = '';
+            currentOctets = 0;
+        }
+        current += char;
+        currentOctets += octets;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+};
+
+const toICalDate = (dateStr: string): string => dateStr.replace(/-/g, '');
+
+const nextDay = (dateStr: string): string => {
+    const [year, month, day] = dateStr.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10);
+};
+
+const toUtcStamp = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Our UNTIL is a plain date; for timed events RFC 5545 wants a date-time
+const toICalRule = (rrule: string, timed: boolean): string =>
+    timed ? rrule.replace(/UNTIL=(\d{8})(?!T)/, 'UNTIL=$1T235959') : rrule;
+
+const buildEvent = ({ uid, item, description }: CalendarEntry, stamp: string): string[] => {
+    const lines = ['BEGIN:VEVENT', `UID:${uid}`, `DTSTAMP:${stamp}`];
+    if (item.time) {
+        // Floating local time: calendar apps show it at this hour in the viewer's zone
+        lines.push(`DTSTART:${toICalDate(item.dueDate)}T${item.time.replace(':', '')}00`, `DURATION:${TIMED_EVENT_DURATION}`);
+    } else {
+        lines.push(`DTSTART;VALUE=DATE:${toICalDate(item.dueDate)}`, `DTEND;VALUE=DATE:${toICalDate(nextDay(item.dueDate))}`);
+    }
+    if (item.recurrence) {
+        lines.push(`RRULE:${toICalRule(item.recurrence, !!item.time)}`);
+    }
+    lines.push(`SUMMARY:${escapeText(item.text)}`);
+    if (description) {
+        lines.push(`DESCRIPTION:${escapeText(description)}`);
+    }
+    lines.push('END:VEVENT');
+    return lines;
+};
+
+/**
+ * Lists the dated, open action items and tasks that belong in a calendar.
+ * @param notes The user's notes with their action items.
+ * @param tasks The user's tasks; a task's noteTitle, if given, ends up in its description.
+ */
+export const collectCalendarEntries = (notes: CalendarNote[], tasks: (ActionItem & { noteTitle?: string | null })[]): CalendarEntry[] => {
+    const isExported = (item: ActionItem) => !!item.dueDate && !item.completed;
+    return [
+        ...notes.flatMap(note => note.actionItems.filter(isExported).map(item => ({
+            uid: `note-${note.id}-${item.id}@vocalyn`,
+            item,
+            description: `From note: ${note.title}`,
+        }))),
+        ...tasks.filter(isExported).map(task => ({
+            uid: `task-${task.id}@vocalyn`,
+            item: task,
+            description: task.noteTitle ? `From note: ${task.noteTitle}` : undefined,
+        })),
+    ];
+};
+
+/**
+ * Renders entries as an iCalendar document. Items with a time become 30-minute
+ * events at that time; items without one become all-day events.
+ * @param entries The entries to include.
+ * @param calendarName The name calendar apps show for a subscription.
+ * @returns The .ics file contents, with CRLF line endings.
+ */
+export const buildICalendar = (entries: CalendarEntry[], calendarName = 'Vocalyn'): string => {
+    const stamp = toUtcStamp(new Date());
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Vocalyn//Action Items//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(calendarName)}`,
+        ...entries.flatMap(entry => buildEvent(entry, stamp)),
+        'END:VCALENDAR',
+    ];
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// An event or to-do read from an .ics file, in the app's date and time format
+export interface ParsedCalendarItem {
+    uid: string;
+    kind: 'event' | 'todo';
+    text: string;
+    dueDate: string; // YYYY-MM-DD, or '' for an undated to-do
+    time?: string; // HH:MM, local time
+    recurrence?: string; // The RRULE value as found; may use parts the app does not support
+    completed: boolean;
+}
+
+interface ContentLine {
+    name: string;
+    params: Record<string, string>;
+    value: string;
+}
+
+const unescapeText = (text: string): string =>
+    text.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// NAME;PARAM=value;PARAM="quoted:value":VALUE
+const parseContentLine = (line: string): ContentLine | null => {
+    let inQuotes = false;
+    let colon = -1;
+    for (let i = 0; i < line.length; i++) {
+        if (line[i] === '"') inQuotes = !inQuotes;
+        else if (line[i] === ':' && !inQuotes) {
+            colon = i;
+            break;
+        }
+    }
+    if (colon < 0) return null;
+
+    const [name, ...paramParts] = line.slice(0, colon).split(';');
+    const params: Record<string, string> = {};
+    for (const part of paramParts) {
+        const [key, ...rest] = part.split('=');
+        params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+    }
+    return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+const pad = (n: number): string => n.toString().padStart(2, '0');
+
+const toLocalParts = (date: Date): { dueDate: string; time: string } => ({
+    dueDate: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+    time: `${pad(date.getHours())}:${pad(date.getMinutes())}`,
+});
+
+// How far a time zone is ahead of UTC at a given instant, in milliseconds
+const getZoneOffset = (timestamp: number, timeZone: string): number => {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone, hourCycle: 'h23', year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric',
+    }).formatToParts(new Date(timestamp));
+    const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+    return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second')) - timestamp;
+};
+
+/**
+ * Reads a DATE or DATE-TIME value. UTC times and times with a known TZID are
+ * converted to the local zone; floating times, and zones Intl does not know
+ * (such as Windows zone names), are kept as written.
+ */
+const parseDateValue = ({ params, value }: ContentLine): { dueDate: string; time?: string } | null => {
+    const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+    if (!match) return null;
+    const [, year, month, day, hour, minute, second, utc] = match;
+    const dueDate = `${year}-${month}-${day}`;
+    if (!hour || params.VALUE === 'DATE') return { dueDate };
+
+    const wallClock = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+    if (utc) return toLocalParts(new Date(wallClock));
+    if (params.TZID) {
+        try {
+            // Two passes settle the offset for times near a DST change
+            const guess = wallClock - getZoneOffset(wallClock, params.TZID);
+            return toLocalParts(new Date(wallClock - getZoneOffset(guess, params.TZID)));
+        } catch {
+            // Unknown zone: fall through to the written time
+        }
+    }
+    return { dueDate, time: `${hour}:${minute}` };
+};
+
+const toParsedItem = (kind: 'event' | 'todo', props: Map<string, ContentLine>): ParsedCalendarItem | null => {
+    const status = props.get('STATUS')?.value.toUpperCase();
+    if (status === 'CANCELLED') return null;
+
+    // To-dos are placed on their due date; events on their start
+    const dateLine = kind === 'todo' ? props.get('DUE') ?? props.get('DTSTART') : props.get('DTSTART');
+    const when = dateLine ? parseDateValue(dateLine) : null;
+    if (!when && kind === 'event') return null;
+
+    const text = unescapeText(props.get('SUMMARY')?.value ?? '').trim() || 'Untitled event';
+    const dueDate = when?.dueDate ?? '';
+    return {
+        // Files without UIDs still need a stable key so re-imports are caught
+        uid: props.get('UID')?.value.trim() || `${kind}-${dueDate}-${text}`,
+        kind,
+        text,
+        dueDate,
+        time: when?.time,
+        recurrence: when ? props.get('RRULE')?.value.trim() || undefined : undefined,
+        completed: status === 'COMPLETED' || props.has('COMPLETED'),
+    };
+};
+
+/**
+ * Reads the events and to-dos from an iCalendar file. Changed instances of a
+ * recurring series (those with a RECURRENCE-ID) are dropped in favour of the
+ * series itself, and when a UID appears more than once the copy with the
+ * highest SEQUENCE wins.
+ * @param ics The file contents.
+ * @returns The items in file order.
+ * @throws If the text is not an iCalendar file.
+ */
+export const parseICalendar = (ics: string): ParsedCalendarItem[] => {
+    // Undo line folding before splitting into content lines
+    const lines = ics.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).filter(line => line.trim());
+    if (!lines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+        throw new Error("This file is not an iCalendar (.ics) file.");
+    }
+
+    const items = new Map<string, { item: ParsedCalendarItem; sequence: number }>();
+    const stack: string[] = [];
+    let props: Map<string, ContentLine> | null = null;
+
+    for (const line of lines) {
+        const contentLine = parseContentLine(line);
+        if (!contentLine) continue;
+        const { name, value } = contentLine;
+        const component = value.trim().toUpperCase();
+
+        if (name === 'BEGIN') {
+            stack.push(component);
+            if (component === 'VEVENT' || component === 'VTODO') props = new Map();
+        } else if (name === 'END') {
+            stack.pop();
+            if ((component === 'VEVENT' || component === 'VTODO') && props) {
+                const item = props.has('RECURRENCE-ID') ? null : toParsedItem(component === 'VTODO' ? 'todo' : 'event', props);
+                const sequence = Number(props.get('SEQUENCE')?.value) || 0;
+                const existing = item && items.get(item.uid);
+                if (item && (!existing || sequence >= existing.sequence)) {
+                    items.set(item.uid, { item, sequence });
+                }
+                props = null;
+            }
+        } else if (props && (stack[stack.length - 1] === 'VEVENT' || stack[stack.length - 1] === 'VTODO') && !props.has(name)) {
+            // Properties of nested components such as VALARM are ignored
+            props.set(name, contentLine);
+        }
+    }
+
+    return Array.from(items.values(), ({ item }) => item);
+};
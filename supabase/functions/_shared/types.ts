@@ -0,0 +1,138 @@
+
+export interface Emotion {
+  emotion: string;
+  justification: string;
+}
+
+export interface EmotionAnalysis {
+  summary: string;
+  emotions: Emotion[];
+}
+
+// P1 is the most urgent
+export type Priority = 'P1' | 'P2' | 'P3' | 'P4';
+
+// Where an item is on the board. `completed` stays the source of truth for
+// 'done'; status records the finer state of open items.
+export type ActionItemStatus = 'todo' | 'in_progress' | 'blocked' | 'done';
+
+// One step of a larger action item. Subtasks are one level deep.
+export interface Subtask {
+  id: string;
+  text: string;
+  completed: boolean;
+}
+
+// What we store in localStorage for each action item
+export interface ActionItem {
+  id: string; // Stable across edits and re-ordering; use this, not the array index
+  text: string;
+  completed: boolean;
+  dueDate: string; // YYYY-MM-DD format or empty string
+  dueDateOverridden?: boolean; // The user picked the date, so re-analysis keeps it
+  time?: string; // HH:MM format
+  recurrence?: string; // RRULE subset, see services/recurrence.ts; dueDate is the next occurrence
+  priority?: Priority;
+  tags?: string[]; // Lowercase, without a leading '#'
+  status?: ActionItemStatus;
+  subtasks?: Subtask[]; // When present, the item is complete exactly when all of them are
+}
+
+// A task stored in its own table. Tasks added from the calendar stand alone;
+// noteId links a task to the note it came from.
+export interface Task extends ActionItem {
+  noteId: string | null;
+  createdAt: string;
+  sourceUid?: string; // UID of the calendar entry it was imported from
+}
+
+// What changed in a note's action items the last time it was re-analyzed
+export interface ActionItemChanges {
+  addedIds: string[];
+  removed: ActionItem[];
+}
+
+// This is the shape of the action item data returned by the Gemini API
+export interface AIActionItem {
+    text: string;
+    dueDate: string; // YYYY-MM-DD format or empty string
+    recurrence?: string; // RRULE such as FREQ=WEEKLY;BYDAY=MO, or empty string
+    priority?: string; // P1 to P4, or empty string when nothing suggests one
+}
+
+// This is the shape of the full data returned by the Gemini API
+export interface ProcessedNote {
+  refinedNote: string;
+  emotionAnalysis: EmotionAnalysis;
+  actionItems: AIActionItem[];
+}
+
+// A piece of the spoken transcript and where it falls in the recording
+export interface TranscriptSegment {
+    text: string;
+    start: number; // Seconds from the start of the recording
+    end: number;
+}
+
+// 'unprocessed' notes hold only the raw transcript until the AI call succeeds
+export type ProcessingStatus = 'processed' | 'unprocessed';
+
+// This is the shape of the data we store in localStorage
+export interface ProcessedNoteWithId extends Omit<ProcessedNote, 'actionItems'> {
+    id: string;
+    createdAt: string;
+    actionItems: ActionItem[];
+    rawTranscript?: string; // The user's own words, before AI refinement
+    audioPath?: string; // Where the original recording is kept in the private note-audio bucket
+    transcriptSegments?: TranscriptSegment[];
+    processingStatus: ProcessingStatus;
+    actionItemChanges?: ActionItemChanges;
+}
+
+// Represents a single piece of source text used by the AI
+export interface SourceSnippet {
+  noteId: string;
+  snippet: string;
+  // Set when the snippet is a chunk retrieved for the question: its offset in the note and its relevance
+  start?: number;
+  score?: number;
+}
+
+// Represents a single web source from Google Search
+export interface WebSource {
+    uri: string;
+    title: string;
+}
+
+// The shape of the structured response from the Ask AI feature
+export interface AskAIResponse {
+  answer: string;
+  sources: SourceSnippet[];
+  webSources?: WebSource[];
+}
+
+// Represents a single message in a chat session
+export interface ChatMessage {
+    role: 'user' | 'model';
+    // User content is a simple string, model content is the structured response
+    content: string | AskAIResponse;
+}
+
+// 'selected' chats answer from the notes picked in the list, 'all' chats from every note
+export type ChatScope = 'selected' | 'all';
+
+// Represents a full chat session
+export interface ChatSession {
+    id: string;
+    title: string;
+    createdAt: string;
+    scope: ChatScope;
+    noteIds: string[]; // IDs of the notes used as context; empty for 'all' chats
+    messages: ChatMessage[];
+}
+
+export interface User {
+    id: string;
+    email: string | null;
+    twoFactorEnabled?: boolean;
+}
@@ -0,0 +1,216 @@
+// Server-side proxy for the app's Gemini calls, deployed as a Supabase Edge Function.
+// It owns the Gemini API key so it is never shipped to browsers:
+//
+//   supabase secrets set GEMINI_API_KEY=...
+//   supabase functions deploy ai-proxy
+//
+// Routes (POST, JSON body, Supabase access token as the Bearer token):
+//   /ai-proxy/process-transcript  { transcript }                               -> ProcessedNote
+//   /ai-proxy/chat-stream         { notes, question, history, useGoogleSearch } -> NDJSON stream of ChatStreamChunk
+//   /ai-proxy/chunk-chat-stream   { chunks, question, history, useGoogleSearch } -> NDJSON stream of ChatStreamChunk
+//   /ai-proxy/suggest-subtasks    { text, context? }                            -> { subtasks: string[] }
+//   /ai-proxy/embed               { texts, purpose }                            -> Embeddings
+import { createClient } from '@supabase/supabase-js';
+import { createGeminiProvider } from '../_shared/geminiProvider.ts';
+import { MAX_EMBED_TEXTS } from '../_shared/aiProvider.ts';
+import type { AIProvider, ChatNote, ChatStreamChunk, ContextChunk, EmbeddingPurpose } from '../_shared/aiProvider.ts';
+import type { AskAIResponse, ChatMessage } from '../_shared/types.ts';
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const jsonResponse = (body: unknown, status = 200): Response =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+let gemini: AIProvider | null = null;
+
+const getGemini = (): AIProvider => {
+    if (gemini) return gemini;
+    const apiKey = Deno.env.get('GEMINI_API_KEY');
+    if (!apiKey) {
+        throw new Error("GEMINI_API_KEY secret not set");
+    }
+    gemini = createGeminiProvider(apiKey);
+    return gemini;
+};
+
+// Only signed-in users of this project may spend the API quota
+const isAuthenticated = async (req: Request): Promise<boolean> => {
+    const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+    if (!token) return false;
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_ANON_KEY') ?? '');
+    const { data: { user }, error } = await supabase.auth.getUser(token);
+    return !error && !!user;
+};
+
+// Request bodies are checked before they reach Gemini. Each parser returns the
+// typed request, or the message for a 400 response.
+type Parsed<T> = { request: T } | { error: string };
+
+interface ProcessTranscriptRequest {
+    transcript: string;
+}
+
+interface SuggestSubtasksRequest {
+    text: string;
+    context?: string;
+}
+
+interface EmbedRequest {
+    texts: string[];
+    purpose: EmbeddingPurpose;
+}
+
+interface ChatStreamRequest {
+    notes: ChatNote[];
+    question: string;
+    history: ChatMessage[];
+    useGoogleSearch: boolean;
+}
+
+interface ChunkChatStreamRequest {
+    chunks: ContextChunk[];
+    question: string;
+    history: ChatMessage[];
+    useGoogleSearch: boolean;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const isArrayOf = <T,>(value: unknown, isItem: (item: unknown) => item is T): value is T[] =>
+    Array.isArray(value) && value.every(isItem);
+
+const isChatNote = (value: unknown): value is ChatNote =>
+    isRecord(value) && typeof value.id === 'string' && typeof value.refinedNote === 'string';
+
+const isContextChunk = (value: unknown): value is ContextChunk =>
+    isRecord(value) && typeof value.noteId === 'string' && typeof value.noteTitle === 'string' &&
+    typeof value.text === 'string' && typeof value.start === 'number' && typeof value.score === 'number';
+
+// Model replies in the history carry the structured answer; only its text is read
+const isAnswer = (value: unknown): value is AskAIResponse =>
+    isRecord(value) && typeof value.answer === 'string' && Array.isArray(value.sources);
+
+const isChatMessage = (value: unknown): value is ChatMessage =>
+    isRecord(value) && (
+        (value.role === 'user' && typeof value.content === 'string') ||
+        (value.role === 'model' && (typeof value.content === 'string' || isAnswer(value.content)))
+    );
+
+const parseProcessTranscript = (body: unknown): Parsed<ProcessTranscriptRequest> =>
+    isRecord(body) && isText(body.transcript)
+        ? { request: { transcript: body.transcript } }
+        : { error: "A transcript is required." };
+
+const parseSuggestSubtasks = (body: unknown): Parsed<SuggestSubtasksRequest> =>
+    isRecord(body) && isText(body.text)
+        ? { request: { text: body.text, context: typeof body.context === 'string' ? body.context : undefined } }
+        : { error: "The action item text is required." };
+
+const parseEmbed = (body: unknown): Parsed<EmbedRequest> => {
+    const texts = isRecord(body) ? body.texts : undefined;
+    if (!isArrayOf(texts, (text): text is string => typeof text === 'string') || texts.length === 0) {
+        return { error: "A list of texts is required." };
+    }
+    if (texts.length > MAX_EMBED_TEXTS) {
+        return { error: `At most ${MAX_EMBED_TEXTS} texts can be embedded at once.` };
+    }
+    return { request: { texts, purpose: isRecord(body) && body.purpose === 'query' ? 'query' : 'document' } };
+};
+
+const parseChatStream = (body: unknown): Parsed<ChatStreamRequest> =>
+    isRecord(body) && typeof body.question === 'string' && isArrayOf(body.notes, isChatNote) && isArrayOf(body.history, isChatMessage)
+        ? { request: { notes: body.notes, question: body.question, history: body.history, useGoogleSearch: body.useGoogleSearch === true } }
+        : { error: "A question, notes and history are required." };
+
+const parseChunkChatStream = (body: unknown): Parsed<ChunkChatStreamRequest> =>
+    isRecord(body) && typeof body.question === 'string' && isArrayOf(body.chunks, isContextChunk) && isArrayOf(body.history, isChatMessage)
+        ? { request: { chunks: body.chunks, question: body.question, history: body.history, useGoogleSearch: body.useGoogleSearch === true } }
+        : { error: "A question, chunks and history are required." };
+
+const handleProcessTranscript = async ({ transcript }: ProcessTranscriptRequest): Promise<Response> =>
+    jsonResponse(await getGemini().processTranscript(transcript));
+
+const handleSuggestSubtasks = async ({ text, context }: SuggestSubtasksRequest): Promise<Response> =>
+    jsonResponse({ subtasks: await getGemini().suggestSubtasks(text, context) });
+
+const handleEmbed = async ({ texts, purpose }: EmbedRequest): Promise<Response> =>
+    jsonResponse(await getGemini().embedTexts(texts, purpose));
+
+// Streams the answer as newline-delimited JSON, one ChatStreamChunk per line
+const chatStreamResponse = (answer: () => AsyncGenerator<ChatStreamChunk>): Response => {
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream({
+        async start(controller) {
+            const send = (payload: unknown) => controller.enqueue(encoder.encode(JSON.stringify(payload) + '\n'));
+            try {
+                for await (const chunk of answer()) {
+                    send(chunk);
+                }
+            } catch (error) {
+                // Headers are already sent, so report the failure in-band
+                send({ error: error instanceof Error ? error.message : "The AI service failed." });
+            } finally {
+                controller.close();
+            }
+        },
+    });
+
+    return new Response(stream, {
+        headers: { ...corsHeaders, 'Content-Type': 'application/x-ndjson' },
+    });
+};
+
+const handleChatStream = ({ notes, question, history, useGoogleSearch }: ChatStreamRequest): Response =>
+    chatStreamResponse(() => getGemini().continueChatStream(notes, question, history, useGoogleSearch));
+
+const handleChunkChatStream = ({ chunks, question, history, useGoogleSearch }: ChunkChatStreamRequest): Response =>
+    chatStreamResponse(() => getGemini().continueChunkChatStream(chunks, question, history, useGoogleSearch));
+
+// Validates the body for a route, then hands the typed request to its handler
+const withRequest = async <T,>(parsed: Parsed<T>, handle: (request: T) => Response | Promise<Response>): Promise<Response> =>
+    'error' in parsed ? jsonResponse({ error: parsed.error }, 400) : await handle(parsed.request);
+
+Deno.serve(async (req: Request) => {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders });
+    }
+    if (req.method !== 'POST') {
+        return jsonResponse({ error: "Method not allowed." }, 405);
+    }
+    if (!(await isAuthenticated(req))) {
+        return jsonResponse({ error: "User not authenticated" }, 401);
+    }
+
+    const route = new URL(req.url).pathname.split('/').pop();
+    try {
+        const body: unknown = await req.json();
+        switch (route) {
+            case 'process-transcript':
+                return await withRequest(parseProcessTranscript(body), handleProcessTranscript);
+            case 'chat-stream':
+                return await withRequest(parseChatStream(body), handleChatStream);
+            case 'chunk-chat-stream':
+                return await withRequest(parseChunkChatStream(body), handleChunkChatStream);
+            case 'suggest-subtasks':
+                return await withRequest(parseSuggestSubtasks(body), handleSuggestSubtasks);
+            case 'embed':
+                return await withRequest(parseEmbed(body), handleEmbed);
+            default:
+                return jsonResponse({ error: `Unknown route "${route}".` }, 404);
+        }
+    } catch (error) {
+        console.error(`ai-proxy ${route} failed:`, error);
+        return jsonResponse({ error: error instanceof Error ? error.message : "The AI service failed." }, 500);
+    }
+});
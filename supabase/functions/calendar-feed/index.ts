@@ -0,0 +1,78 @@
+// iCalendar subscription feed of a user's dated action items and tasks,
+// deployed as a Supabase Edge Function. Calendar apps cannot send a Supabase
+// session, so the secret token in the URL is the only credential:
+//
+//   supabase functions deploy calendar-feed --no-verify-jwt
+//
+// Route: GET /calendar-feed?token=<calendar_feeds.token>  -> text/calendar
+import { createClient } from '@supabase/supabase-js';
+import { buildICalendar, collectCalendarEntries } from '../_shared/icalendar.ts';
+
+const textResponse = (body: string, status: number): Response =>
+    new Response(body, { status, headers: { 'Content-Type': 'text/plain; charset=utf-8' } });
+
+const handleFeed = async (token: string): Promise<Response> => {
+    // The service role bypasses row level security, so every query below must
+    // be scoped to the user the token belongs to
+    const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '');
+
+    const { data: feed, error: feedError } = await supabase
+        .from('calendar_feeds')
+        .select('user_id')
+        .eq('token', token)
+        .maybeSingle();
+    if (feedError) throw feedError;
+    if (!feed) return textResponse("Calendar feed not found.", 404);
+
+    // The stored title column spares fetching every note's text
+    const [notesResult, tasksResult] = await Promise.all([
+        supabase.from('notes').select('id, title, action_items').eq('user_id', feed.user_id),
+        supabase.from('tasks').select('*').eq('user_id', feed.user_id),
+    ]);
+    if (notesResult.error) throw notesResult.error;
+    if (tasksResult.error) throw tasksResult.error;
+
+    const notes = notesResult.data.map(note => ({
+        id: note.id,
+        title: note.title || 'Untitled Note',
+        // Same fallback ids as the app uses for items saved before ids existed
+        actionItems: (note.action_items || []).map((item: any, index: number) => item.id ? item : { ...item, id: `${note.id}:${index}` }),
+    }));
+    const titles = new Map(notes.map(note => [note.id, note.title]));
+    const tasks = tasksResult.data.map(task => ({
+        id: task.id,
+        text: task.text,
+        dueDate: task.due_date || '',
+        time: task.due_time ? task.due_time.slice(0, 5) : undefined,
+        recurrence: task.recurrence || undefined,
+        completed: !!task.completed,
+        noteTitle: task.note_id ? titles.get(task.note_id) ?? null : null,
+    }));
+
+    const calendar = buildICalendar(collectCalendarEntries(notes, tasks), 'Vocalyn Tasks');
+    return new Response(calendar, {
+        headers: {
+            'Content-Type': 'text/calendar; charset=utf-8',
+            'Content-Disposition': 'inline; filename="vocalyn.ics"',
+            'Cache-Control': 'private, max-age=300',
+        },
+    });
+};
+
+Deno.serve(async (req: Request) => {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+        return textResponse("Method not allowed.", 405);
+    }
+
+    const token = new URL(req.url).searchParams.get('token');
+    if (!token) {
+        return textResponse("A feed token is required.", 401);
+    }
+
+    try {
+        return await handleFeed(token);
+    } catch (error) {
+        console.error("calendar-feed failed:", error);
+        return textResponse("The calendar feed is unavailable.", 500);
+    }
+});
@@ -0,0 +1,16 @@
+-- Keep the original recording for every voice note.
+alter table public.notes
+    add column if not exists audio_url text;
+
+-- Recordings live under a folder named after the owner's user id.
+insert into storage.buckets (id, name, public)
+values ('note-audio', 'note-audio', true)
+on conflict (id) do nothing;
+
+create policy "Users can upload their own note audio"
+    on storage.objects for insert to authenticated
+    with check (bucket_id = 'note-audio' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can delete their own note audio"
+    on storage.objects for delete to authenticated
+    using (bucket_id = 'note-audio' and (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,3 @@
+-- Timed pieces of the spoken transcript, used to sync playback with the text.
+alter table public.notes
+    add column if not exists transcript_segments jsonb;
@@ -0,0 +1,3 @@
+-- The user's original words, kept so AI refinement can be reviewed and re-run.
+alter table public.notes
+    add column if not exists raw_transcript text;
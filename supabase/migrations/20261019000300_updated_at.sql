@@ -0,0 +1,7 @@
+-- Offline edits are replayed later; updated_at decides which copy of a row wins.
+-- The client sets it when the edit is made, so there is no trigger overriding it.
+alter table public.notes
+    add column if not exists updated_at timestamptz not null default now();
+
+alter table public.chat_sessions
+    add column if not exists updated_at timestamptz not null default now();
@@ -0,0 +1,5 @@
+-- Notes saved while the AI was unavailable hold only the raw transcript
+-- until the client's processing queue fills in the analysis.
+alter table public.notes
+    add column if not exists processing_status text not null default 'processed'
+    check (processing_status in ('processed', 'unprocessed'));
@@ -0,0 +1,20 @@
+-- Give every existing action item a stable id so tasks are no longer
+-- addressed by their position in the action_items array.
+update public.notes
+set action_items = (
+    select coalesce(
+        jsonb_agg(
+            case when item ? 'id' then item
+                 else item || jsonb_build_object('id', gen_random_uuid()::text)
+            end
+            order by position
+        ),
+        '[]'::jsonb
+    )
+    from jsonb_array_elements(action_items) with ordinality as items(item, position)
+)
+where jsonb_typeof(action_items) = 'array'
+  and exists (
+      select 1 from jsonb_array_elements(action_items) as existing(item)
+      where not existing.item ? 'id'
+  );
@@ -0,0 +1,3 @@
+-- Which action items were added or removed the last time a note was re-analyzed.
+alter table public.notes
+    add column if not exists action_item_changes jsonb;
@@ -0,0 +1,44 @@
+-- Tasks get their own table instead of being stored as synthetic notes.
+-- note_id is set when a task belongs to a note; calendar tasks stand alone.
+create table if not exists public.tasks (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+    note_id uuid references public.notes (id) on delete set null,
+    text text not null,
+    due_date date,
+    due_time time,
+    completed boolean not null default false,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+create index if not exists tasks_user_id_due_date_idx on public.tasks (user_id, due_date);
+
+alter table public.tasks enable row level security;
+
+create policy "Users can manage their own tasks"
+    on public.tasks for all to authenticated
+    using (user_id = auth.uid())
+    with check (user_id = auth.uid());
+
+-- Calendar tasks used to be saved as notes titled "# To-Do: ..." with a canned
+-- summary. Move their action items into tasks and drop the placeholder notes.
+insert into public.tasks (user_id, text, due_date, due_time, completed, created_at, updated_at)
+select
+    notes.user_id,
+    item->>'text',
+    nullif(item->>'dueDate', '')::date,
+    nullif(item->>'time', '')::time,
+    coalesce((item->>'completed')::boolean, false),
+    notes.created_at,
+    notes.updated_at
+from public.notes
+cross join lateral jsonb_array_elements(
+    case when jsonb_typeof(notes.action_items) = 'array' then notes.action_items else '[]'::jsonb end
+) as items(item)
+where notes.refined_note like '# To-Do: %'
+  and notes.emotion_analysis->>'summary' = 'Task added manually from calendar.';
+
+delete from public.notes
+where refined_note like '# To-Do: %'
+  and emotion_analysis->>'summary' = 'Task added manually from calendar.';
@@ -0,0 +1,5 @@
+-- Recurring tasks keep an RRULE subset (FREQ, INTERVAL, BYDAY, BYMONTHDAY, UNTIL).
+-- due_date is the next open occurrence. Note action items store the same
+-- rule in their JSON under "recurrence", so the notes table needs no change.
+alter table public.tasks
+    add column if not exists recurrence text;
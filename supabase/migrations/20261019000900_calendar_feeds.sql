@@ -0,0 +1,14 @@
+-- Secret tokens for the calendar-feed Edge Function. Anyone holding a token can
+-- read that user's dated tasks, so users can rotate or revoke it at any time.
+create table if not exists public.calendar_feeds (
+    user_id uuid primary key default auth.uid() references auth.users (id) on delete cascade,
+    token text not null unique,
+    created_at timestamptz not null default now()
+);
+
+alter table public.calendar_feeds enable row level security;
+
+create policy "Users can manage their own calendar feed"
+    on public.calendar_feeds for all to authenticated
+    using (user_id = auth.uid())
+    with check (user_id = auth.uid());
@@ -0,0 +1,8 @@
+-- Tasks imported from an .ics file remember the UID of the event or to-do they
+-- came from, so importing the same file again can flag what is already here.
+alter table public.tasks
+    add column if not exists source_uid text;
+
+create index if not exists tasks_user_id_source_uid_idx
+    on public.tasks (user_id, source_uid)
+    where source_uid is not null;
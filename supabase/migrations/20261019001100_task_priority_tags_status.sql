@@ -0,0 +1,10 @@
+-- Priority (P1 is the most urgent), free-form tags and a board status for
+-- tasks. Note action items keep the same fields in their JSON, so the notes
+-- table needs no change. completed stays the source of truth for 'done'.
+alter table public.tasks
+    add column if not exists priority text check (priority in ('P1', 'P2', 'P3', 'P4')),
+    add column if not exists tags text[] not null default '{}',
+    add column if not exists status text not null default 'todo'
+        check (status in ('todo', 'in_progress', 'blocked', 'done'));
+
+update public.tasks set status = 'done' where completed and status <> 'done';
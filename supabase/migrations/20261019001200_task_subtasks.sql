@@ -0,0 +1,4 @@
+-- Subtasks of a task, as a JSON array of { id, text, completed }. Note action
+-- items keep theirs in the same shape inside action_items.
+alter table public.tasks
+    add column if not exists subtasks jsonb not null default '[]'::jsonb;
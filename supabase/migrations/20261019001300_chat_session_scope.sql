@@ -0,0 +1,4 @@
+-- Chats can answer from every note instead of a hand-picked selection
+alter table public.chat_sessions
+    add column if not exists scope text not null default 'selected'
+    check (scope in ('selected', 'all'));
@@ -0,0 +1,81 @@
+-- Ranked full-text search on the server, so the client no longer has to
+-- download every note and chat to search them. Titles and note text weigh
+-- more than the emotional summary or the chat replies.
+alter table public.notes
+    add column if not exists search_vector tsvector generated always as (
+        setweight(to_tsvector('english', coalesce(refined_note, '')), 'A') ||
+        setweight(to_tsvector('english', coalesce(emotion_analysis->>'summary', '')), 'B')
+    ) stored;
+
+create index if not exists notes_search_vector_idx on public.notes using gin (search_vector);
+
+alter table public.chat_sessions
+    add column if not exists search_vector tsvector generated always as (
+        setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+        setweight(jsonb_to_tsvector('english', coalesce(messages, '[]'::jsonb), '["string"]'), 'B')
+    ) stored;
+
+create index if not exists chat_sessions_search_vector_idx on public.chat_sessions using gin (search_vector);
+
+-- The notes list pages through notes newest first
+create index if not exists notes_user_id_created_at_idx on public.notes (user_id, created_at desc);
+
+-- Web-search style queries: words, "quoted phrases", -excluded words and "or". With
+-- match_any, a note matching any of the words counts, which suits questions
+-- asked in plain language. Functions run with the caller's rights, so row
+-- level security keeps results to their own rows.
+create or replace function public.to_search_tsquery(search_query text, match_any boolean)
+returns tsquery
+language sql immutable
+as $$
+    select case
+        when match_any then replace(plainto_tsquery('english', search_query)::text, ' & ', ' | ')::tsquery
+        else websearch_to_tsquery('english', search_query)
+    end;
+$$;
+
+create or replace function public.search_notes(
+    search_query text,
+    match_any boolean default false,
+    match_limit integer default 20,
+    match_offset integer default 0
+)
+returns table (note jsonb, rank real, snippet text)
+language sql stable security invoker
+as $$
+    select
+        to_jsonb(notes) - 'search_vector',
+        ts_rank_cd(notes.search_vector, query),
+        ts_headline('english', notes.refined_note, query,
+            'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "')
+    from public.notes, public.to_search_tsquery(search_query, match_any) as query
+    where notes.search_vector @@ query
+    order by 2 desc, notes.created_at desc
+    limit match_limit offset match_offset;
+$$;
+
+create or replace function public.search_chat_sessions(
+    search_query text,
+    match_limit integer default 20,
+    match_offset integer default 0
+)
+returns table (session jsonb, rank real, snippet text)
+language sql stable security invoker
+as $$
+    select
+        to_jsonb(chats) - 'search_vector',
+        ts_rank_cd(chats.search_vector, query),
+        ts_headline('english',
+            (select string_agg(
+                case jsonb_typeof(message->'content')
+                    when 'string' then message->>'content'
+                    else message->'content'->>'answer'
+                end, ' ')
+             from jsonb_array_elements(coalesce(chats.messages, '[]'::jsonb)) as message),
+            query,
+            'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12, MaxFragments=1')
+    from public.chat_sessions as chats, public.to_search_tsquery(search_query, false) as query
+    where chats.search_vector @@ query
+    order by 2 desc, chats.created_at desc
+    limit match_limit offset match_offset;
+$$;
@@ -0,0 +1,5 @@
+-- The notes list pages with a (created_at, id) cursor; the id breaks ties
+-- between notes created at the same moment, so the index needs it too
+create index if not exists notes_user_id_created_at_id_idx on public.notes (user_id, created_at desc, id desc);
+
+drop index if exists public.notes_user_id_created_at_idx;
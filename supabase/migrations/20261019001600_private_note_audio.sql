@@ -0,0 +1,11 @@
+-- Voice recordings are private: only their owner can play them, through signed
+-- links. audio_url now holds the object path instead of a public URL.
+update storage.buckets set public = false where id = 'note-audio';
+
+create policy "Users can read their own note audio"
+    on storage.objects for select to authenticated
+    using (bucket_id = 'note-audio' and (storage.foldername(name))[1] = auth.uid()::text);
+
+update public.notes
+set audio_url = regexp_replace(audio_url, '^.*/storage/v1/object/public/note-audio/', '')
+where audio_url like '%/storage/v1/object/public/note-audio/%';
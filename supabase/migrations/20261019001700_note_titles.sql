@@ -0,0 +1,9 @@
+-- The calendar, agenda, board and reminders need every note with action items,
+-- but only its id, title and items. A stored title lets them skip the note text.
+alter table public.notes
+    add column if not exists title text generated always as (
+        nullif(btrim(regexp_replace(split_part(refined_note, E'\n', 1), '^#+\s*', '')), '')
+    ) stored;
+
+create index if not exists notes_user_id_with_action_items_idx on public.notes (user_id)
+    where action_items is not null and action_items <> '[]'::jsonb;
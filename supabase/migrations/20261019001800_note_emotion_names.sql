@@ -0,0 +1,8 @@
+-- emotion: filters match the note's emotions case-insensitively, as the client
+-- does. The AI capitalizes names inconsistently, so they are stored lowercased.
+alter table public.notes
+    add column if not exists emotion_names jsonb generated always as (
+        lower(coalesce(jsonb_path_query_array(emotion_analysis, '$.emotions[*].emotion'), '[]'::jsonb)::text)::jsonb
+    ) stored;
+
+create index if not exists notes_emotion_names_idx on public.notes using gin (emotion_names);
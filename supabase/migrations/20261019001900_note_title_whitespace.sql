@@ -0,0 +1,9 @@
+-- Stored titles trimmed only spaces, so a note with CRLF line endings or a
+-- tab-padded heading got a different title than the app shows. Only spaces,
+-- tabs and line breaks count as padding now, on both sides.
+alter table public.notes drop column if exists title;
+
+alter table public.notes
+    add column title text generated always as (
+        nullif(btrim(regexp_replace(split_part(refined_note, E'\n', 1), E'^#+[ \t\r\n]*', ''), E' \t\r\n'), '')
+    ) stored;
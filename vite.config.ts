@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       // Expose specific environment variables to the client-side code
       // under process.env, similar to Create React App.
       // Vite by default only exposes VITE_ prefixed variables via import.meta.env.
-      'process.env.API_KEY': JSON.stringify(env.API_KEY),
+      // The Gemini API key is deliberately not listed: it stays on the server
+      // with the ai-proxy Edge Function. AI_PROVIDER is 'proxy' or 'mock'.
+      'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
       'process.env.SUPABASE_URL': JSON.stringify(env.SUPABASE_URL),
       'process.env.SUPABASE_ANON_KEY': JSON.stringify(env.SUPABASE_ANON_KEY),
     },